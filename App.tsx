@@ -1,8 +1,54 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Dataset, ChatMessage, AnalysisStatus, AnalysisSession, Theme, ColumnStats, SortConfig, CleaningSuggestion, DashboardTile, ChartConfig, KPIMetric, ActiveFilter, FilterOperator } from './types';
-import { analyzeData, getCleaningSuggestions } from './services/geminiService';
+import { Dataset, ChatMessage, AnalysisStatus, AnalysisSession, Theme, ColumnStats, SortConfig, CleaningSuggestion, DashboardTile, ChartConfig, KPIMetric, ActiveFilter, FilterNode, SavedFilterSet, PendingImport, QuerySpec, ProviderId, ProviderSettings, PivotConfig, CalculatedColumn, DatasetHistory, HistoryEntry, DatasetDerivation, ColumnMetadata, ColumnRename, ImportColumnType, DashboardSlicer, DashboardPage, Anomaly, AnomalyScanOptions } from './types';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from './services/analysisProvider';
+import { isAbortError } from './services/streaming';
 import { ChartRenderer } from './components/ChartRenderer';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import { ColumnProfilePanel } from './components/ColumnProfilePanel';
+import { FilterBuilderModal } from './components/FilterBuilderModal';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BulkEditBar } from './components/BulkEditBar';
+import { CleaningModal } from './components/CleaningModal';
+import { CombineDatasetsModal } from './components/CombineDatasetsModal';
+import { VersionImportModal } from './components/VersionImportModal';
+import { VersionsPanel } from './components/VersionsPanel';
+import { DashboardSlicerBar } from './components/DashboardSlicerBar';
+import { DashboardGrid } from './components/DashboardGrid';
+import { DashboardPageTabs } from './components/DashboardPageTabs';
+import { TextTile } from './components/TextTile';
+import { ChartExportMenu } from './components/ChartExportMenu';
+import { ExportReportModal } from './components/ExportReportModal';
+import { DataExportModal } from './components/DataExportModal';
+import { ShareWorkspaceModal } from './components/ShareWorkspaceModal';
+import { WorkspaceImportModal } from './components/WorkspaceImportModal';
+import { SessionSidebar } from './components/SessionSidebar';
+import { AnomalyPanel } from './components/AnomalyPanel';
+import { PivotBuilderModal } from './components/PivotBuilderModal';
+import { CalculatedColumnModal } from './components/CalculatedColumnModal';
+import { TableTile } from './components/TableTile';
+import { findImporter, IMPORT_ACCEPT } from './services/importers';
+import { profileColumn, profileDataset } from './services/profiler';
+import { applyFilters, describeCondition, describeFilter, drillFilterFor, filterColumns, isFilterGroup, removeColumnFromFilters, renameFilterColumns } from './services/filterEngine';
+import { buildPivot, describePivot } from './services/pivotEngine';
+import { canRedo, canUndo, recordOperation, restoreEntry } from './services/history';
+import { applyCleaning, describeCleaningAction, validateCleaning } from './services/cleaningEngine';
+import { mergeCleaningSuggestions, runQualityRules } from './services/qualityRules';
+import { buildDerivedDataset, derivationSourceIds, describeDerivation, isDerivedStale } from './services/datasetCombiner';
+import { describeDrift, detectSchemaDrift, retainCalculatedColumns } from './services/versioning';
+import { moveTile, pageTiles, removePage, sessionPages } from './services/dashboardLayout';
+import { describeDashboardFilters, reportPages, tileFilterSummary } from './services/reportExport';
+import { chartDataTable, DataExportSource } from './services/dataExport';
+import { BUNDLE_EXTENSION, BundleOptions, bundleFileName, buildBundle, CollisionMode, parseBundle, unpackBundle, WorkspaceBundle } from './services/workspaceBundle';
+import { downloadText } from './services/download';
+import { createSession, forkSession, sessionTitle } from './services/sessions';
+import { computeLiveTiles, CrossFilter, isBoundTile, refreshTile, renameTileColumns, slicerFilters } from './services/tileBinding';
+import { assignRowIds, getRowId, rowValues, stripRowId } from './services/rowIdentity';
+import { applyCalculatedColumns, dateFormatsFromMetadata, getBaseColumns, validateCalculatedColumns } from './services/formulaEngine';
+import { AGGREGATION_LABELS, buildChartFromQuery, computeMetrics, runForecastQuery, runQuery, runStatisticQuery, validateQuerySpec } from './services/queryEngine';
+import { describeForecast } from './services/timeSeries';
+import { anomalyChart, anomalyContext, DEFAULT_ANOMALY_OPTIONS, flagChartAnomalies, indexAnomalies, scanAnomalies } from './services/anomalyDetection';
+import { clearStorage, formatBytes, getStorageEstimate, loadDatasetRows, loadWorkspace, persistWorkspace, StorageEstimate, Workspace } from './services/storage';
 import { 
   Search, Upload, FileText, Send, Database, BarChart3, Plus, 
   Trash2, Menu, Moon, Sun, DownloadCloud, ArrowUpDown, Filter, X,
@@ -10,11 +56,12 @@ import {
   LogOut, Shield, HardDrive, Info, Share2, FileCode, Table as TableIcon,
   ChevronRight, Lightbulb, Zap, LayoutDashboard, MessageCircle, TrendingUp,
   ArrowUpRight, ArrowDownRight, Layers, GripVertical, ListFilter, Eraser,
-  Wand2, Check, ShieldAlert, Sparkle, PlusCircle, FilterX
+  Wand2, Check, ShieldAlert, PlusCircle, FilterX, Square, RotateCcw, Sigma, Undo2, Redo2, History, GitMerge, GitBranch, FileDown, PackageOpen, MessagesSquare, Radar
 } from 'lucide-react';
 
 const ROW_HEIGHT = 65; 
 const BUFFER_COUNT = 5;
+const QUERY_CONTEXT_ROWS = 50;
 
 const App: React.FC = () => {
   const [theme, setTheme] = useState<Theme>(() => {
@@ -22,39 +69,74 @@ const App: React.FC = () => {
     return (saved === 'dark' || saved === 'light') ? saved : 'light';
   });
   
-  const [datasets, setDatasets] = useState<Dataset[]>(() => JSON.parse(localStorage.getItem('datasets') || '[]'));
-  const [sessions, setSessions] = useState<AnalysisSession[]>(() => JSON.parse(localStorage.getItem('sessions') || '[]'));
-  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(() => datasets[0]?.id || null);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(() => sessions[0]?.id || null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => ({ ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(localStorage.getItem('providerSettings') || '{}') }));
+
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [view, setView] = useState<'chat' | 'data' | 'dashboard'>('chat');
   const [input, setInput] = useState('');
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
   const [isCleaningModalOpen, setIsCleaningModalOpen] = useState(false);
   const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false);
   const [notification, setNotification] = useState<{message: string, type: 'success' | 'info' | 'error'} | null>(null);
   const [cleaningSuggestions, setCleaningSuggestions] = useState<CleaningSuggestion[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   
-  const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([]);
+  const [activeFilters, setActiveFilters] = useState<FilterNode[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: '', direction: null });
 
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const [columnOrder, setColumnOrder] = useState<string[]>([]);
-  const [editingCell, setEditingCell] = useState<{ rowIndex: number, column: string } | null>(null);
+  const [editingCell, setEditingCell] = useState<{ rowId: string, column: string } | null>(null);
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<string>>(new Set());
   const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null);
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig | null>(null);
+  const [isPivotBuilderOpen, setIsPivotBuilderOpen] = useState(false);
+  const [histories, setHistories] = useState<Record<string, DatasetHistory>>({});
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCombineOpen, setIsCombineOpen] = useState(false);
+  const [pendingVersion, setPendingVersion] = useState<{ datasetId: string, fileName: string, columns: string[], rows: any[], columnTypes: Record<string, ImportColumnType>, metadata: Record<string, ColumnMetadata> } | null>(null);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
+  // Anomaly mode is on while this is set: flagged cells and chart points are highlighted.
+  const [anomalyOptions, setAnomalyOptions] = useState<AnomalyScanOptions | null>(null);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [crossFilter, setCrossFilter] = useState<CrossFilter | null>(null);
+  const [activePageId, setActivePageId] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [dataExportSources, setDataExportSources] = useState<DataExportSource[] | null>(null);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingBundle, setPendingBundle] = useState<{ bundle: WorkspaceBundle; fileName: string } | null>(null);
+  const [calculatedEditor, setCalculatedEditor] = useState<{ column?: CalculatedColumn } | null>(null);
 
   const [scrollTop, setScrollTop] = useState(0);
   const [tableContainerHeight, setTableContainerHeight] = useState(0);
 
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const resizeRef = useRef<{ col: string, startX: number, startWidth: number } | null>(null);
   const tableContainerRef = useRef<HTMLDivElement>(null);
+  const persistedRef = useRef<Workspace>({ datasets: [], sessions: [] });
+  const loadedRowsRef = useRef<Set<string>>(new Set());
+  const pendingRowLoadsRef = useRef<Map<string, Promise<Dataset | undefined>>>(new Map());
 
   const activeDataset = useMemo(() => datasets.find(d => d.id === activeDatasetId), [datasets, activeDatasetId]);
+  // Archived versions stay in the workspace for comparison but are not offered as datasets of their own.
+  const liveDatasets = useMemo(() => datasets.filter(d => !d.archivedFrom), [datasets]);
+  const activeHistory = activeDatasetId ? histories[activeDatasetId] : undefined;
   const activeSession = useMemo(() => sessions.find(s => s.id === activeSessionId), [sessions, activeSessionId]);
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
 
   useEffect(() => {
     if (view !== 'data' || !tableContainerRef.current) return;
@@ -78,9 +160,69 @@ const App: React.FC = () => {
   }, [theme]);
 
   useEffect(() => {
-    localStorage.setItem('datasets', JSON.stringify(datasets));
-    localStorage.setItem('sessions', JSON.stringify(sessions));
-  }, [datasets, sessions]);
+    localStorage.setItem('providerSettings', JSON.stringify(providerSettings));
+  }, [providerSettings]);
+
+  useEffect(() => {
+    loadWorkspace()
+      .then(workspace => {
+        persistedRef.current = workspace;
+        setDatasets(workspace.datasets);
+        setSessions(workspace.sessions);
+        setActiveDatasetId(workspace.datasets.find(d => !d.archivedFrom)?.id || null);
+        setActiveSessionId(workspace.sessions[0]?.id || null);
+      })
+      .catch(err => showToast(`Could not load workspace: ${err.message}`, "error"))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const previous = persistedRef.current;
+    persistedRef.current = { datasets, sessions };
+    persistWorkspace(previous, persistedRef.current).catch(err => showToast(err.message, "error"));
+  }, [datasets, sessions, isHydrated]);
+
+  /** Resolves with the dataset once its rows are in memory, loading them from storage the first time. */
+  const ensureDatasetRows = (datasetId: string): Promise<Dataset | undefined> => {
+    const pending = pendingRowLoadsRef.current.get(datasetId);
+    if (pending) return pending;
+    if (loadedRowsRef.current.has(datasetId)) return Promise.resolve(datasets.find(d => d.id === datasetId));
+    loadedRowsRef.current.add(datasetId);
+    const load = loadDatasetRows(datasetId)
+      .then(rows => {
+        const stored = persistedRef.current.datasets.find(d => d.id === datasetId);
+        if (!stored) return undefined;
+        const loaded = { ...stored, rows };
+        // Record the loaded rows as already persisted so they are not written straight back.
+        persistedRef.current = { ...persistedRef.current, datasets: persistedRef.current.datasets.map(d => d.id === datasetId ? loaded : d) };
+        // Datasets saved before profiling or row ids existed get them filled in on first load.
+        // Row operations wait for the load (see updateActiveDataset), but other changes made
+        // meanwhile, such as a rename or a saved filter set, are kept by filling in the current entry.
+        const withIds = assignRowIds(rows);
+        const metadata = loaded.metadata || profileDataset(loaded.columns, withIds, loaded.columnTypes);
+        const fill = (d: Dataset): Dataset => ({ ...d, rows: withIds, metadata: d.metadata || metadata });
+        setDatasets(prev => prev.map(d => d.id !== datasetId ? d : fill(d)));
+        return fill(loaded);
+      })
+      .catch(err => {
+        loadedRowsRef.current.delete(datasetId);
+        throw err;
+      })
+      .finally(() => pendingRowLoadsRef.current.delete(datasetId));
+    pendingRowLoadsRef.current.set(datasetId, load);
+    return load;
+  };
+
+  useEffect(() => {
+    if (!isHydrated || !activeDatasetId) return;
+    ensureDatasetRows(activeDatasetId).catch(err => showToast(`Could not load dataset: ${err.message}`, "error"));
+  }, [activeDatasetId, isHydrated]);
+
+  useEffect(() => {
+    if (!isSettingsOpen) return;
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  }, [isSettingsOpen]);
 
   useEffect(() => {
     if (activeDataset && columnOrder.length === 0) {
@@ -88,6 +230,24 @@ const App: React.FC = () => {
     }
   }, [activeDataset]);
 
+  useEffect(() => {
+    setPivotConfig(null);
+    setSelectedRowIds(new Set());
+  }, [activeDatasetId]);
+
+  useEffect(() => {
+    setCrossFilter(null);
+    setActivePageId(null);
+  }, [activeSessionId]);
+
+  // Search results jump to the matching message and flash it briefly.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, activeSessionId]);
+
   useEffect(() => {
     if (notification) {
       const timer = setTimeout(() => setNotification(null), 4000);
@@ -98,55 +258,106 @@ const App: React.FC = () => {
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
   const showToast = (message: string, type: 'success' | 'info' | 'error' = 'success') => setNotification({ message, type });
 
-  const handleGetCleaningSuggestions = async () => {
-    if (!activeDataset) return;
+  /** Local rules show up straight away; model suggestions are merged in when they arrive. */
+  const handleGetCleaningSuggestions = async (dataset: Dataset | undefined = activeDataset) => {
+    if (!dataset) return;
+    const ruleSuggestions = runQualityRules(dataset);
+    setCleaningSuggestions(ruleSuggestions);
     setStatus(AnalysisStatus.LOADING);
     try {
-      const suggestions = await getCleaningSuggestions(activeDataset.summary, activeDataset.rows.slice(0, 15));
-      setCleaningSuggestions(suggestions);
+      const suggestions = await provider.getCleaningSuggestions(dataset.summary, dataset.rows.slice(0, 15).map(stripRowId));
+      setCleaningSuggestions(mergeCleaningSuggestions(ruleSuggestions, suggestions));
       setStatus(AnalysisStatus.SUCCESS);
     } catch (err) {
       setStatus(AnalysisStatus.ERROR);
     }
   };
 
+  /**
+   * Applies a data operation to the active dataset and records it in that dataset's history.
+   * Returns false without applying it while the dataset's rows are still loading.
+   */
+  const updateActiveDataset = (label: string, kind: HistoryEntry['kind'], update: (d: Dataset) => Dataset): boolean => {
+    if (!activeDataset) return false;
+    // The operation would run on no rows and be overwritten by the load, and its undo snapshot would hold no rows.
+    if (pendingRowLoadsRef.current.has(activeDataset.id)) {
+      showToast("Rows are still loading, try again in a moment", "info");
+      return false;
+    }
+    const next = { ...update(activeDataset), updatedAt: Date.now() };
+    setDatasets(prev => prev.map(d => d.id === next.id ? next : d));
+    setHistories(prev => ({ ...prev, [next.id]: recordOperation(prev[next.id], activeDataset, next, label, kind) }));
+    return true;
+  };
+
+  const revertToHistoryEntry = (index: number) => {
+    const history = activeDatasetId ? histories[activeDatasetId] : undefined;
+    if (!activeDataset || !history || index < 0 || index >= history.entries.length || index === history.cursor) return;
+    const restored = { ...restoreEntry(activeDataset, history, index), updatedAt: Date.now() };
+    const removedColumns = activeDataset.columns.filter(c => !restored.columns.includes(c));
+    setDatasets(prev => prev.map(d => d.id === restored.id ? restored : d));
+    setHistories(prev => ({ ...prev, [restored.id]: { ...history, cursor: index } }));
+    setColumnOrder(prev => [...prev.filter(c => restored.columns.includes(c)), ...restored.columns.filter(c => !prev.includes(c))]);
+    if (removedColumns.length) {
+      setActiveFilters(prev => removedColumns.reduce(removeColumnFromFilters, prev));
+      setPivotConfig(prev => prev && [...prev.rows, prev.pivotColumn, ...prev.values.map(v => v.column)].some(c => c && removedColumns.includes(c)) ? null : prev);
+    }
+    setEditingCell(null);
+    setSelectedRowIds(new Set());
+    const step = index - history.cursor;
+    showToast(step === -1 ? `Undid: ${history.entries[history.cursor].label}` : step === 1 ? `Redid: ${history.entries[index].label}` : `Restored: ${history.entries[index].label}`, "info");
+  };
+
+  const undo = () => activeHistory && revertToHistoryEntry(activeHistory.cursor - 1);
+  const redo = () => activeHistory && revertToHistoryEntry(activeHistory.cursor + 1);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave text fields to their own native undo.
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const isRedo = key === 'y' || e.shiftKey;
+      if (isRedo ? !canRedo(activeHistory) : !canUndo(activeHistory)) return;
+      e.preventDefault();
+      if (isRedo) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const applyCleaningSuggestion = (suggestion: CleaningSuggestion) => {
-    if (!activeDatasetId) return;
-    setDatasets(prev => prev.map(d => {
-      if (d.id !== activeDatasetId) return d;
-      let newRows = [...d.rows];
-      switch (suggestion.actionType) {
-        case 'remove_nulls':
-          newRows = newRows.filter(r => r[suggestion.column] !== null && r[suggestion.column] !== undefined && r[suggestion.column] !== '');
-          break;
-        case 'deduplicate':
-          const seen = new Set();
-          newRows = newRows.filter(r => {
-            const val = JSON.stringify(r);
-            if (seen.has(val)) return false;
-            seen.add(val);
-            return true;
-          });
-          break;
-        case 'normalize':
-          newRows = newRows.map(r => ({
-            ...r,
-            [suggestion.column]: typeof r[suggestion.column] === 'string' ? r[suggestion.column].trim() : r[suggestion.column]
-          }));
-          break;
-        case 'convert_types':
-          newRows = newRows.map(r => {
-            const val = r[suggestion.column];
-            let newVal = val;
-            if (!isNaN(Number(val)) && val !== '') newVal = Number(val);
-            return { ...r, [suggestion.column]: newVal };
-          });
-          break;
-      }
-      return { ...d, rows: newRows };
-    }));
+    if (!activeDataset) return;
+    const error = validateCleaning(suggestion, getBaseColumns(activeDataset.columns, activeDataset.calculatedColumns));
+    if (error) {
+      showToast(error, "error");
+      return;
+    }
+    const label = describeCleaningAction(suggestion);
+    let addedColumns: string[] = [];
+    const applied = updateActiveDataset(label, 'cleaning', d => {
+      const cleaned = applyCleaning(d, suggestion);
+      addedColumns = cleaned.columns.filter(c => !d.columns.includes(c));
+      const newRows = withCalculatedColumns(d, cleaned.rows);
+      return { ...d, columns: cleaned.columns, rows: newRows, metadata: profileDataset(cleaned.columns, newRows, d.columnTypes) };
+    });
+    if (!applied) return;
+    if (addedColumns.length) {
+      setColumnOrder(prev => {
+        const at = prev.indexOf(suggestion.column) + 1;
+        return at > 0 ? [...prev.slice(0, at), ...addedColumns, ...prev.slice(at)] : [...prev, ...addedColumns];
+      });
+    }
+    setSelectedRowIds(new Set());
     setCleaningSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
-    showToast(`Successfully applied: ${suggestion.suggestion}`);
+    showToast(`Successfully applied: ${label}`);
+  };
+
+  const updateCleaningSuggestion = (suggestion: CleaningSuggestion) => {
+    setCleaningSuggestions(prev => prev.some(s => s.id === suggestion.id) ? prev.map(s => s.id === suggestion.id ? suggestion : s) : [...prev, suggestion]);
   };
 
   const rejectCleaningSuggestion = (suggestionId: string) => {
@@ -154,13 +365,15 @@ const App: React.FC = () => {
     showToast("Suggestion dismissed", "info");
   };
 
-  const pinToDashboard = (config: ChartConfig) => {
+  const pinToDashboard = (config: ChartConfig, query?: QuerySpec) => {
     if (!activeSessionId) return;
     const newTile: DashboardTile = {
       id: Math.random().toString(36).substr(2, 9),
       type: 'chart',
       config,
-      w: 2 
+      w: 2,
+      query,
+      pageId: currentPageId
     };
     setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, dashboardTiles: [...s.dashboardTiles, newTile] } : s));
     showToast("Visual pinned to Dashboard!");
@@ -168,50 +381,116 @@ const App: React.FC = () => {
 
   const removeTile = (tileId: string) => {
     setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, dashboardTiles: s.dashboardTiles.filter(t => t.id !== tileId) } : s));
+    if (crossFilter?.tileId === tileId) setCrossFilter(null);
+  };
+
+  const updateActiveSession = (update: (s: AnalysisSession) => AnalysisSession) => {
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...update(s), lastUpdated: Date.now() } : s));
+  };
+
+  const updateSlicers = (slicers: DashboardSlicer[]) => updateActiveSession(s => ({ ...s, slicers }));
+
+  const dashboardPages = useMemo(() => activeSession ? sessionPages(activeSession) : [], [activeSession]);
+  const currentPageId = dashboardPages.some(p => p.id === activePageId) ? activePageId! : dashboardPages[0]?.id;
+
+  const moveDashboardTile = (sourceId: string, targetId: string) => updateActiveSession(s => ({ ...s, dashboardTiles: moveTile(s.dashboardTiles, sourceId, targetId) }));
+
+  const resizeDashboardTile = (tileId: string, w: number, h: number) => updateActiveSession(s => ({ ...s, dashboardTiles: s.dashboardTiles.map(t => t.id === tileId ? { ...t, w, h } : t) }));
+
+  const addTextTile = () => {
+    const tile: DashboardTile = { id: Math.random().toString(36).substr(2, 9), type: 'text', text: '', w: 2, pageId: currentPageId };
+    updateActiveSession(s => ({ ...s, dashboardTiles: [...s.dashboardTiles, tile] }));
+  };
+
+  const updateTextTile = (tileId: string, text: string) => updateActiveSession(s => ({ ...s, dashboardTiles: s.dashboardTiles.map(t => t.id === tileId ? { ...t, text } : t) }));
+
+  const addDashboardPage = () => {
+    const page: DashboardPage = { id: Math.random().toString(36).substr(2, 9), name: `Page ${dashboardPages.length + 1}` };
+    updateActiveSession(s => ({ ...s, pages: [...sessionPages(s), page] }));
+    setActivePageId(page.id);
   };
 
+  const renameDashboardPage = (pageId: string, name: string) => updateActiveSession(s => ({ ...s, pages: sessionPages(s).map(p => p.id === pageId ? { ...p, name } : p) }));
+
+  const removeDashboardPage = (pageId: string) => {
+    const page = dashboardPages.find(p => p.id === pageId);
+    if (!activeSession || !page) return;
+    const removedTiles = pageTiles(activeSession.dashboardTiles, dashboardPages, pageId).length;
+    updateActiveSession(s => removePage(s, pageId));
+    if (crossFilter && pageTiles(activeSession.dashboardTiles, dashboardPages, pageId).some(t => t.id === crossFilter.tileId)) setCrossFilter(null);
+    showToast(`Deleted ${page.name}${removedTiles ? ` and ${removedTiles} tile${removedTiles > 1 ? 's' : ''}` : ''}`, "info");
+  };
+
+  /** Clicking a value in a tile filters the rest of the dashboard to it; clicking it again clears the filter. */
+  const toggleCrossFilter = (tileId: string, drillFilter: { column: string, value: any }) => {
+    setCrossFilter(prev => prev && prev.tileId === tileId && prev.column === drillFilter.column && String(prev.value) === String(drillFilter.value) ? null : { tileId, ...drillFilter });
+  };
+
+  const openCrossFilterRows = () => {
+    if (!crossFilter || !activeDataset) return;
+    const filters: ActiveFilter[] = [...slicerFilters(activeSession?.slicers, activeDataset.columns), drillFilterFor(crossFilter.column, crossFilter.value)]
+      .map(f => ({ ...f, id: Math.random().toString(36).substr(2, 9) }));
+    setActiveFilters(filters);
+    setView('data');
+    showToast(`Drilled into ${crossFilter.column}`);
+  };
+
+  // Bound tiles follow the current rows, slicers and cross-filter; the rest show what was pinned.
+  const liveTiles = useMemo(() => {
+    if (!activeSession) return [];
+    const isLoaded = activeDataset && activeDataset.id === activeSession.datasetId && loadedRowsRef.current.has(activeDataset.id);
+    return isLoaded ? computeLiveTiles(activeSession.dashboardTiles, activeDataset, activeSession.slicers, crossFilter) : activeSession.dashboardTiles;
+  }, [activeSession, activeDataset, crossFilter]);
+  const isDashboardFiltered = !!crossFilter || !!activeSession?.slicers?.some(s => s.values.length > 0);
+  const visibleTiles = currentPageId ? pageTiles(liveTiles, dashboardPages, currentPageId) : [];
+  const reportMetadata = {
+    title: 'Executive Report',
+    datasetName: activeDataset ? `${activeDataset.name}${(activeDataset.version || 1) > 1 ? ` (v${activeDataset.version})` : ''}` : 'No dataset',
+    filters: activeSession && activeDataset ? describeDashboardFilters(activeSession.slicers, crossFilter, activeDataset.columns) : []
+  };
+
+  const renderDashboardTile = (tile: DashboardTile) => (
+    <>
+      {tile.type === 'text' ? (
+        <TextTile text={tile.text || ''} onChange={(text) => updateTextTile(tile.id, text)} />
+      ) : tile.type === 'kpi' && tile.kpi ? (
+         <div className="bg-white dark:bg-slate-900 p-8 rounded-[2rem] shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-xl transition-all h-full min-h-[160px] flex flex-col justify-center">
+            <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">{tile.kpi.label}</p>
+            <div className="flex items-baseline gap-4">
+               <span className="text-4xl font-black text-slate-900 dark:text-slate-100">{tile.kpi.value}</span>
+               {tile.kpi.trend && (
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-lg ${tile.kpi.trend > 0 ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{tile.kpi.trend > 0 ? '+' : ''}{tile.kpi.trend}%</span>
+               )}
+            </div>
+         </div>
+      ) : tile.type === 'table' && tile.table ? <TableTile table={tile.table} /> : tile.config ? <ChartRenderer config={highlightAnomalies(tile.config)} theme={theme} isDashboardTile onDrillDown={isBoundTile(tile) ? (f: { column: string, value: any }) => toggleCrossFilter(tile.id, f) : onDrillDown} /> : null}
+      {tile.type === 'chart' && tile.config && <ChartExportMenu config={tile.config} metadata={reportMetadata} tileFilters={tileFilterSummary(tile)} onError={(message) => showToast(message, "error")} onExportData={() => openChartDataExport(tile.config!)} className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-all" />}
+      {isDashboardFiltered && tile.type !== 'text' && !isBoundTile(tile) && <div title="Pinned before tiles kept their query, so slicers and cross-filters do not apply" className="absolute top-3 left-3 px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 text-[10px] font-black uppercase tracking-widest">Unfiltered</div>}
+      {tile.staleReason && <div title={tile.staleReason} className="absolute top-3 left-3 flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-600 text-[10px] font-black uppercase tracking-widest"><AlertCircle size={12}/> Stale</div>}
+    </>
+  );
+
   const stats = useMemo(() => {
-    if (!activeDataset) return {};
     const results: Record<string, ColumnStats> = {};
+    if (!activeDataset?.metadata) return results;
     activeDataset.columns.forEach(col => {
-      const values = activeDataset.rows.map(r => r[col]).filter(v => typeof v === 'number');
-      if (values.length > 0) {
-        const sum = values.reduce((a, b) => a + b, 0);
-        results[col] = {
-          min: Math.min(...values),
-          max: Math.max(...values),
-          avg: sum / values.length,
-          sum: sum,
-          count: values.length
-        };
-      }
+      const meta = activeDataset.metadata?.[col];
+      if (meta?.type === 'numeric' && meta.stats) results[col] = meta.stats;
     });
     return results;
   }, [activeDataset]);
 
+  const anomalyReport = useMemo(() => activeDataset && anomalyOptions ? scanAnomalies(activeDataset, stats, anomalyOptions) : null, [activeDataset, stats, anomalyOptions]);
+  const anomalyIndex = useMemo(() => indexAnomalies(anomalyReport?.anomalies || []), [anomalyReport]);
+
   const processedRows = useMemo(() => {
     if (!activeDataset) return [];
-    let rows = [...activeDataset.rows];
-
-    if (activeFilters.length > 0) {
-      rows = rows.filter(row => {
-        return activeFilters.every(f => {
-          const val = row[f.column];
-          switch (f.operator) {
-            case 'equals': return String(val) === String(f.value);
-            case 'contains': return String(val).toLowerCase().includes(String(f.value).toLowerCase());
-            case 'gt': return Number(val) > Number(f.value);
-            case 'lt': return Number(val) < Number(f.value);
-            case 'between': return Number(val) >= Number(f.value) && Number(val) <= Number(f.valueEnd);
-            default: return true;
-          }
-        });
-      });
-    }
+    let rows = [...applyFilters(activeDataset.rows, activeFilters)];
+    if (anomalyReport && showFlaggedOnly) rows = rows.filter(row => anomalyIndex.has(getRowId(row)));
 
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
-      rows = rows.filter(row => Object.values(row).some(val => String(val).toLowerCase().includes(q)));
+      rows = rows.filter(row => rowValues(row).some(val => String(val).toLowerCase().includes(q)));
     }
     
     if (sortConfig.key && sortConfig.direction) {
@@ -225,37 +504,129 @@ const App: React.FC = () => {
       });
     }
     return rows;
-  }, [activeDataset, searchQuery, sortConfig, activeFilters]);
+  }, [activeDataset, searchQuery, sortConfig, activeFilters, anomalyReport, anomalyIndex, showFlaggedOnly]);
+
+  const pivotTable = useMemo(() => pivotConfig ? buildPivot(processedRows, pivotConfig, sortConfig) : null, [processedRows, pivotConfig, sortConfig]);
+
+  // The virtualized grid renders either the raw rows or the pivot, with its totals row last.
+  const gridColumns = pivotTable ? pivotTable.columns : columnOrder;
+  const gridRows = useMemo(() => pivotTable ? (pivotTable.totalRow ? [...pivotTable.rows, pivotTable.totalRow] : pivotTable.rows) : processedRows, [pivotTable, processedRows]);
+
+  const openDataExport = () => {
+    if (!activeDataset) return;
+    const d = activeDataset;
+    const view: DataExportSource = pivotTable
+      ? { id: 'view', label: 'Current Pivot', description: `${gridRows.length.toLocaleString()} rows as shown, including the totals row`, fileSuffix: 'pivot', table: () => ({ columns: pivotTable.columns, rows: gridRows }) }
+      : { id: 'view', label: 'Current View', description: `${processedRows.length.toLocaleString()} rows with the grid's filters, search, sort and column order`, fileSuffix: 'view', table: () => ({ columns: columnOrder, rows: processedRows, metadata: d.metadata }) };
+    setDataExportSources([
+      view,
+      { id: 'dataset', label: 'Whole Dataset', description: `All ${d.rows.length.toLocaleString()} rows and ${d.columns.length} columns, ignoring the grid's filters`, fileSuffix: '', table: () => ({ columns: d.columns, rows: d.rows, metadata: d.metadata }) }
+    ]);
+  };
+
+  const openChartDataExport = (config: ChartConfig) => setDataExportSources([
+    { id: 'chart', label: config.title || 'Chart Data', description: `${config.data.length.toLocaleString()} plotted points`, fileSuffix: config.title || 'chart', table: () => chartDataTable(config) }
+  ]);
+
+  const toggleAnomalyMode = () => {
+    setAnomalyOptions(prev => prev ? null : DEFAULT_ANOMALY_OPTIONS);
+    setShowFlaggedOnly(false);
+    setIsHistoryOpen(false);
+    setIsVersionsOpen(false);
+    setProfiledColumn(null);
+  };
+
+  const highlightAnomalies = (config: ChartConfig) => anomalyOptions ? flagChartAnomalies(config, anomalyOptions) : config;
+
+  /** Scrolls the grid to the first row behind an anomaly. */
+  const selectAnomaly = (anomaly: Anomaly) => {
+    if (pivotTable) { showToast("Clear the pivot to see flagged rows", "error"); return; }
+    const index = processedRows.findIndex(row => anomaly.rowIds.includes(getRowId(row)));
+    if (index === -1) { showToast("That row is hidden by the current filters or search", "error"); return; }
+    if (tableContainerRef.current) tableContainerRef.current.scrollTop = Math.max(0, (index - 2) * ROW_HEIGHT);
+  };
+
+  const explainAnomalies = (anomalies: Anomaly[]) => {
+    if (!activeDataset || !activeSessionId || !anomalyOptions || status === AnalysisStatus.LOADING) return;
+    const columns = [...new Set(anomalies.map(a => a.column))];
+    const question = `Explain the ${anomalies.length} most severe anomalies flagged in ${columns.join(', ')}. What could cause them, and which look like data errors rather than real events?`;
+    const context = { ...anomalyContext(activeDataset.rows, anomalies, QUERY_CONTEXT_ROWS), chart: anomalyChart(activeDataset, anomalies[0], anomalyOptions) };
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: question, timestamp: Date.now() };
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: [...s.messages, userMsg] } : s));
+    setView('chat');
+    runAnalysis(question, context);
+  };
 
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
     setScrollTop(e.currentTarget.scrollTop);
   }, []);
 
   const { visibleRows, totalContentHeight, offsetTop } = useMemo(() => {
-    const totalCount = processedRows.length;
+    const totalCount = gridRows.length;
     const totalContentHeight = totalCount * ROW_HEIGHT;
     const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - BUFFER_COUNT);
     const endIndex = Math.min(totalCount, Math.ceil((scrollTop + tableContainerHeight) / ROW_HEIGHT) + BUFFER_COUNT);
-    const visibleRows = processedRows.slice(startIndex, endIndex).map((row, i) => ({
+    const visibleRows = gridRows.slice(startIndex, endIndex).map((row, i) => ({
       data: row,
       originalIndex: startIndex + i
     }));
     const offsetTop = startIndex * ROW_HEIGHT;
     return { visibleRows, totalContentHeight, offsetTop };
-  }, [processedRows, scrollTop, tableContainerHeight]);
+  }, [gridRows, scrollTop, tableContainerHeight]);
 
   const onDrillDown = (drillFilter: { column: string, value: any }) => {
-    const newFilter: ActiveFilter = {
-      id: Math.random().toString(36).substr(2, 9),
-      column: drillFilter.column,
-      operator: 'equals',
-      value: drillFilter.value
-    };
+    const newFilter: ActiveFilter = { ...drillFilterFor(drillFilter.column, drillFilter.value), id: Math.random().toString(36).substr(2, 9) };
     setActiveFilters(prev => [...prev, newFilter]);
     setView('data');
     showToast(`Drilled into ${drillFilter.column}`);
   };
 
+  /** Replaces the pivot with the raw rows behind one of its groups. */
+  const drillIntoPivotRow = (rowIndex: number) => {
+    const group = pivotTable?.groupValues[rowIndex];
+    if (!group) return;
+    const drillFilters: ActiveFilter[] = Object.entries(group).map(([column, value]) => ({ ...drillFilterFor(column, value), id: Math.random().toString(36).substr(2, 9) }));
+    setActiveFilters(prev => [...prev, ...drillFilters]);
+    setPivotConfig(null);
+    setSortConfig({ key: '', direction: null });
+    showToast(`Drilled into ${Object.values(group).map(v => v ?? '(blank)').join(' / ')}`);
+  };
+
+  const applyPivot = (config: PivotConfig) => {
+    setPivotConfig(config);
+    setSortConfig({ key: '', direction: null });
+    setEditingCell(null);
+    setIsPivotBuilderOpen(false);
+  };
+
+  const clearPivot = () => {
+    setPivotConfig(null);
+    setSortConfig({ key: '', direction: null });
+    setIsPivotBuilderOpen(false);
+  };
+
+  const pinPivotTable = () => {
+    if (!activeSessionId || !pivotTable || !pivotConfig) return;
+    const newTile: DashboardTile = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'table',
+      table: {
+        title: describePivot(pivotConfig),
+        columns: pivotTable.columns,
+        rows: pivotTable.rows,
+        totalRow: pivotTable.totalRow
+      },
+      w: 4,
+      pivot: pivotConfig,
+      filters: activeFilters,
+      pageId: currentPageId
+    };
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, dashboardTiles: [...s.dashboardTiles, newTile] } : s));
+    showToast("Pivot pinned to Dashboard!");
+  };
+
+  const filteredColumns = useMemo(() => filterColumns(activeFilters), [activeFilters]);
+
   const removeFilter = (id: string) => setActiveFilters(prev => prev.filter(f => f.id !== id));
   const clearAllFilters = () => { setActiveFilters([]); setSearchQuery(''); showToast("Workspace cleared", "info"); };
 
@@ -310,172 +681,507 @@ const App: React.FC = () => {
     setDraggedColumn(null);
   };
 
-  const handleCellEdit = (rowIndex: number, column: string, value: any) => {
-    if (!activeDatasetId) return;
-    setDatasets(prev => prev.map(d => {
-      if (d.id !== activeDatasetId) return d;
-      const updatedRows = [...d.rows];
-      const originalValue = updatedRows[rowIndex][column];
-      const typedValue = typeof originalValue === 'number' ? Number(value) : value;
-      updatedRows[rowIndex] = { ...updatedRows[rowIndex], [column]: typedValue };
-      return { ...d, rows: updatedRows };
-    }));
+  /** Writes `value` into `column` on every row in `rowIds`, keeping numeric columns numeric where the value allows. */
+  const setCellValues = (rowIds: Set<string>, column: string, value: any, label: string) => {
+    if (activeDataset?.calculatedColumns?.some(c => c.name === column)) {
+      showToast("Calculated columns are read-only. Edit the formula instead.", "info");
+      return;
+    }
+    updateActiveDataset(label, 'edit', d => {
+      // Decided per column, so a number typed into an empty cell of a numeric column is stored as one.
+      const numericColumn = d.columnTypes?.[column] === 'number' || d.metadata?.[column]?.type === 'numeric';
+      const updatedRows = withCalculatedColumns(d, d.rows.map(r => {
+        if (!rowIds.has(getRowId(r))) return r;
+        const typedValue = (numericColumn || typeof r[column] === 'number') && value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+        return { ...r, [column]: typedValue };
+      }));
+      const touched = [column, ...(d.calculatedColumns || []).map(c => c.name)];
+      return { ...d, rows: updatedRows, metadata: { ...d.metadata, ...Object.fromEntries(touched.map(c => [c, profileColumn(updatedRows.map(r => r[c]), d.columnTypes?.[c])])) } };
+    });
+  };
+
+  const handleCellEdit = (rowId: string, column: string, value: any) => {
     setEditingCell(null);
+    if (!activeDataset) return;
+    const position = activeDataset.rows.findIndex(r => getRowId(r) === rowId);
+    if (position === -1 || String(activeDataset.rows[position][column] ?? '') === String(value)) return;
+    setCellValues(new Set([rowId]), column, value, `Edit ${column} in row ${position + 1}`);
+  };
+
+  const bulkEditSelected = (column: string, value: any) => {
+    setCellValues(selectedRowIds, column, value, `Set ${column} on ${selectedRowIds.size.toLocaleString()} rows`);
+  };
+
+  const deleteSelectedRows = () => {
+    const count = selectedRowIds.size;
+    const applied = updateActiveDataset(`Delete ${count.toLocaleString()} rows`, 'edit', d => {
+      const remaining = d.rows.filter(r => !selectedRowIds.has(getRowId(r)));
+      return { ...d, rows: remaining, metadata: profileDataset(d.columns, remaining, d.columnTypes) };
+    });
+    if (!applied) return;
+    setSelectedRowIds(new Set());
+    showToast(`Deleted ${count.toLocaleString()} rows`);
+  };
+
+  const toggleRowSelection = (rowId: string) => {
+    setSelectedRowIds(prev => {
+      const next = new Set(prev);
+      if (next.has(rowId)) next.delete(rowId);
+      else next.add(rowId);
+      return next;
+    });
+  };
+
+  /** Selects every row matching the current filters and search, or clears the selection if they are all selected. */
+  const toggleSelectAll = () => {
+    setSelectedRowIds(prev => processedRows.length > 0 && processedRows.every(r => prev.has(getRowId(r))) ? new Set() : new Set(processedRows.map(getRowId)));
+  };
+
+  const withCalculatedColumns = (d: Dataset, rows: any[]) => applyCalculatedColumns(rows, d.calculatedColumns, dateFormatsFromMetadata(d.metadata));
+
+  /** Adds or replaces a calculated column, renaming it in place when `previousName` differs. */
+  const saveCalculatedColumn = (column: CalculatedColumn, previousName?: string) => {
+    if (!activeDataset) return;
+    const existing = activeDataset.calculatedColumns || [];
+    const calculatedColumns = previousName ? existing.map(c => c.name === previousName ? column : c) : [...existing, column];
+    const error = validateCalculatedColumns(getBaseColumns(activeDataset.columns, existing), calculatedColumns);
+    if (error) {
+      showToast(error, "error");
+      return;
+    }
+    const renamed = previousName && previousName !== column.name ? previousName : null;
+    const rename = (c: string) => c === previousName ? column.name : c;
+    const applied = updateActiveDataset(previousName ? `Update column ${column.name}` : `Add column ${column.name}`, 'column', d => {
+      const columns = previousName ? d.columns.map(rename) : [...d.columns, column.name];
+      const baseRows = renamed ? d.rows.map(({ [renamed]: _, ...rest }) => rest) : d.rows;
+      const metadata = { ...d.metadata };
+      if (renamed) delete metadata[renamed];
+      const rows = applyCalculatedColumns(baseRows, calculatedColumns, dateFormatsFromMetadata(metadata));
+      calculatedColumns.forEach(c => { metadata[c.name] = profileColumn(rows.map(r => r[c.name])); });
+      return { ...d, columns, rows, calculatedColumns, metadata };
+    });
+    if (!applied) return;
+    setColumnOrder(prev => previousName ? prev.map(rename) : [...prev, column.name]);
+    setCalculatedEditor(null);
+    showToast(previousName ? `Updated ${column.name}` : `Added calculated column ${column.name}`);
+  };
+
+  const deleteCalculatedColumn = (name: string) => {
+    if (!activeDataset) return;
+    const existing = activeDataset.calculatedColumns || [];
+    const remaining = existing.filter(c => c.name !== name);
+    const error = validateCalculatedColumns(getBaseColumns(activeDataset.columns, existing), remaining);
+    if (error) {
+      showToast(`Cannot delete ${name}: another column depends on it`, "error");
+      return;
+    }
+    const applied = updateActiveDataset(`Delete column ${name}`, 'column', d => {
+      const { [name]: _, ...metadata } = d.metadata || {};
+      return { ...d, columns: d.columns.filter(c => c !== name), rows: d.rows.map(({ [name]: _, ...rest }) => rest), calculatedColumns: remaining, metadata };
+    });
+    if (!applied) return;
+    setColumnOrder(prev => prev.filter(c => c !== name));
+    setActiveFilters(prev => removeColumnFromFilters(prev, name));
+    setPivotConfig(prev => prev && [...prev.rows, prev.pivotColumn, ...prev.values.map(v => v.column)].includes(name) ? null : prev);
+    setCalculatedEditor(null);
+    showToast(`Deleted ${name}`, "info");
+  };
+
+  const createDataset = (name: string, columns: string[], rows: any[], extra: Partial<Dataset> = {}) => {
+    const newDs: Dataset = { id: Math.random().toString(36).substr(2, 9), name, columns, rows: assignRowIds(rows), summary: `Dataset '${name}' with ${rows.length} rows.`, metadata: profileDataset(columns, rows, extra.columnTypes), ...extra };
+    loadedRowsRef.current.add(newDs.id);
+    const newSess = createSession(newDs.id, name);
+    setDatasets(prev => [...prev, newDs]);
+    setSessions(prev => [newSess, ...prev]);
+    setActiveDatasetId(newDs.id);
+    setActiveSessionId(newSess.id);
+    setColumnOrder(newDs.columns);
+    setActiveFilters([]);
+    handleGetCleaningSuggestions(newDs);
+    showToast("Executive Dataset Loaded");
+  };
+
+  const switchDataset = (datasetId: string) => {
+    const target = datasets.find(d => d.id === datasetId);
+    if (!target || datasetId === activeDatasetId) return;
+    setActiveDatasetId(datasetId);
+    setActiveSessionId(sessions.find(s => s.datasetId === datasetId)?.id || null);
+    setColumnOrder(target.columns);
+    setActiveFilters([]);
+    setEditingCell(null);
+    setCleaningSuggestions([]);
+    setProfiledColumn(null);
+  };
+
+  const startSession = () => {
+    if (!activeDataset) return;
+    const session = createSession(activeDataset.id, activeDataset.name);
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+    setView('chat');
+  };
+
+  const selectSession = (sessionId: string, messageId?: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+    switchDataset(session.datasetId);
+    setActiveSessionId(sessionId);
+    setView('chat');
+    setHighlightedMessageId(messageId ?? null);
+  };
+
+  const renameSession = (sessionId: string, name: string) =>
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, name } : s));
+
+  const deleteSession = (sessionId: string) => {
+    const target = sessions.find(s => s.id === sessionId);
+    if (!target) return;
+    const siblings = sessions.filter(s => s.id !== sessionId && s.datasetId === target.datasetId).sort((a, b) => b.lastUpdated - a.lastUpdated);
+    // A dataset always keeps one thread to type into.
+    const replacement = siblings.length ? null : createSession(target.datasetId, datasets.find(d => d.id === target.datasetId)?.name || 'dataset');
+    setSessions(prev => [...(replacement ? [replacement] : []), ...prev.filter(s => s.id !== sessionId)]);
+    if (sessionId === activeSessionId) setActiveSessionId(replacement?.id ?? siblings[0].id);
+    showToast(`Deleted ${sessionTitle(target)}`, "info");
+  };
+
+  const forkFromMessage = (messageId: string) => {
+    if (!activeSession) return;
+    const fork = forkSession(activeSession, messageId);
+    setSessions(prev => [fork, ...prev]);
+    setActiveSessionId(fork.id);
+    setIsSessionsOpen(true);
+    showToast(`Branched into ${fork.name}`);
+  };
+
+  const loadSources = async (derivation: DatasetDerivation) => {
+    const loaded = await Promise.all(derivationSourceIds(derivation).map(ensureDatasetRows));
+    return loaded.filter((d): d is Dataset => !!d);
+  };
+
+  const createDerivedDataset = async (name: string, derivation: DatasetDerivation) => {
+    try {
+      const sources = await loadSources(derivation);
+      const built = buildDerivedDataset(derivation, sources);
+      setIsCombineOpen(false);
+      createDataset(name, built.columns, built.rows, {
+        derivedFrom: derivation,
+        builtAt: Date.now(),
+        summary: `Dataset '${name}' with ${built.rows.length} rows. ${describeDerivation(derivation, datasets)}.`
+      });
+    } catch (err: any) {
+      showToast(err.message, "error");
+    }
+  };
+
+  const rebuildDerivedDataset = async () => {
+    const derivation = activeDataset?.derivedFrom;
+    if (!derivation) return;
+    try {
+      const built = buildDerivedDataset(derivation, await loadSources(derivation));
+      const calculatedNames = (activeDataset.calculatedColumns || []).map(c => c.name);
+      const columns = [...built.columns.filter(c => !calculatedNames.includes(c)), ...calculatedNames];
+      const applied = updateActiveDataset('Rebuilt from sources', 'rebuild', d => {
+        const rows = withCalculatedColumns(d, built.rows);
+        return { ...d, columns, rows, builtAt: Date.now(), metadata: profileDataset(columns, rows), summary: `Dataset '${d.name}' with ${rows.length} rows. ${describeDerivation(derivation, datasets)}.` };
+      });
+      if (!applied) return;
+      const removed = activeDataset.columns.filter(c => !columns.includes(c));
+      setColumnOrder(prev => [...prev.filter(c => columns.includes(c)), ...columns.filter(c => !prev.includes(c))]);
+      if (removed.length) setActiveFilters(prev => removed.reduce(removeColumnFromFilters, prev));
+      setPivotConfig(null);
+      setSelectedRowIds(new Set());
+      setEditingCell(null);
+      showToast(`Rebuilt ${activeDataset.name}: ${built.rows.length.toLocaleString()} rows`);
+    } catch (err: any) {
+      showToast(err.message, "error");
+    }
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
+    if (file.name.toLowerCase().endsWith(BUNDLE_EXTENSION)) {
+      file.text()
+        .then(text => setPendingBundle({ bundle: parseBundle(text), fileName: file.name }))
+        .catch(err => showToast(`Could not import workspace: ${err.message}`, "error"));
+      return;
+    }
+    const importer = findImporter(file.name);
+    if (!importer) {
+      showToast(`Unsupported file type: ${file.name}`, "error");
+      return;
+    }
     const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
+    reader.onload = async (event) => {
       try {
-        const lines = text.split(/\r?\n/).filter(l => l.trim());
-        const headers = lines[0].match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g)?.map(h => h.replace(/"/g, '').trim()) || [];
-        const rows = lines.slice(1).map(line => {
-          const vals = line.match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g) || [];
-          return headers.reduce((obj, h, i) => {
-            const val = vals[i]?.replace(/"/g, '').trim();
-            obj[h] = isNaN(Number(val)) || val === '' ? val : Number(val);
-            return obj;
-          }, {} as any);
-        });
-        const newDs: Dataset = { id: Math.random().toString(36).substr(2, 9), name: file.name, columns: headers, rows, summary: `Dataset '${file.name}' with ${rows.length} rows.` };
-        const newSess: AnalysisSession = { id: Math.random().toString(36).substr(2, 9), datasetId: newDs.id, dashboardTiles: [], messages: [{ id: 'w', role: 'assistant', content: `Executive summary of **${file.name}** prepared. Ready for query.`, timestamp: Date.now() }], lastUpdated: Date.now() };
-        setDatasets(prev => [...prev, newDs]);
-        setSessions(prev => [newSess, ...prev]);
-        setActiveDatasetId(newDs.id);
-        setActiveSessionId(newSess.id);
-        setColumnOrder(newDs.columns);
-        handleGetCleaningSuggestions();
-        showToast("Executive Dataset Loaded");
+        const buffer = event.target?.result as ArrayBuffer;
+        const imported = await importer.read(buffer);
+        setPendingImport({ fileName: file.name, format: importer.format, buffer, ...imported });
       } catch (err) {
         showToast("Error parsing file", "error");
       }
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   };
 
-  const handleSendMessage = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!input.trim() || !activeDataset || !activeSessionId) return;
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: input, timestamp: Date.now() };
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: [...s.messages, userMsg] } : s));
-    setInput('');
+  const exportWorkspaceBundle = async (datasetIds: string[], options: BundleOptions) => {
+    // Archived versions travel with their dataset so its version history survives the trip.
+    const ids = datasets.filter(d => datasetIds.includes(d.id) || (d.archivedFrom && datasetIds.includes(d.archivedFrom))).map(d => d.id);
+    const loaded = (await Promise.all(ids.map(ensureDatasetRows))).filter((d): d is Dataset => !!d);
+    const bundle = buildBundle(loaded, sessions, histories, options);
+    downloadText(JSON.stringify(bundle), bundleFileName(bundle.exportedAt), 'application/json');
+    showToast(`Workspace bundle with ${datasetIds.length} dataset${datasetIds.length === 1 ? '' : 's'} downloaded`);
+  };
+
+  const importWorkspaceBundle = (mode: CollisionMode) => {
+    if (!pendingBundle) return;
+    const imported = unpackBundle(pendingBundle.bundle, datasets, sessions, mode);
+    setPendingBundle(null);
+    const replaced = new Set(imported.replacedIds);
+    const importedSessionIds = new Set(imported.sessions.map(s => s.id));
+    imported.datasets.forEach(d => loadedRowsRef.current.add(d.id));
+    // Replacing a dataset also drops the archived versions the bundle does not carry.
+    setDatasets(prev => [...prev.filter(d => !replaced.has(d.id) && !(d.archivedFrom && replaced.has(d.archivedFrom))), ...imported.datasets]);
+    setSessions(prev => [...imported.sessions, ...prev.filter(s => !importedSessionIds.has(s.id))]);
+    setHistories(prev => {
+      const next = { ...prev };
+      imported.replacedIds.forEach(id => { delete next[id]; });
+      return { ...next, ...imported.histories };
+    });
+
+    const first = imported.datasets.find(d => !d.archivedFrom);
+    if (first) {
+      setActiveDatasetId(first.id);
+      setActiveSessionId(imported.sessions.find(s => s.datasetId === first.id)?.id || sessions.find(s => s.datasetId === first.id)?.id || null);
+      setColumnOrder(first.columns);
+      setActiveFilters([]);
+      setEditingCell(null);
+      setCleaningSuggestions([]);
+      setProfiledColumn(null);
+    }
+    const count = imported.datasets.filter(d => !d.archivedFrom).length;
+    showToast(`Imported ${count} dataset${count === 1 ? '' : 's'} and ${imported.sessions.length} session${imported.sessions.length === 1 ? '' : 's'}`);
+  };
+
+  const changeImportSheet = async (sheet: string) => {
+    if (!pendingImport) return;
+    const importer = findImporter(pendingImport.fileName);
+    if (!importer) return;
+    try {
+      const imported = await importer.read(pendingImport.buffer, sheet);
+      setPendingImport({ ...pendingImport, ...imported });
+    } catch (err) {
+      showToast(`Error reading sheet ${sheet}`, "error");
+    }
+  };
+
+  const confirmImport = async (columns: string[], rows: any[], columnTypes: Record<string, ImportColumnType>, targetDatasetId?: string) => {
+    if (!pendingImport) return;
+    const { fileName } = pendingImport;
+    setPendingImport(null);
+    if (!targetDatasetId) {
+      createDataset(fileName, columns, rows, { columnTypes });
+      return;
+    }
+    try {
+      // The drift review compares against the current version's rows, so they must be in memory.
+      await ensureDatasetRows(targetDatasetId);
+      setPendingVersion({ datasetId: targetDatasetId, fileName, columns, rows, columnTypes, metadata: profileDataset(columns, rows, columnTypes) });
+    } catch (err: any) {
+      showToast(`Could not load dataset: ${err.message}`, "error");
+    }
+  };
+
+  /**
+   * Replaces a dataset's data with a newly imported version. The previous
+   * version is kept as a hidden archived dataset; dashboards and saved filters
+   * follow renamed columns and bound tiles are recomputed.
+   */
+  const importNewVersion = (renames: ColumnRename[]) => {
+    if (!pendingVersion) return;
+    const current = datasets.find(d => d.id === pendingVersion.datasetId);
+    setPendingVersion(null);
+    if (!current) return;
+    const { fileName, columns: baseColumns, columnTypes, metadata } = pendingVersion;
+    const renameMap = Object.fromEntries(renames.map(r => [r.from, r.to]));
+    const previousVersion = current.version || 1;
+    const drift = detectSchemaDrift({ columns: getBaseColumns(current.columns, current.calculatedColumns), metadata: current.metadata, rowCount: current.rows.length }, { columns: baseColumns, metadata, rowCount: pendingVersion.rows.length }, renames);
+
+    const archive: Dataset = {
+      ...current,
+      id: Math.random().toString(36).substr(2, 9),
+      name: `${current.name} (v${previousVersion})`,
+      archivedFrom: current.id,
+      versions: undefined,
+      savedFilterSets: undefined,
+      derivedFrom: undefined
+    };
+    loadedRowsRef.current.add(archive.id);
+
+    const { kept, dropped } = retainCalculatedColumns(baseColumns, current.calculatedColumns);
+    const columns = [...baseColumns, ...kept.map(c => c.name)];
+    const rows = applyCalculatedColumns(assignRowIds(pendingVersion.rows), kept, dateFormatsFromMetadata(metadata));
+    const gone = [...drift.removed, ...dropped.map(c => c.name)];
+    const next: Dataset = {
+      ...current,
+      columns,
+      rows,
+      columnTypes,
+      metadata: profileDataset(columns, rows, columnTypes),
+      calculatedColumns: kept,
+      summary: `Dataset '${current.name}' with ${rows.length} rows.`,
+      version: previousVersion + 1,
+      versionLabel: fileName,
+      importedAt: Date.now(),
+      updatedAt: Date.now(),
+      drift,
+      versions: [...(current.versions || []), { datasetId: archive.id, version: previousVersion, label: current.versionLabel || current.name, importedAt: current.importedAt, rowCount: current.rows.length, drift: current.drift }],
+      savedFilterSets: current.savedFilterSets?.map(set => ({ ...set, filters: gone.reduce(removeColumnFromFilters, renameFilterColumns(set.filters, renameMap)) }))
+    };
+
+    setDatasets(prev => [...prev.map(d => d.id === next.id ? next : d), archive]);
+    // Undo history belongs to the version it was recorded against.
+    setHistories(prev => {
+      const { [next.id]: _, ...rest } = prev;
+      return rest;
+    });
+    setSessions(prev => prev.map(s => s.datasetId !== next.id ? s : { ...s, dashboardTiles: s.dashboardTiles.map(t => refreshTile(renameTileColumns(t, renameMap), next)), lastUpdated: Date.now() }));
+
+    if (activeDatasetId === next.id) {
+      const rename = (c: string) => renameMap[c] ?? c;
+      setColumnOrder(prev => [...prev.map(rename).filter(c => columns.includes(c)), ...columns.filter(c => !prev.map(rename).includes(c))]);
+      setActiveFilters(prev => gone.reduce(removeColumnFromFilters, renameFilterColumns(prev, renameMap)));
+      setPivotConfig(null);
+      setSelectedRowIds(new Set());
+      setEditingCell(null);
+    } else {
+      switchDataset(next.id);
+      setColumnOrder(columns);
+    }
+    setCleaningSuggestions(runQualityRules(next));
+    showToast(`${current.name} v${next.version}: ${describeDrift(drift)}`);
+  };
+
+  /** With `context`, the question is answered from the given rows rather than a planned query. */
+  const runAnalysis = async (question: string, context?: { summary: string; rows: any[]; chart?: ChartConfig }) => {
+    if (!activeDataset || !activeSessionId) return;
+    const dataset = activeDataset;
+    const sessionId = activeSessionId;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partialText = '';
     setStatus(AnalysisStatus.LOADING);
+    setStreamingText('');
     try {
-      const result = await analyzeData(activeDataset.summary, userMsg.content, activeDataset.rows.slice(0, 15));
-      const newAssistantMsg: ChatMessage = { id: Date.now().toString(), role: 'assistant', content: result.textResponse, chartData: result.suggestedChart, insights: result.insights, metrics: result.metrics, timestamp: Date.now() };
+      if (context) {
+        const result = await provider.analyzeData(`${dataset.summary}\n${context.summary}`, question, context.rows, { signal: controller.signal, onText: (text) => { partialText = text; setStreamingText(text); } });
+        const newAssistantMsg: ChatMessage = { id: Date.now().toString(), role: 'assistant', content: result.textResponse, chartData: context.chart, insights: result.insights, metrics: result.metrics, timestamp: Date.now() };
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, newAssistantMsg], lastUpdated: Date.now() } : s));
+        setStatus(AnalysisStatus.SUCCESS);
+        return;
+      }
+      const spec = await provider.planQuery(dataset, question, { signal: controller.signal });
+      const dateFormats = dateFormatsFromMetadata(dataset.metadata);
+      // Statistical tests and forecasts are computed locally too; the model explains the numbers rather than guessing them.
+      const statistic = spec.statistic && runStatisticQuery(dataset.rows, spec);
+      const queryResult = statistic
+        ? { columns: statistic.table.columns, rows: statistic.table.rows, sourceRowCount: statistic.n }
+        : spec.forecast ? runForecastQuery(dataset.rows, spec, dateFormats) : runQuery(dataset.rows, spec);
+      const forecast = spec.forecast && buildChartFromQuery(dataset.rows, { ...spec, chartType: 'line' }, dateFormats)?.forecast;
+      const result = await provider.analyzeData(
+        `${dataset.summary}\nThe sample below is the exact query result computed over ${queryResult.sourceRowCount} matching rows (of ${dataset.rows.length}). Query: ${JSON.stringify(spec)}${forecast ? `\n${describeForecast(forecast)}` : ''}${statistic ? `\n${statistic.summary}` : ''}`,
+        question,
+        spec.forecast ? queryResult.rows.slice(-QUERY_CONTEXT_ROWS) : queryResult.rows.slice(0, QUERY_CONTEXT_ROWS),
+        { signal: controller.signal, onText: (text) => { partialText = text; setStreamingText(text); } }
+      );
+      const chartSpec: QuerySpec = { ...spec, chartType: spec.chartType || result.suggestedChart?.type, title: spec.title || result.suggestedChart?.title };
+      const localMetrics = computeMetrics(dataset.rows, spec);
+      const metrics = localMetrics.length > 0 ? localMetrics : result.metrics;
+      const newAssistantMsg: ChatMessage = { id: Date.now().toString(), role: 'assistant', content: result.textResponse, chartData: buildChartFromQuery(dataset.rows, chartSpec, dateFormats), insights: result.insights, metrics, querySpec: chartSpec, timestamp: Date.now() };
       setSessions(prev => prev.map(s => {
-        if (s.id !== activeSessionId) return s;
+        if (s.id !== sessionId) return s;
         let newTiles = [...s.dashboardTiles];
-        if (result.metrics && s.dashboardTiles.length < 4) {
-          result.metrics.forEach((m: KPIMetric) => {
-            newTiles.push({ id: Math.random().toString(36).substr(2, 9), type: 'kpi', kpi: m, w: 1 });
+        if (metrics && s.dashboardTiles.length < 4) {
+          metrics.forEach((m: KPIMetric, i) => {
+            // Locally computed metrics line up with the spec's, so the tile can be recomputed later.
+            const query = localMetrics.length === 0 ? undefined : spec.statistic ? { ...spec, statistic: { ...spec.statistic, metric: m.label } } : { ...spec, metrics: [spec.metrics![i]] };
+            newTiles.push({ id: Math.random().toString(36).substr(2, 9), type: 'kpi', kpi: m, w: 1, query });
           });
         }
-        return { ...s, messages: [...s.messages, newAssistantMsg], dashboardTiles: newTiles };
+        return { ...s, messages: [...s.messages, newAssistantMsg], dashboardTiles: newTiles, lastUpdated: Date.now() };
       }));
       setStatus(AnalysisStatus.SUCCESS);
     } catch (error: any) {
-      setStatus(AnalysisStatus.ERROR);
-      showToast(error.message, "error");
+      const stopped = isAbortError(error);
+      // Failed and stopped exchanges stay in the history so they can be retried.
+      const errorMsg: ChatMessage = {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: stopped ? (partialText ? `${partialText}\n\n(Response stopped.)` : 'Response stopped.') : `Analysis failed: ${error.message}`,
+        isError: true,
+        timestamp: Date.now()
+      };
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, errorMsg], lastUpdated: Date.now() } : s));
+      setStatus(stopped ? AnalysisStatus.IDLE : AnalysisStatus.ERROR);
+      if (!stopped) showToast(error.message, "error");
+    } finally {
+      abortRef.current = null;
+      setStreamingText(null);
     }
   };
 
-  const addNewFilter = (filter: Omit<ActiveFilter, 'id'>) => {
-    setActiveFilters(prev => [...prev, { ...filter, id: Math.random().toString(36).substr(2, 9) }]);
-    setIsFilterBuilderOpen(false);
+  const handleSendMessage = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!input.trim() || !activeDataset || !activeSessionId || status === AnalysisStatus.LOADING) return;
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: input, timestamp: Date.now() };
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: [...s.messages, userMsg] } : s));
+    setInput('');
+    await runAnalysis(userMsg.content);
   };
 
-  const FilterBuilderModal = () => {
-    const [selectedCol, setSelectedCol] = useState(activeDataset?.columns[0] || '');
-    const [operator, setOperator] = useState<FilterOperator>('equals');
-    const [val1, setVal1] = useState('');
-    const [val2, setVal2] = useState('');
+  const stopAnalysis = () => abortRef.current?.abort();
 
-    const colType = stats[selectedCol] ? 'numeric' : 'categorical';
+  const retryMessage = (messageId: string) => {
+    if (!activeSession || status === AnalysisStatus.LOADING) return;
+    const index = activeSession.messages.findIndex(m => m.id === messageId);
+    const question = activeSession.messages.slice(0, index).reverse().find(m => m.role === 'user');
+    if (index === -1 || !question) return;
+    setSessions(prev => prev.map(s => s.id === activeSession.id ? { ...s, messages: s.messages.filter(m => m.id !== messageId) } : s));
+    runAnalysis(question.content);
+  };
 
-    return (
-      <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
-        <div className="w-full max-w-lg bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors">
-          <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
-            <div className="flex items-center gap-3">
-              <PlusCircle size={24} className="text-indigo-600" />
-              <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Add Advanced Filter</h2>
-            </div>
-            <button onClick={() => setIsFilterBuilderOpen(false)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
-          </div>
-          <div className="p-8 space-y-6">
-            <div className="space-y-2">
-              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Select Attribute</label>
-              <select 
-                value={selectedCol} 
-                onChange={(e) => setSelectedCol(e.target.value)} 
-                className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
-              >
-                {activeDataset?.columns.map(c => <option key={c} value={c}>{c}</option>)}
-              </select>
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Operation</label>
-              <select 
-                value={operator} 
-                onChange={(e) => setOperator(e.target.value as FilterOperator)} 
-                className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
-              >
-                <option value="equals">Equals</option>
-                <option value="contains">Contains (Partial)</option>
-                {colType === 'numeric' && (
-                  <>
-                    <option value="gt">Greater Than</option>
-                    <option value="lt">Less Than</option>
-                    <option value="between">Numeric Range</option>
-                  </>
-                )}
-              </select>
-            </div>
+  const rerunQuery = (messageId: string) => {
+    const msg = activeSession?.messages.find(m => m.id === messageId);
+    if (!msg?.querySpec || !activeDataset) return;
+    const missing = validateQuerySpec(msg.querySpec, activeDataset.columns);
+    if (missing.length > 0) {
+      showToast(`Query references missing columns: ${missing.join(', ')}`, "error");
+      return;
+    }
+    const chartData = buildChartFromQuery(activeDataset.rows, msg.querySpec, dateFormatsFromMetadata(activeDataset.metadata));
+    const metrics = computeMetrics(activeDataset.rows, msg.querySpec);
+    setSessions(prev => prev.map(s => s.id !== activeSessionId ? s : {
+      ...s,
+      messages: s.messages.map(m => m.id === messageId ? { ...m, chartData: chartData || m.chartData, metrics: metrics.length > 0 ? metrics : m.metrics } : m)
+    }));
+    showToast("Query re-run on current data");
+  };
 
-            <div className="space-y-4">
-              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Constraint Value</label>
-              <div className="flex gap-4">
-                <input 
-                  type={operator === 'gt' || operator === 'lt' || operator === 'between' ? 'number' : 'text'}
-                  placeholder={operator === 'between' ? 'Start' : 'Constraint...'}
-                  value={val1}
-                  onChange={(e) => setVal1(e.target.value)}
-                  className="flex-1 bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
-                />
-                {operator === 'between' && (
-                  <input 
-                    type="number"
-                    placeholder="End"
-                    value={val2}
-                    onChange={(e) => setVal2(e.target.value)}
-                    className="flex-1 bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
-                  />
-                )}
-              </div>
-            </div>
-          </div>
-          <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
-            <button 
-              onClick={() => setIsFilterBuilderOpen(false)} 
-              className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]"
-            >
-              Cancel
-            </button>
-            <button 
-              onClick={() => addNewFilter({ column: selectedCol, operator, value: val1, valueEnd: val2 })}
-              className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest"
-            >
-              Apply Filter
-            </button>
-          </div>
-        </div>
-      </div>
-    );
+  const applyFilterTree = (filters: FilterNode[]) => {
+    setActiveFilters(filters);
+    setIsFilterBuilderOpen(false);
+  };
+
+  const saveFilterSet = (name: string, filters: FilterNode[]) => {
+    if (!activeDatasetId) return;
+    const newSet: SavedFilterSet = { id: Math.random().toString(36).substr(2, 9), name, filters, createdAt: Date.now() };
+    setDatasets(prev => prev.map(d => d.id === activeDatasetId ? { ...d, savedFilterSets: [...(d.savedFilterSets || []), newSet] } : d));
+    showToast(`Saved filter set "${name}"`);
+  };
+
+  const deleteFilterSet = (setId: string) => {
+    setDatasets(prev => prev.map(d => d.id === activeDatasetId ? { ...d, savedFilterSets: (d.savedFilterSets || []).filter(f => f.id !== setId) } : d));
   };
 
   return (
@@ -487,6 +1193,7 @@ const App: React.FC = () => {
           <button onClick={() => setView('dashboard')} className={`p-3 rounded-xl transition-all ${view === 'dashboard' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400'}`}><LayoutDashboard size={22} /></button>
           <button onClick={() => setView('data')} className={`p-3 rounded-xl transition-all ${view === 'data' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400'}`}><TableIcon size={22} /></button>
           <div className="h-px w-8 bg-slate-200 dark:bg-slate-800 my-2"></div>
+          <button onClick={() => setIsSessionsOpen(prev => !prev)} title="Sessions" className={`p-3 rounded-xl transition-all ${isSessionsOpen ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600' : 'text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400'}`}><MessagesSquare size={22} /></button>
           <button onClick={() => setIsSettingsOpen(true)} className="p-3 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400"><Settings size={22} /></button>
         </div>
         <div className="mt-auto flex flex-col gap-4">
@@ -494,16 +1201,37 @@ const App: React.FC = () => {
         </div>
       </aside>
 
+      {isSessionsOpen && (
+        <SessionSidebar
+          sessions={sessions}
+          datasets={datasets}
+          activeDatasetId={activeDatasetId}
+          activeSessionId={activeSessionId}
+          onSelect={selectSession}
+          onCreate={startSession}
+          onRename={renameSession}
+          onDelete={deleteSession}
+          onClose={() => setIsSessionsOpen(false)}
+        />
+      )}
+
       <main className="flex-1 flex flex-col min-w-0 relative transition-colors duration-500">
         <header className="h-14 border-b flex items-center px-8 justify-between shrink-0 transition-colors duration-300 bg-white/80 dark:bg-slate-900/80 backdrop-blur-md z-40 border-slate-200 dark:border-slate-800">
           <div className="flex items-center gap-4">
             <span className="font-black text-sm uppercase tracking-widest text-slate-400">{view} view</span>
             <div className="h-4 w-px bg-slate-200 dark:bg-slate-800"></div>
-            <h1 className="text-sm font-black truncate max-w-sm">{activeDataset?.name || 'Power BI Enterprise'}</h1>
+            {liveDatasets.length > 1 ? (
+              <select value={activeDatasetId || ''} onChange={(e) => switchDataset(e.target.value)} className="text-sm font-black truncate max-w-sm bg-transparent border-none outline-none cursor-pointer dark:text-slate-100">
+                {liveDatasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            ) : (
+              <h1 className="text-sm font-black truncate max-w-sm">{activeDataset?.name || 'Power BI Enterprise'}</h1>
+            )}
           </div>
           <div className="flex items-center gap-4">
+            {liveDatasets.length > 1 && <button onClick={() => setIsCombineOpen(true)} className="flex items-center gap-2 text-slate-500 dark:text-slate-400 hover:text-indigo-600 px-3 py-1.5 rounded-lg text-xs font-black transition-colors"><GitMerge size={14} /> Combine</button>}
             <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-1.5 rounded-lg text-xs font-black shadow-lg shadow-indigo-600/20 active:scale-95 transition-transform"><Plus size={14} strokeWidth={3} /> Get Data</button>
-            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv" className="hidden" />
+            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept={`${IMPORT_ACCEPT},${BUNDLE_EXTENSION}`} className="hidden" />
           </div>
         </header>
 
@@ -521,13 +1249,17 @@ const App: React.FC = () => {
                     </div>
                   )}
                   {activeSession?.messages.map((msg) => (
-                    <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in duration-500`}>
+                    <div key={msg.id} id={`message-${msg.id}`} className={`group/message flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in duration-500 rounded-[2.5rem] transition-all ${highlightedMessageId === msg.id ? 'ring-4 ring-indigo-500/30 ring-offset-8 dark:ring-offset-slate-950' : ''}`}>
+                      {msg.role === 'user' && <button onClick={() => forkFromMessage(msg.id)} title="Branch a new session from here" className="mt-4 p-2 rounded-xl text-slate-300 hover:text-indigo-600 opacity-0 group-hover/message:opacity-100 transition-all"><GitBranch size={16} /></button>}
                       <div className={`max-w-[95%] lg:max-w-[85%] ${msg.role === 'user' ? 'bg-indigo-600 text-white p-6 rounded-[2.5rem] rounded-tr-none shadow-xl' : 'w-full'}`}>
                         {msg.role === 'assistant' ? (
                           <div className="flex gap-8">
                              <div className="w-12 h-12 rounded-2xl bg-[#FFD700] text-slate-900 flex items-center justify-center shrink-0 border-2 border-white shadow-xl"><TrendingUp size={24} strokeWidth={3} /></div>
                              <div className="flex-1 min-w-0 space-y-8">
-                                <div className="prose prose-slate dark:prose-invert max-w-none text-slate-700 dark:text-slate-200 leading-relaxed text-lg font-medium">{msg.content}</div>
+                                <div className={`prose prose-slate dark:prose-invert max-w-none leading-relaxed text-lg font-medium whitespace-pre-wrap ${msg.isError ? 'text-rose-600 dark:text-rose-400' : 'text-slate-700 dark:text-slate-200'}`}>{msg.content}</div>
+                                {msg.isError && (
+                                   <button onClick={() => retryMessage(msg.id)} disabled={status === AnalysisStatus.LOADING} className="flex items-center gap-2 px-5 py-2.5 bg-rose-50 dark:bg-rose-900/10 text-rose-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition-all disabled:opacity-50"><RotateCcw size={14} /> Retry</button>
+                                )}
                                 {msg.metrics && msg.metrics.length > 0 && (
                                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                                       {msg.metrics.map((m, idx) => (
@@ -544,7 +1276,21 @@ const App: React.FC = () => {
                                       ))}
                                    </div>
                                 )}
-                                {msg.chartData && <ChartRenderer config={msg.chartData} theme={theme} onDrillDown={onDrillDown} onPin={pinToDashboard} />}
+                                {msg.chartData && (
+                                  <div className="relative group">
+                                    <ChartRenderer config={highlightAnomalies(msg.chartData)} theme={theme} onDrillDown={onDrillDown} onPin={(config) => pinToDashboard(config, msg.querySpec)} />
+                                    <ChartExportMenu config={highlightAnomalies(msg.chartData)} metadata={{ ...reportMetadata, filters: [] }} tileFilters={(msg.querySpec?.filters || []).map(f => describeCondition(f))} onError={(message) => showToast(message, "error")} onExportData={() => openChartDataExport(msg.chartData!)} className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-all" />
+                                  </div>
+                                )}
+                                {msg.querySpec && (
+                                   <details className="bg-slate-50 dark:bg-slate-900/50 rounded-[2rem] border border-slate-100 dark:border-slate-800 px-8 py-5 group/spec">
+                                      <summary className="flex items-center justify-between cursor-pointer list-none">
+                                         <span className="flex items-center gap-3 text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest"><FileCode size={16} /> Query Spec · computed over all rows</span>
+                                         <button onClick={(e) => { e.preventDefault(); rerunQuery(msg.id); }} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 dark:text-indigo-400 hover:underline"><RefreshCcw size={14} /> Re-run</button>
+                                      </summary>
+                                      <pre className="mt-4 text-xs font-mono text-slate-600 dark:text-slate-300 whitespace-pre-wrap break-all">{JSON.stringify(msg.querySpec, null, 2)}</pre>
+                                   </details>
+                                )}
                                 {msg.insights && msg.insights.length > 0 && (
                                    <div className="bg-slate-50 dark:bg-slate-900/50 p-8 rounded-[2rem] border border-slate-100 dark:border-slate-800 transition-colors">
                                       <h4 className="flex items-center gap-3 text-sm font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-4"><Lightbulb size={18} className="text-yellow-500" /> Strategic Takeaways</h4>
@@ -562,12 +1308,17 @@ const App: React.FC = () => {
                           </div>
                         ) : <div className="text-lg font-black leading-tight">{msg.content}</div>}
                       </div>
+                      {msg.role === 'assistant' && <button onClick={() => forkFromMessage(msg.id)} title="Branch a new session from here" className="mt-2 p-2 rounded-xl text-slate-300 hover:text-indigo-600 opacity-0 group-hover/message:opacity-100 transition-all shrink-0"><GitBranch size={16} /></button>}
                     </div>
                   ))}
                   {status === AnalysisStatus.LOADING && (
-                    <div className="flex gap-6 items-center">
-                       <div className="w-12 h-12 rounded-2xl bg-[#FFD700] flex items-center justify-center animate-bounce shadow-xl"><TrendingUp size={24} strokeWidth={3} className="text-slate-900" /></div>
-                       <div className="h-4 w-48 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden"><div className="h-full bg-indigo-600 animate-progress"></div></div>
+                    <div className={`flex gap-6 ${streamingText ? 'items-start' : 'items-center'}`}>
+                       <div className="w-12 h-12 rounded-2xl bg-[#FFD700] flex items-center justify-center animate-bounce shadow-xl shrink-0"><TrendingUp size={24} strokeWidth={3} className="text-slate-900" /></div>
+                       {streamingText ? (
+                         <div className="flex-1 min-w-0 prose prose-slate dark:prose-invert max-w-none text-slate-700 dark:text-slate-200 leading-relaxed text-lg font-medium whitespace-pre-wrap">{streamingText}<span className="inline-block w-2 h-5 ml-1 align-middle bg-indigo-600 animate-pulse"></span></div>
+                       ) : (
+                         <div className="h-4 w-48 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden"><div className="h-full bg-indigo-600 animate-progress"></div></div>
+                       )}
                     </div>
                   )}
                   <div ref={chatEndRef} />
@@ -576,7 +1327,11 @@ const App: React.FC = () => {
                   <div className="max-w-4xl mx-auto">
                     <form onSubmit={handleSendMessage} className="group flex items-center gap-4 p-4 border-2 rounded-[2.5rem] transition-all bg-white dark:bg-slate-900 shadow-2xl border-slate-100 dark:border-slate-800 focus-within:border-indigo-500 focus-within:ring-8 focus-within:ring-indigo-500/5">
                       <textarea rows={1} value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); }}} placeholder="Ask for trends, forecast, or a specific visual..." className="flex-1 bg-transparent border-none focus:ring-0 text-lg px-4 py-2 resize-none max-h-48 font-bold placeholder:text-slate-300 dark:placeholder:text-slate-600 dark:text-slate-100" disabled={!activeDataset || status === AnalysisStatus.LOADING} />
-                      <button type="submit" disabled={!input.trim() || status === AnalysisStatus.LOADING} className="bg-indigo-600 text-white p-4 rounded-full shadow-lg hover:scale-105 active:scale-95 transition-all disabled:opacity-50"><Send size={24} strokeWidth={3} /></button>
+                      {status === AnalysisStatus.LOADING ? (
+                        <button type="button" onClick={stopAnalysis} title="Stop generating" className="bg-rose-600 text-white p-4 rounded-full shadow-lg hover:scale-105 active:scale-95 transition-all"><Square size={24} strokeWidth={3} fill="currentColor" /></button>
+                      ) : (
+                        <button type="submit" disabled={!input.trim()} className="bg-indigo-600 text-white p-4 rounded-full shadow-lg hover:scale-105 active:scale-95 transition-all disabled:opacity-50"><Send size={24} strokeWidth={3} /></button>
+                      )}
                     </form>
                   </div>
                </div>
@@ -589,32 +1344,42 @@ const App: React.FC = () => {
                         <h2 className="text-4xl font-black tracking-tighter">Report Canvas</h2>
                         <p className="text-slate-500 dark:text-slate-400 font-bold uppercase text-[10px] tracking-[0.3em] mt-2">Personalized executive dashboard</p>
                      </div>
-                     <div className="flex gap-4"><button className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-5 py-2.5 rounded-2xl text-xs font-black hover:shadow-lg transition-all dark:text-slate-100"><DownloadCloud size={16} /> Export Report</button></div>
+                     <div className="flex gap-4">{activeSession && <button onClick={addTextTile} className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-5 py-2.5 rounded-2xl text-xs font-black hover:shadow-lg transition-all dark:text-slate-100"><FileText size={16} /> Add Text</button>}<button onClick={() => setIsExportOpen(true)} disabled={!activeSession?.dashboardTiles.length} className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-5 py-2.5 rounded-2xl text-xs font-black hover:shadow-lg transition-all dark:text-slate-100 disabled:opacity-50 disabled:hover:shadow-none"><DownloadCloud size={16} /> Export Report</button></div>
                   </div>
-                  {(!activeSession || activeSession.dashboardTiles.length === 0) ? (
+                  {activeSession && activeDataset && activeSession.dashboardTiles.length > 0 && (
+                    <DashboardSlicerBar
+                      dataset={activeDataset}
+                      slicers={activeSession.slicers || []}
+                      crossFilter={crossFilter}
+                      onChange={updateSlicers}
+                      onClearCrossFilter={() => setCrossFilter(null)}
+                      onOpenCrossFilter={openCrossFilterRows}
+                    />
+                  )}
+                  {activeSession && (
+                    <DashboardPageTabs
+                      pages={dashboardPages}
+                      activePageId={currentPageId}
+                      onSelect={setActivePageId}
+                      onAdd={addDashboardPage}
+                      onRename={renameDashboardPage}
+                      onRemove={removeDashboardPage}
+                    />
+                  )}
+                  {visibleTiles.length === 0 ? (
                     <div className="h-96 flex flex-col items-center justify-center text-center space-y-6 bg-white dark:bg-slate-900 rounded-[3rem] border-4 border-dashed border-slate-200 dark:border-slate-800 transition-colors">
                        <LayoutDashboard size={64} className="text-slate-200 dark:text-slate-800" />
                        <div className="space-y-2"><p className="text-xl font-black text-slate-800 dark:text-slate-200">Canvas is Empty</p><p className="text-slate-400 dark:text-slate-500 text-sm">Ask Ada a question and pin visuals to build your report.</p></div>
                     </div>
                   ) : (
-                    <div className="grid grid-cols-4 gap-8">
-                       {activeSession.dashboardTiles.map(tile => (
-                         <div key={tile.id} className={`relative group animate-in zoom-in-95 duration-500 ${tile.w === 1 ? 'col-span-1' : tile.w === 2 ? 'col-span-2' : 'col-span-4'}`}>
-                            {tile.type === 'kpi' && tile.kpi ? (
-                               <div className="bg-white dark:bg-slate-900 p-8 rounded-[2rem] shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-xl transition-all h-full min-h-[160px] flex flex-col justify-center">
-                                  <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">{tile.kpi.label}</p>
-                                  <div className="flex items-baseline gap-4">
-                                     <span className="text-4xl font-black text-slate-900 dark:text-slate-100">{tile.kpi.value}</span>
-                                     {tile.kpi.trend && (
-                                        <span className={`text-xs font-bold px-2 py-0.5 rounded-lg ${tile.kpi.trend > 0 ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{tile.kpi.trend > 0 ? '+' : ''}{tile.kpi.trend}%</span>
-                                     )}
-                                  </div>
-                               </div>
-                            ) : tile.config ? <ChartRenderer config={tile.config} theme={theme} isDashboardTile onDrillDown={onDrillDown} /> : null}
-                            <button onClick={() => removeTile(tile.id)} className="absolute -top-3 -right-3 p-2 bg-white dark:bg-slate-800 text-slate-400 hover:text-rose-600 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 opacity-0 group-hover:opacity-100 transition-all"><X size={16} /></button>
-                         </div>
-                       ))}
-                    </div>
+                    <DashboardGrid
+                      tiles={visibleTiles}
+                      highlightedTileId={crossFilter?.tileId}
+                      renderTile={renderDashboardTile}
+                      onMove={moveDashboardTile}
+                      onResize={resizeDashboardTile}
+                      onRemove={removeTile}
+                    />
                   )}
                </div>
             </div>
@@ -624,9 +1389,15 @@ const App: React.FC = () => {
                   <div className="flex items-end justify-between border-b border-slate-100 dark:border-slate-800 pb-8 shrink-0">
                      <div className="space-y-2">
                         <h2 className="text-4xl font-black tracking-tighter text-slate-900 dark:text-white">Data Explorer</h2>
-                        <div className="flex items-center gap-4 text-slate-400 dark:text-slate-500 font-bold text-[10px] uppercase tracking-widest"><span className="flex items-center gap-2"><Database size={12}/> {activeDataset?.rows.length.toLocaleString()} RECORDS</span></div>
+                        <div className="flex items-center gap-4 text-slate-400 dark:text-slate-500 font-bold text-[10px] uppercase tracking-widest"><span className="flex items-center gap-2"><Database size={12}/> {activeDataset?.rows.length.toLocaleString()} RECORDS</span>{pivotTable && <span className="flex items-center gap-2 text-indigo-600 dark:text-indigo-400"><Layers size={12}/> {pivotTable.rows.length.toLocaleString()} GROUPS{pivotTable.truncatedPivotValues > 0 ? ` · ${pivotTable.truncatedPivotValues} PIVOT VALUES HIDDEN` : ''}</span>}{activeDataset?.derivedFrom && <span className="flex items-center gap-2"><GitMerge size={12}/> {describeDerivation(activeDataset.derivedFrom, datasets)}<button onClick={rebuildDerivedDataset} className={`flex items-center gap-1 px-2 py-1 rounded-lg transition-all ${isDerivedStale(activeDataset, datasets) ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-600' : 'hover:text-indigo-600'}`}><RefreshCcw size={10}/> {isDerivedStale(activeDataset, datasets) ? 'Sources changed · Rebuild' : 'Rebuild'}</button></span>}</div>
                      </div>
                      <div className="flex items-center gap-4">
+                        <div className="flex items-center bg-slate-50 dark:bg-slate-900 rounded-2xl p-1">
+                          <button onClick={undo} disabled={!canUndo(activeHistory)} title="Undo (Ctrl+Z)" className="p-2.5 rounded-xl text-slate-500 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-800 hover:text-indigo-600 transition-all disabled:opacity-30 disabled:hover:bg-transparent"><Undo2 size={18} /></button>
+                          <button onClick={redo} disabled={!canRedo(activeHistory)} title="Redo (Ctrl+Shift+Z)" className="p-2.5 rounded-xl text-slate-500 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-800 hover:text-indigo-600 transition-all disabled:opacity-30 disabled:hover:bg-transparent"><Redo2 size={18} /></button>
+                          <button onClick={() => { setIsHistoryOpen(prev => !prev); setIsVersionsOpen(false); setProfiledColumn(null); }} title="History" className={`p-2.5 rounded-xl transition-all ${isHistoryOpen ? 'bg-white dark:bg-slate-800 text-indigo-600' : 'text-slate-500 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-800 hover:text-indigo-600'}`}><History size={18} /></button>
+                          <button onClick={() => { setIsVersionsOpen(prev => !prev); setIsHistoryOpen(false); setProfiledColumn(null); }} title="Versions" className={`flex items-center gap-1 p-2.5 rounded-xl transition-all ${isVersionsOpen ? 'bg-white dark:bg-slate-800 text-indigo-600' : 'text-slate-500 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-800 hover:text-indigo-600'}`}><GitBranch size={18} />{(activeDataset?.version || 1) > 1 && <span className="text-[10px] font-black">v{activeDataset!.version}</span>}</button>
+                        </div>
                         <button onClick={() => setIsCleaningModalOpen(true)} className="flex items-center gap-2 px-6 py-3.5 bg-indigo-600 text-white rounded-2xl text-sm font-black shadow-lg shadow-indigo-600/20 hover:scale-105 active:scale-95 transition-all"><Wand2 size={18} /> Clean Data{cleaningSuggestions.length > 0 && <span className="bg-white text-indigo-600 w-5 h-5 rounded-full flex items-center justify-center text-[10px]">{cleaningSuggestions.length}</span>}</button>
                         <div className="relative group"><Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><input type="text" placeholder="Power Query..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-12 pr-6 py-3.5 bg-slate-50 dark:bg-slate-900 border-none rounded-2xl text-sm font-bold w-64 md:w-80 focus:ring-4 focus:ring-indigo-500/10 transition-all outline-none dark:text-slate-100" /></div>
                      </div>
@@ -640,6 +1411,38 @@ const App: React.FC = () => {
                     >
                       <ListFilter size={16} /> Add Constraint
                     </button>
+                    <button 
+                      onClick={() => setIsPivotBuilderOpen(true)}
+                      className={`flex items-center gap-2 px-6 py-3 border-2 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${pivotConfig ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20'}`}
+                    >
+                      <Layers size={16} /> {pivotConfig ? 'Edit Pivot' : 'Pivot'}
+                    </button>
+                    <button 
+                      onClick={() => setCalculatedEditor({})}
+                      className="flex items-center gap-2 px-6 py-3 bg-white dark:bg-slate-900 border-2 border-slate-100 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20 transition-all"
+                    >
+                      <Sigma size={16} /> Formula
+                    </button>
+                    <button 
+                      onClick={openDataExport}
+                      className="flex items-center gap-2 px-6 py-3 bg-white dark:bg-slate-900 border-2 border-slate-100 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20 transition-all"
+                    >
+                      <FileDown size={16} /> Export
+                    </button>
+                    <button 
+                      onClick={toggleAnomalyMode}
+                      className={`flex items-center gap-2 px-6 py-3 border-2 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${anomalyOptions ? 'bg-rose-600 border-rose-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20'}`}
+                    >
+                      <Radar size={16} /> Anomalies{anomalyReport ? ` · ${anomalyReport.anomalies.length}` : ''}
+                    </button>
+                    {pivotTable && (
+                      <button 
+                        onClick={pinPivotTable}
+                        className="flex items-center gap-2 px-4 py-3 bg-indigo-50 dark:bg-indigo-900/10 text-indigo-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all"
+                      >
+                        <LayoutDashboard size={16} /> Pin Table
+                      </button>
+                    )}
                     {activeFilters.length > 0 && (
                       <button 
                         onClick={clearAllFilters}
@@ -652,9 +1455,9 @@ const App: React.FC = () => {
                       {activeFilters.map(f => (
                         <div key={f.id} className="flex items-center gap-3 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800/50 px-4 py-2 rounded-2xl group animate-in zoom-in-95 duration-200">
                           <div className="flex flex-col">
-                            <span className="text-[8px] font-black text-indigo-400 uppercase tracking-tighter leading-none mb-0.5">{f.column}</span>
-                            <span className="text-[10px] font-black text-indigo-600 dark:text-indigo-400 leading-none">
-                              {f.operator === 'between' ? `${f.value} → ${f.valueEnd}` : `${f.operator.toUpperCase()}: ${f.value}`}
+                            <span className="text-[8px] font-black text-indigo-400 uppercase tracking-tighter leading-none mb-0.5">{isFilterGroup(f) ? `${f.negate ? 'Not ' : ''}${f.combinator === 'or' ? 'Any Of' : 'All Of'}` : f.column}</span>
+                            <span className="text-[10px] font-black text-indigo-600 dark:text-indigo-400 leading-none max-w-[320px] truncate" title={describeFilter(f)}>
+                              {isFilterGroup(f) ? describeFilter({ ...f, negate: false }) : describeCondition(f, false)}
                             </span>
                           </div>
                           <button onClick={() => removeFilter(f.id)} className="text-indigo-300 hover:text-indigo-600 transition-all">
@@ -677,35 +1480,63 @@ const App: React.FC = () => {
                      ))}
                   </div>
 
+                  {!pivotTable && selectedRowIds.size > 0 && activeDataset && (
+                    <BulkEditBar selectedCount={selectedRowIds.size} columns={getBaseColumns(activeDataset.columns, activeDataset.calculatedColumns)} onApply={bulkEditSelected} onDelete={deleteSelectedRows} onClear={() => setSelectedRowIds(new Set())} />
+                  )}
+
                   <div ref={tableContainerRef} onScroll={handleScroll} className="flex-1 bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 overflow-auto shadow-2xl transition-colors relative">
                     <div style={{ height: totalContentHeight, width: '100%', position: 'relative' }}>
                       <table className="w-full text-left text-sm border-collapse table-fixed sticky top-0 z-10 bg-white dark:bg-slate-900">
                         <thead>
                           <tr className="bg-slate-50 dark:bg-slate-800/50 transition-colors">
-                            {columnOrder.map(col => (
+                            {pivotTable ? gridColumns.map(col => (
+                              <th key={col} style={{ width: columnWidths[col] || 150 }} className={`relative px-8 py-6 font-black uppercase tracking-widest text-[10px] transition-all border-b border-slate-100 dark:border-slate-800 ${pivotConfig?.rows.includes(col) ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400 dark:text-slate-500'}`}>
+                                <div className="flex items-center gap-3 cursor-pointer" onClick={() => handleSort(col)}><span className="flex-1 truncate" title={col}>{col}</span><ArrowUpDown size={12} className={`shrink-0 ${sortConfig.key === col ? 'text-indigo-600' : 'opacity-20'}`} /></div>
+                                <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500 transition-colors" onMouseDown={(e) => handleResizeStart(e, col)}/>
+                              </th>
+                            )) : [
+                              <th key="__select" style={{ width: 56 }} className="px-4 py-6 border-b border-slate-100 dark:border-slate-800"><input type="checkbox" checked={processedRows.length > 0 && selectedRowIds.size >= processedRows.length && processedRows.every(r => selectedRowIds.has(getRowId(r)))} onChange={toggleSelectAll} className="accent-indigo-600" /></th>,
+                              ...columnOrder.map(col => (
                               <th key={col} draggable onDragStart={(e) => handleColumnDragStart(e, col)} onDragOver={(e) => e.preventDefault()} onDrop={(e) => handleColumnDrop(e, col)} style={{ width: columnWidths[col] || 150 }} className={`relative px-8 py-6 font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest text-[10px] transition-all border-b border-slate-100 dark:border-slate-800 ${draggedColumn === col ? 'opacity-30' : ''}`}>
-                                <div className="flex items-center gap-3 cursor-grab active:cursor-grabbing"><GripVertical size={12} className="opacity-30 shrink-0" /><span className={`flex-1 truncate ${activeFilters.some(f => f.column === col) ? 'text-indigo-600 dark:text-indigo-400' : ''}`} onClick={() => handleSort(col)}>{col}</span><div className="flex items-center gap-1 shrink-0"><ArrowUpDown size={12} className={sortConfig.key === col ? 'text-indigo-600' : 'opacity-20'} onClick={() => handleSort(col)} /></div></div>
+                                <div className="flex items-center gap-3 cursor-grab active:cursor-grabbing"><GripVertical size={12} className="opacity-30 shrink-0" /><span className={`flex-1 truncate ${filteredColumns.includes(col) ? 'text-indigo-600 dark:text-indigo-400' : ''}`} onClick={() => handleSort(col)}>{col}</span><div className="flex items-center gap-1 shrink-0">{activeDataset?.calculatedColumns?.some(c => c.name === col) && <Sigma size={12} className="text-indigo-600" onClick={() => setCalculatedEditor({ column: activeDataset.calculatedColumns!.find(c => c.name === col) })} />}<BarChart3 size={12} className={profiledColumn === col ? 'text-indigo-600' : 'opacity-20 hover:opacity-100'} onClick={() => { setProfiledColumn(prev => prev === col ? null : col); setIsHistoryOpen(false); setIsVersionsOpen(false); }} /><ArrowUpDown size={12} className={sortConfig.key === col ? 'text-indigo-600' : 'opacity-20'} onClick={() => handleSort(col)} /></div></div>
                                 <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500 transition-colors" onMouseDown={(e) => handleResizeStart(e, col)}/>
                               </th>
-                            ))}
+                            ))]}
                           </tr>
                         </thead>
                       </table>
                       <table className="w-full text-left text-sm border-collapse table-fixed absolute top-0 left-0" style={{ transform: `translateY(${offsetTop}px)` }}>
-                        <thead className="invisible h-0"><tr>{columnOrder.map(col => (<th key={`align-${col}`} style={{ width: columnWidths[col] || 150 }} className="p-0 border-none" />))}</tr></thead>
+                        <thead className="invisible h-0"><tr>{!pivotTable && <th style={{ width: 56 }} className="p-0 border-none" />}{gridColumns.map(col => (<th key={`align-${col}`} style={{ width: columnWidths[col] || 150 }} className="p-0 border-none" />))}</tr></thead>
                         <tbody className="divide-y border-slate-100 dark:border-slate-800">
-                          {visibleRows.map(({ data: row, originalIndex: i }) => (
-                            <tr key={i} style={{ height: ROW_HEIGHT }} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group">
+                          {pivotTable ? visibleRows.map(({ data: row, originalIndex: i }) => {
+                            const isTotal = i >= pivotTable.rows.length;
+                            return (
+                              <tr key={i} style={{ height: ROW_HEIGHT }} onClick={isTotal ? undefined : () => drillIntoPivotRow(i)} title={isTotal ? undefined : 'Show the rows behind this group'} className={`transition-colors ${isTotal ? 'bg-slate-50 dark:bg-slate-800/50' : 'hover:bg-indigo-50/50 dark:hover:bg-indigo-900/10 cursor-pointer'}`}>
+                                {gridColumns.map(col => (
+                                  <td key={`${i}-${col}`} className={`px-8 py-4 whitespace-nowrap ${isTotal ? 'font-black text-slate-900 dark:text-slate-100' : 'font-bold text-slate-600 dark:text-slate-300'} ${typeof row[col] === 'number' ? 'text-right' : ''}`}>
+                                    <span className="truncate block">{row[col] === null || row[col] === undefined ? '—' : typeof row[col] === 'number' ? row[col].toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(row[col])}</span>
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          }) : visibleRows.map(({ data: row }) => {
+                            const rowId = getRowId(row);
+                            const isSelected = selectedRowIds.has(rowId);
+                            return (
+                            <tr key={rowId} style={{ height: ROW_HEIGHT }} className={`transition-colors group ${isSelected ? 'bg-indigo-50/60 dark:bg-indigo-900/10' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}>
+                              <td className="px-4 py-4"><input type="checkbox" checked={isSelected} onChange={() => toggleRowSelection(rowId)} className="accent-indigo-600" /></td>
                               {columnOrder.map(col => {
-                                const isEditing = editingCell?.rowIndex === i && editingCell?.column === col;
+                                const isEditing = editingCell?.rowId === rowId && editingCell?.column === col;
+                                const anomaly = anomalyIndex.get(rowId)?.get(col);
                                 return (
-                                  <td key={`${i}-${col}`} className={`px-8 py-4 whitespace-nowrap font-bold text-slate-600 dark:text-slate-300 ${isEditing ? 'p-0' : ''}`} onDoubleClick={() => setEditingCell({ rowIndex: i, column: col })}>
-                                    {isEditing ? <input autoFocus type={typeof row[col] === 'number' ? 'number' : 'text'} defaultValue={row[col]} onBlur={(e) => handleCellEdit(i, col, e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleCellEdit(i, col, e.currentTarget.value); if (e.key === 'Escape') setEditingCell(null); }} className="w-full h-full px-8 py-4 bg-indigo-50 dark:bg-indigo-900/30 border-2 border-indigo-600 outline-none text-slate-900 dark:text-slate-100" /> : <span className="truncate block">{typeof row[col] === 'number' ? row[col].toLocaleString() : row[col]}</span>}
+                                  <td key={`${rowId}-${col}`} title={anomaly?.reason} className={`px-8 py-4 whitespace-nowrap font-bold ${anomaly ? `bg-rose-50 dark:bg-rose-900/20 text-rose-600 ${anomaly.severity === 'high' ? 'font-black' : ''}` : 'text-slate-600 dark:text-slate-300'} ${isEditing ? 'p-0' : ''}`} onDoubleClick={() => setEditingCell({ rowId, column: col })}>
+                                    {isEditing ? <input autoFocus type={typeof row[col] === 'number' ? 'number' : 'text'} defaultValue={row[col]} onBlur={(e) => handleCellEdit(rowId, col, e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setEditingCell(null); }} className="w-full h-full px-8 py-4 bg-indigo-50 dark:bg-indigo-900/30 border-2 border-indigo-600 outline-none text-slate-900 dark:text-slate-100" /> : <span className="truncate block">{typeof row[col] === 'number' ? row[col].toLocaleString() : row[col]}</span>}
                                   </td>
                                 );
                               })}
                             </tr>
-                          ))}
+                            );
+                          })}
                         </tbody>
                       </table>
                     </div>
@@ -715,8 +1546,97 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {view === 'data' && isHistoryOpen && activeDataset && (
+          <HistoryPanel history={activeHistory} onRevert={revertToHistoryEntry} onUndo={undo} onRedo={redo} onClose={() => setIsHistoryOpen(false)} />
+        )}
+
+        {view === 'data' && isVersionsOpen && activeDataset && (
+          <VersionsPanel
+            dataset={activeDataset}
+            datasets={datasets}
+            tiles={sessions.filter(s => s.datasetId === activeDataset.id).flatMap(s => s.dashboardTiles)}
+            onLoadRows={(id) => ensureDatasetRows(id).catch(err => { showToast(`Could not load dataset: ${err.message}`, "error"); return undefined; })}
+            onClose={() => setIsVersionsOpen(false)}
+          />
+        )}
+
+        {view === 'data' && anomalyReport && anomalyOptions && !isHistoryOpen && !isVersionsOpen && !profiledColumn && (
+          <AnomalyPanel
+            report={anomalyReport}
+            options={anomalyOptions}
+            flaggedOnly={showFlaggedOnly}
+            onOptionsChange={setAnomalyOptions}
+            onFlaggedOnlyChange={setShowFlaggedOnly}
+            onSelect={selectAnomaly}
+            onExplain={explainAnomalies}
+            onClose={toggleAnomalyMode}
+          />
+        )}
+
+        {view === 'data' && profiledColumn && activeDataset && (
+          <ColumnProfilePanel column={profiledColumn} metadata={activeDataset.metadata?.[profiledColumn]} rowCount={activeDataset.rows.length} onClose={() => setProfiledColumn(null)} />
+        )}
+
         {/* Filter Builder Modal */}
-        {isFilterBuilderOpen && <FilterBuilderModal />}
+        {isFilterBuilderOpen && activeDataset && <FilterBuilderModal dataset={activeDataset} filters={activeFilters} onApply={applyFilterTree} onSaveSet={saveFilterSet} onDeleteSet={deleteFilterSet} onClose={() => setIsFilterBuilderOpen(false)} />}
+
+        {calculatedEditor && activeDataset && <CalculatedColumnModal dataset={activeDataset} column={calculatedEditor.column} onSave={saveCalculatedColumn} onDelete={deleteCalculatedColumn} onClose={() => setCalculatedEditor(null)} />}
+
+        {isPivotBuilderOpen && activeDataset && <PivotBuilderModal dataset={activeDataset} initialConfig={pivotConfig} onApply={applyPivot} onClear={clearPivot} onClose={() => setIsPivotBuilderOpen(false)} />}
+
+        {isExportOpen && activeSession && (
+          <ExportReportModal
+            pages={reportPages(dashboardPages, pageId => pageTiles(liveTiles, dashboardPages, pageId))}
+            currentPageName={dashboardPages.find(p => p.id === currentPageId)?.name || ''}
+            metadata={reportMetadata}
+            onExported={(message) => showToast(message)}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        {dataExportSources && (
+          <DataExportModal
+            sources={dataExportSources}
+            metadata={reportMetadata}
+            onExported={(message) => showToast(message)}
+            onClose={() => setDataExportSources(null)}
+          />
+        )}
+
+        {isShareOpen && (
+          <ShareWorkspaceModal
+            datasets={liveDatasets}
+            sessions={sessions}
+            activeDatasetId={activeDatasetId}
+            onExport={exportWorkspaceBundle}
+            onClose={() => setIsShareOpen(false)}
+          />
+        )}
+
+        {pendingBundle && (
+          <WorkspaceImportModal
+            bundle={pendingBundle.bundle}
+            fileName={pendingBundle.fileName}
+            datasets={datasets}
+            onConfirm={importWorkspaceBundle}
+            onCancel={() => setPendingBundle(null)}
+          />
+        )}
+
+        {pendingVersion && datasets.some(d => d.id === pendingVersion.datasetId) && (
+          <VersionImportModal
+            dataset={datasets.find(d => d.id === pendingVersion.datasetId)!}
+            fileName={pendingVersion.fileName}
+            columns={pendingVersion.columns}
+            metadata={pendingVersion.metadata}
+            rowCount={pendingVersion.rows.length}
+            tiles={sessions.filter(s => s.datasetId === pendingVersion.datasetId).flatMap(s => s.dashboardTiles)}
+            onConfirm={importNewVersion}
+            onCancel={() => setPendingVersion(null)}
+          />
+        )}
+
+        {pendingImport && <ImportPreviewModal key={`${pendingImport.fileName}:${pendingImport.activeSheet || ''}`} source={pendingImport} datasets={liveDatasets} onSheetChange={changeImportSheet} onConfirm={confirmImport} onCancel={() => setPendingImport(null)} />}
 
         {notification && (
            <div className="fixed bottom-32 right-8 z-[100] animate-in slide-in-from-right-10 fade-in duration-500"><div className={`px-8 py-4 rounded-3xl shadow-2xl flex items-center gap-4 ${notification.type === 'error' ? 'bg-rose-600 text-white' : 'bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900'}`}><div className="w-8 h-8 rounded-full bg-white/20 flex items-center justify-center">{notification.type === 'success' ? <CheckCircle2 size={18}/> : <Info size={18}/>}</div><span className="text-sm font-black tracking-tight">{notification.message}</span></div></div>
@@ -726,20 +1646,33 @@ const App: React.FC = () => {
            <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
               <div className="w-full max-w-xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors">
                  <div className="p-10 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center"><div><h2 className="text-3xl font-black tracking-tighter text-slate-900 dark:text-slate-100">System Configuration</h2><p className="text-slate-400 dark:text-slate-500 font-bold text-sm">Fine-tune your analysis engine</p></div><button onClick={() => setIsSettingsOpen(false)} className="p-3 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-2xl transition-all dark:text-slate-400"><X size={24}/></button></div>
-                 <div className="p-10 space-y-10"><div className="space-y-4"><h3 className="text-xs font-black uppercase tracking-widest text-slate-400 dark:text-slate-500">Display Settings</h3><div className="grid grid-cols-2 gap-6"><button onClick={() => setTheme('light')} className={`p-6 rounded-[2rem] border-4 transition-all flex flex-col items-center gap-4 font-black ${theme === 'light' ? 'border-indigo-600 bg-indigo-50 text-indigo-600' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}><Sun size={32}/> Light Mode</button><button onClick={() => setTheme('dark')} className={`p-6 rounded-[2rem] border-4 transition-all flex flex-col items-center gap-4 font-black ${theme === 'dark' ? 'border-indigo-600 bg-indigo-900/20 text-indigo-400' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}><Moon size={32}/> Dark Mode</button></div></div><button onClick={() => { localStorage.clear(); window.location.reload(); }} className="w-full py-4 rounded-2xl border-2 border-rose-100 dark:border-rose-900/30 text-rose-500 font-black flex items-center justify-center gap-3 hover:bg-rose-50 dark:hover:bg-rose-900/10 transition-all"><Trash2 size={20}/> Factory Reset Environment</button></div>
+                 <div className="p-10 space-y-10"><div className="space-y-4"><h3 className="text-xs font-black uppercase tracking-widest text-slate-400 dark:text-slate-500">Display Settings</h3><div className="grid grid-cols-2 gap-6"><button onClick={() => setTheme('light')} className={`p-6 rounded-[2rem] border-4 transition-all flex flex-col items-center gap-4 font-black ${theme === 'light' ? 'border-indigo-600 bg-indigo-50 text-indigo-600' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}><Sun size={32}/> Light Mode</button><button onClick={() => setTheme('dark')} className={`p-6 rounded-[2rem] border-4 transition-all flex flex-col items-center gap-4 font-black ${theme === 'dark' ? 'border-indigo-600 bg-indigo-900/20 text-indigo-400' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}><Moon size={32}/> Dark Mode</button></div></div><div className="space-y-4"><h3 className="text-xs font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 flex items-center gap-2"><Zap size={14}/> Analysis Engine</h3><div className="grid grid-cols-3 gap-3">{(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (<button key={id} onClick={() => setProviderSettings(prev => ({ ...prev, provider: id }))} className={`p-4 rounded-2xl border-4 transition-all font-black text-xs ${providerSettings.provider === id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}>{PROVIDER_LABELS[id]}</button>))}</div>{providerSettings.provider === 'openai' && (<div className="grid grid-cols-2 gap-3"><input value={providerSettings.openAiBaseUrl} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAiBaseUrl: e.target.value }))} placeholder="http://localhost:11434/v1" className="col-span-2 bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold text-sm outline-none focus:ring-4 focus:ring-indigo-500/10 dark:text-slate-100" /><input value={providerSettings.openAiModel} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAiModel: e.target.value }))} placeholder="Model" className="bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold text-sm outline-none focus:ring-4 focus:ring-indigo-500/10 dark:text-slate-100" /><input type="password" value={providerSettings.openAiApiKey || ''} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAiApiKey: e.target.value || undefined }))} placeholder="API key (optional)" className="bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold text-sm outline-none focus:ring-4 focus:ring-indigo-500/10 dark:text-slate-100" /></div>)}{providerSettings.provider === 'mock' && <p className="text-sm font-bold text-slate-400">Canned, deterministic answers computed locally. No network access required.</p>}</div><div className="space-y-4"><h3 className="text-xs font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 flex items-center gap-2"><HardDrive size={14}/> Local Storage</h3>{storageEstimate ? (<div className="space-y-3"><div className="h-3 w-full bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden"><div className={`h-full ${storageEstimate.quota && storageEstimate.usage / storageEstimate.quota > 0.9 ? 'bg-rose-500' : 'bg-indigo-600'}`} style={{ width: `${storageEstimate.quota ? Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100) : 0}%` }}></div></div><p className="text-sm font-bold text-slate-500 dark:text-slate-400">{formatBytes(storageEstimate.usage)} used of {formatBytes(storageEstimate.quota)} available · {datasets.length} datasets</p></div>) : <p className="text-sm font-bold text-slate-400">Storage usage is not available in this browser.</p>}</div><div className="space-y-4"><h3 className="text-xs font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 flex items-center gap-2"><Share2 size={14}/> Share Workspace</h3><div className="grid grid-cols-2 gap-3"><button onClick={() => { setIsSettingsOpen(false); setIsShareOpen(true); }} disabled={liveDatasets.length === 0} className="p-4 rounded-2xl border-4 border-slate-100 dark:border-slate-800 text-slate-500 dark:text-slate-400 font-black text-xs flex items-center justify-center gap-2 hover:border-indigo-600/20 hover:text-indigo-600 transition-all disabled:opacity-50"><Share2 size={16}/> Export Bundle</button><button onClick={() => fileInputRef.current?.click()} className="p-4 rounded-2xl border-4 border-slate-100 dark:border-slate-800 text-slate-500 dark:text-slate-400 font-black text-xs flex items-center justify-center gap-2 hover:border-indigo-600/20 hover:text-indigo-600 transition-all"><PackageOpen size={16}/> Import Bundle</button></div><p className="text-sm font-bold text-slate-400">Datasets, sessions, dashboards and edit history in one {BUNDLE_EXTENSION} file.</p></div><button onClick={() => { localStorage.clear(); clearStorage().finally(() => window.location.reload()); }} className="w-full py-4 rounded-2xl border-2 border-rose-100 dark:border-rose-900/30 text-rose-500 font-black flex items-center justify-center gap-3 hover:bg-rose-50 dark:hover:bg-rose-900/10 transition-all"><Trash2 size={20}/> Factory Reset Environment</button></div>
                  <div className="p-10 bg-slate-50 dark:bg-slate-950 flex justify-end"><button onClick={() => setIsSettingsOpen(false)} className="bg-indigo-600 text-white px-10 py-4 rounded-2xl font-black shadow-xl hover:bg-indigo-700 transition-all">Apply Changes</button></div>
               </div>
            </div>
         )}
 
-        {isCleaningModalOpen && (
-           <div className="fixed inset-0 z-[110] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
-              <div className="w-full max-w-4xl bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
-                 <div className="p-10 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center"><div><div className="flex items-center gap-3 mb-2"><div className="w-10 h-10 rounded-2xl bg-indigo-600 text-white flex items-center justify-center shadow-lg shadow-indigo-600/20"><Sparkle size={20} /></div><h2 className="text-3xl font-black tracking-tighter text-slate-900 dark:text-slate-100 uppercase">Power Clean AI</h2></div></div><button onClick={() => setIsCleaningModalOpen(false)} className="p-3 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-2xl transition-all dark:text-slate-400"><X size={24}/></button></div>
-                 <div className="flex-1 overflow-y-auto p-10 space-y-8 bg-slate-50/50 dark:bg-slate-950/50">{cleaningSuggestions.map((s) => (<div key={s.id} className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border dark:border-slate-800 shadow-sm flex flex-col justify-between group"><div className="space-y-4"><div className="px-3 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-500 inline-block">{s.severity} PRIORITY</div><h4 className="text-lg font-black text-slate-900 dark:text-slate-100 leading-tight">{s.issue}</h4><p className="text-sm font-medium text-slate-500 dark:text-slate-400 leading-relaxed italic border-l-2 border-indigo-200 dark:border-indigo-800 pl-4">"{s.suggestion}"</p></div><div className="mt-8 flex gap-3"><button onClick={() => applyCleaningSuggestion(s)} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-600/20 hover:scale-[1.02] active:scale-[0.98] transition-all">Accept Fix</button><button onClick={() => rejectCleaningSuggestion(s.id)} className="px-5 py-3 border border-slate-200 dark:border-slate-800 text-slate-400 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-800 transition-all"><X size={16} /></button></div></div>))}</div>
-                 <div className="p-10 bg-slate-50 dark:bg-slate-950 flex justify-end border-t border-slate-200 dark:border-slate-800"><button onClick={() => setIsCleaningModalOpen(false)} className="bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition-all text-xs uppercase tracking-widest">Done</button></div>
-              </div>
-           </div>
+        {isCombineOpen && (
+          <CombineDatasetsModal
+            datasets={liveDatasets}
+            activeDatasetId={activeDatasetId}
+            onLoadRows={(id) => ensureDatasetRows(id).catch(err => showToast(`Could not load dataset: ${err.message}`, "error"))}
+            onCreate={createDerivedDataset}
+            onClose={() => setIsCombineOpen(false)}
+          />
+        )}
+
+        {isCleaningModalOpen && activeDataset && (
+          <CleaningModal
+            dataset={activeDataset}
+            suggestions={cleaningSuggestions}
+            onUpdate={updateCleaningSuggestion}
+            onApply={applyCleaningSuggestion}
+            onReject={rejectCleaningSuggestion}
+            onRescan={() => handleGetCleaningSuggestions()}
+            isScanning={status === AnalysisStatus.LOADING}
+            onClose={() => setIsCleaningModalOpen(false)}
+          />
         )}
       </main>
 
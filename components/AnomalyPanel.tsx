@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Anomaly, AnomalyMethod, AnomalyScanOptions, AnomalySensitivity, AnomalySeverity } from '../types';
+import { ANOMALY_METHOD_LABELS, AnomalyReport } from '../services/anomalyDetection';
+import { Filter, MessageCircle, Radar, TrendingUp, X } from 'lucide-react';
+
+interface AnomalyPanelProps {
+  report: AnomalyReport;
+  options: AnomalyScanOptions;
+  flaggedOnly: boolean;
+  onOptionsChange: (options: AnomalyScanOptions) => void;
+  onFlaggedOnlyChange: (flaggedOnly: boolean) => void;
+  onSelect: (anomaly: Anomaly) => void;
+  onExplain: (anomalies: Anomaly[]) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const SENSITIVITIES: AnomalySensitivity[] = ['low', 'medium', 'high'];
+const SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  high: 'bg-rose-600 text-white',
+  medium: 'bg-rose-100 dark:bg-rose-900/30 text-rose-600',
+  low: 'bg-amber-50 dark:bg-amber-900/20 text-amber-600'
+};
+const SEVERITY_ORDER: AnomalySeverity[] = ['high', 'medium', 'low'];
+// The list is scored already, so a long tail of weak flags is cut rather than paged.
+const MAX_LISTED = 200;
+const EXPLAIN_LIMIT = 20;
+
+/** Settings and flagged values for the Data Explorer's anomaly mode. */
+export const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ report, options, flaggedOnly, onOptionsChange, onFlaggedOnlyChange, onSelect, onExplain, onClose }) => {
+  const [severity, setSeverity] = useState<AnomalySeverity | null>(null);
+  const listed = severity ? report.anomalies.filter(a => a.severity === severity) : report.anomalies;
+  const counts = Object.fromEntries(SEVERITY_ORDER.map(s => [s, report.anomalies.filter(a => a.severity === s).length])) as Record<AnomalySeverity, number>;
+
+  const toggleMethod = (method: AnomalyMethod) => onOptionsChange({
+    ...options,
+    methods: options.methods.includes(method) ? options.methods.filter(m => m !== method) : [...options.methods, method]
+  });
+
+  return (
+    <div className="fixed top-14 right-0 bottom-0 w-[380px] z-[90] bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-right-10 duration-300">
+      <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-start">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2"><Radar size={14} /> Anomalies</div>
+          <h3 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">{report.anomalies.length.toLocaleString()}{report.truncated ? '+' : ''} flagged</h3>
+          <p className="text-xs font-bold text-slate-400 mt-1">{report.scannedColumns.length} numeric column{report.scannedColumns.length === 1 ? '' : 's'} scanned{report.dateColumn && options.levelShifts ? ` · shifts along ${report.dateColumn}` : ''}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+      </div>
+
+      <div className="p-8 space-y-5 border-b border-slate-200 dark:border-slate-800">
+        <div className="space-y-2">
+          <label className={labelClass}>Methods</label>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ANOMALY_METHOD_LABELS) as AnomalyMethod[]).map(m => (
+              <button key={m} onClick={() => toggleMethod(m)} className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${options.methods.includes(m) ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-400 hover:text-indigo-600'}`}>{ANOMALY_METHOD_LABELS[m]}</button>
+            ))}
+            <button onClick={() => onOptionsChange({ ...options, levelShifts: !options.levelShifts })} disabled={!report.dateColumn} title={report.dateColumn ? undefined : 'Needs a date column'} className={`flex items-center gap-1 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${options.levelShifts && report.dateColumn ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-400 hover:text-indigo-600'}`}><TrendingUp size={12} /> Level Shifts</button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Sensitivity</label>
+          <div className="grid grid-cols-3 gap-1 bg-slate-50 dark:bg-slate-800 rounded-xl p-1">
+            {SENSITIVITIES.map(s => (
+              <button key={s} onClick={() => onOptionsChange({ ...options, sensitivity: s })} className={`py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${options.sensitivity === s ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{s}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => onFlaggedOnlyChange(!flaggedOnly)} disabled={report.anomalies.length === 0} className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${flaggedOnly ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 hover:text-indigo-600'}`}><Filter size={12} /> Flagged Rows Only</button>
+          <button onClick={() => onExplain(listed.slice(0, EXPLAIN_LIMIT))} disabled={listed.length === 0} title={`Ask the assistant about the ${Math.min(EXPLAIN_LIMIT, listed.length)} most severe listed anomalies`} className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"><MessageCircle size={12} /> Explain</button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 px-8 pt-6">
+        {SEVERITY_ORDER.map(s => (
+          <button key={s} onClick={() => setSeverity(prev => prev === s ? null : s)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${SEVERITY_STYLES[s]} ${severity && severity !== s ? 'opacity-30' : ''}`}>{counts[s]} {s}</button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 pt-4 space-y-2">
+        {listed.length === 0 && <p className="text-sm font-bold text-slate-400">{options.methods.length === 0 && !options.levelShifts ? 'Turn on a method to scan.' : 'Nothing stands out at this sensitivity.'}</p>}
+        {listed.slice(0, MAX_LISTED).map(a => (
+          <button key={a.id} onClick={() => onSelect(a)} className="w-full text-left p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 hover:ring-2 hover:ring-indigo-600/20 transition-all">
+            <div className="flex items-center gap-2 mb-1">
+              <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${SEVERITY_STYLES[a.severity]}`}>{a.score.toFixed(1)}</span>
+              <span className="text-xs font-black text-slate-900 dark:text-slate-100 truncate">{a.column}</span>
+              <span className="ml-auto text-[9px] font-black uppercase tracking-widest text-slate-400 shrink-0">{a.kind === 'level_shift' ? `Shift · ${a.period}` : a.methods!.map(m => ANOMALY_METHOD_LABELS[m]).join(' · ')}</span>
+            </div>
+            <p className="text-xs font-bold text-slate-500 dark:text-slate-400">{a.reason}</p>
+          </button>
+        ))}
+        {listed.length > MAX_LISTED && <p className="text-xs font-bold text-slate-400">{(listed.length - MAX_LISTED).toLocaleString()} weaker anomalies not listed.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Pencil, Trash2, X } from 'lucide-react';
+
+interface BulkEditBarProps {
+  selectedCount: number;
+  columns: string[]; // editable columns
+  onApply: (column: string, value: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+export const BulkEditBar: React.FC<BulkEditBarProps> = ({ selectedCount, columns, onApply, onDelete, onClear }) => {
+  const [column, setColumn] = useState(columns[0] || '');
+  const [value, setValue] = useState('');
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-indigo-600 text-white px-6 py-3 rounded-2xl shadow-lg shadow-indigo-600/20 animate-in slide-in-from-top-2 duration-200 shrink-0">
+      <span className="flex items-center gap-2 text-xs font-black"><CheckCircle2 size={16} /> {selectedCount.toLocaleString()} selected</span>
+      <div className="flex items-center gap-2 ml-4">
+        <Pencil size={14} className="opacity-60" />
+        <select value={column} onChange={(e) => setColumn(e.target.value)} className="bg-white/10 border-none rounded-xl px-3 py-2 text-xs font-bold outline-none [&>option]:text-slate-900">
+          {columns.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input value={value} onChange={(e) => setValue(e.target.value)} placeholder="New value" className="bg-white/10 placeholder-white/50 border-none rounded-xl px-3 py-2 text-xs font-bold outline-none w-40" />
+        <button onClick={() => onApply(column, value)} disabled={!column} className="px-4 py-2 bg-white text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:scale-105 transition-all disabled:opacity-50">Set Value</button>
+      </div>
+      <button onClick={onDelete} className="flex items-center gap-2 px-4 py-2 bg-rose-500 hover:bg-rose-600 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"><Trash2 size={14} /> Delete Rows</button>
+      <button onClick={onClear} className="ml-auto p-2 hover:bg-white/10 rounded-xl transition-all"><X size={16} /></button>
+    </div>
+  );
+};
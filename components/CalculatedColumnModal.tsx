@@ -0,0 +1,148 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CalculatedColumn, Dataset } from '../types';
+import { compileFormula, dateFormatsFromMetadata, FORMULA_FUNCTIONS, getBaseColumns, validateCalculatedColumns } from '../services/formulaEngine';
+import { AlertCircle, CheckCircle2, Sigma, Trash2, X } from 'lucide-react';
+
+interface CalculatedColumnModalProps {
+  dataset: Dataset;
+  column?: CalculatedColumn; // the column being edited, absent when adding
+  onSave: (column: CalculatedColumn, previousName?: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+const CATEGORIES = ['Math', 'Text', 'Date', 'Logic', 'Nulls'] as const;
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100';
+
+export const CalculatedColumnModal: React.FC<CalculatedColumnModalProps> = ({ dataset, column, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(column?.name || '');
+  const [expression, setExpression] = useState(column?.expression || '');
+  const [category, setCategory] = useState<typeof CATEGORIES[number]>('Math');
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const existing = dataset.calculatedColumns || [];
+  const baseColumns = getBaseColumns(dataset.columns, existing);
+  const candidate: CalculatedColumn = { name: name.trim(), expression };
+  const nextList = column ? existing.map(c => c.name === column.name ? candidate : c) : [...existing, candidate];
+  const position = nextList.indexOf(candidate);
+  const referenceable = [...baseColumns, ...nextList.slice(0, position).map(c => c.name)];
+
+  const error = expression.trim() ? validateCalculatedColumns(baseColumns, nextList) : null;
+
+  const preview = useMemo(() => {
+    if (error || !expression.trim()) return [];
+    const run = compileFormula(expression);
+    const dateFormats = dateFormatsFromMetadata(dataset.metadata);
+    return dataset.rows.slice(0, PREVIEW_ROW_COUNT).map(row => run(row, dateFormats));
+  }, [error, expression, dataset]);
+
+  const insertText = (text: string) => {
+    const el = editorRef.current;
+    const start = el?.selectionStart ?? expression.length;
+    const end = el?.selectionEnd ?? expression.length;
+    setExpression(expression.slice(0, start) + text + expression.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const columnToken = (col: string) => /^[A-Za-z_][\w.]*$/.test(col) ? col : `[${col}]`;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Sigma size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">{column ? 'Edit Calculated Column' : 'New Calculated Column'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Column Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="margin" className={inputClass} />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Formula</label>
+            <textarea
+              ref={editorRef}
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder="ROUND((revenue - cost) / revenue, 2)"
+              className={`${inputClass} font-mono resize-none`}
+            />
+            {error ? (
+              <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>
+            ) : expression.trim() ? (
+              <p className="flex items-center gap-2 text-xs font-bold text-emerald-600"><CheckCircle2 size={14} /> Formula is valid</p>
+            ) : null}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Columns</label>
+            <div className="flex flex-wrap gap-2">
+              {referenceable.map(col => (
+                <button key={col} onClick={() => insertText(columnToken(col))} className="px-3 py-1.5 rounded-xl text-xs font-black bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:text-indigo-600 transition-all">{col}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              {CATEGORIES.map(c => (
+                <button key={c} onClick={() => setCategory(c)} className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${category === c ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600'}`}>{c}</button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(FORMULA_FUNCTIONS).filter(([, fn]) => fn.category === category).map(([fnName, fn]) => (
+                <button key={fnName} onClick={() => insertText(`${fnName}(`)} className="text-left p-3 rounded-2xl bg-slate-50 dark:bg-slate-800/50 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-all">
+                  <p className="text-xs font-black font-mono text-slate-900 dark:text-slate-100">{fn.signature}</p>
+                  <p className="text-[11px] font-bold text-slate-400">{fn.description}</p>
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] font-bold text-slate-400">Operators: + - * / % ^, & joins text, = != &lt; &lt;= &gt; &gt;=, AND OR NOT. Wrap names with spaces in [brackets].</p>
+          </div>
+
+          {preview.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Preview</label>
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                {preview.map((value, i) => (
+                  <div key={i} className="px-4 py-2 flex justify-between text-xs font-bold">
+                    <span className="text-slate-400">Row {i + 1}</span>
+                    <span className="text-slate-900 dark:text-slate-100 font-mono">{value === null ? '—' : String(value)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          {column ? (
+            <button onClick={() => onDelete(column.name)} className="flex items-center justify-center gap-2 flex-1 py-3 font-black text-rose-500 hover:text-rose-600 transition-all uppercase text-[10px]"><Trash2 size={14} /> Delete Column</button>
+          ) : (
+            <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          )}
+          <button
+            onClick={() => onSave(candidate, column?.name)}
+            disabled={!!error || !name.trim() || !expression.trim()}
+            className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50"
+          >
+            {column ? 'Update Column' : 'Add Column'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { ChartConfig } from '../types';
+import { CHART_EXPORT_HEIGHT, CHART_EXPORT_WIDTH, renderChartExportSvg, ReportMetadata, reportFileName } from '../services/reportExport';
+import { downloadBlob, downloadText, svgToPng } from '../services/download';
+import { Download } from 'lucide-react';
+
+interface ChartExportMenuProps {
+  config: ChartConfig;
+  metadata: Omit<ReportMetadata, 'generatedAt'>;
+  tileFilters?: string[];
+  onError: (message: string) => void;
+  onExportData?: () => void; // opens the data export for the chart's points
+  className?: string;
+}
+
+/** PNG and SVG downloads for one chart, plus its underlying data when `onExportData` is given, drawn with the export renderer and captioned with the report metadata. */
+export const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ config, metadata, tileFilters, onError, onExportData, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const download = async (format: 'png' | 'svg') => {
+    setIsOpen(false);
+    const meta = { ...metadata, title: config.title, generatedAt: Date.now() };
+    const svg = renderChartExportSvg(config, meta, tileFilters);
+    const fileName = reportFileName(meta, format, config.title);
+    try {
+      if (format === 'svg') downloadText(svg, fileName, 'image/svg+xml');
+      else downloadBlob(await svgToPng(svg, CHART_EXPORT_WIDTH, CHART_EXPORT_HEIGHT), fileName);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button onClick={() => setIsOpen(prev => !prev)} title="Download chart" className="p-2 bg-white dark:bg-slate-800 text-slate-400 hover:text-indigo-600 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 transition-all"><Download size={14} /></button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-32 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-1">
+          {(['png', 'svg'] as const).map(format => (
+            <button key={format} onClick={() => download(format)} className="w-full text-left px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-slate-50 dark:hover:bg-slate-800">{format}</button>
+          ))}
+          {onExportData && <button onClick={() => { setIsOpen(false); onExportData(); }} className="w-full text-left px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-slate-50 dark:hover:bg-slate-800">Data</button>}
+        </div>
+      )}
+    </div>
+  );
+};
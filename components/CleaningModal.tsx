@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { CleaningActionType, CleaningParams, CleaningSuggestion, Dataset } from '../types';
+import { CLEANING_ACTION_LABELS, CLEANING_ACTIONS, describeCleaningAction, previewCleaning, validateCleaning, withDefaultParams } from '../services/cleaningEngine';
+import { getBaseColumns } from '../services/formulaEngine';
+import { AlertCircle, ArrowRight, Eye, EyeOff, Plus, RefreshCcw, ShieldCheck, Sparkle, Sparkles, X } from 'lucide-react';
+
+interface CleaningModalProps {
+  dataset: Dataset;
+  suggestions: CleaningSuggestion[];
+  onUpdate: (suggestion: CleaningSuggestion) => void; // adds the suggestion when its id is new
+  onApply: (suggestion: CleaningSuggestion) => void;
+  onReject: (suggestionId: string) => void;
+  onRescan: () => void;
+  isScanning: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 py-2 text-xs font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100';
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const formatValue = (value: any) => value === null || value === undefined || value === '' ? '∅' : String(value);
+
+interface ParamEditorProps {
+  suggestion: CleaningSuggestion;
+  columns: string[];
+  onChange: (params: CleaningParams) => void;
+}
+
+const ParamEditor: React.FC<ParamEditorProps> = ({ suggestion, columns, onChange }) => {
+  if (!suggestion.actionType) return null;
+  const p = withDefaultParams(suggestion.actionType, suggestion.column, suggestion.params);
+  const set = (patch: CleaningParams) => onChange({ ...p, ...patch });
+  const field = (label: string, control: React.ReactNode) => (
+    <div className="space-y-1 flex-1 min-w-[120px]"><label className={labelClass}>{label}</label>{control}</div>
+  );
+
+  switch (suggestion.actionType) {
+    case 'fill_nulls':
+      return (
+        <div className="flex gap-3">
+          {field('Strategy', (
+            <select value={p.fillStrategy} onChange={(e) => set({ fillStrategy: e.target.value as CleaningParams['fillStrategy'] })} className={inputClass}>
+              <option value="mean">Mean</option>
+              <option value="median">Median</option>
+              <option value="mode">Most frequent</option>
+              <option value="constant">Constant</option>
+              <option value="forward_fill">Previous value</option>
+            </select>
+          ))}
+          {p.fillStrategy === 'constant' && field('Value', <input value={p.fillValue || ''} onChange={(e) => set({ fillValue: e.target.value })} className={inputClass} />)}
+        </div>
+      );
+    case 'change_case':
+      return field('Case', (
+        <select value={p.caseStyle} onChange={(e) => set({ caseStyle: e.target.value as CleaningParams['caseStyle'] })} className={inputClass}>
+          <option value="lower">lower case</option>
+          <option value="upper">UPPER CASE</option>
+          <option value="title">Title Case</option>
+        </select>
+      ));
+    case 'find_replace':
+      return (
+        <div className="flex gap-3 items-end">
+          {field('Find', <input value={p.find || ''} onChange={(e) => set({ find: e.target.value })} className={`${inputClass} font-mono`} />)}
+          {field('Replace With', <input value={p.replace || ''} onChange={(e) => set({ replace: e.target.value })} className={`${inputClass} font-mono`} />)}
+          <label className="flex items-center gap-2 pb-2 text-[10px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">
+            <input type="checkbox" checked={!!p.useRegex} onChange={(e) => set({ useRegex: e.target.checked })} className="accent-indigo-600" /> Regex
+          </label>
+        </div>
+      );
+    case 'cap_outliers':
+      return (
+        <div className="flex gap-3">
+          {field('Method', (
+            <select value={p.capMethod} onChange={(e) => set({ capMethod: e.target.value as CleaningParams['capMethod'] })} className={inputClass}>
+              <option value="iqr">1.5× IQR fences</option>
+              <option value="percentile">Percentiles</option>
+            </select>
+          ))}
+          {p.capMethod === 'percentile' && field('Lower %', <input type="number" value={p.lowerPercentile} onChange={(e) => set({ lowerPercentile: Number(e.target.value) })} className={inputClass} />)}
+          {p.capMethod === 'percentile' && field('Upper %', <input type="number" value={p.upperPercentile} onChange={(e) => set({ upperPercentile: Number(e.target.value) })} className={inputClass} />)}
+        </div>
+      );
+    case 'split_column':
+      return (
+        <div className="flex gap-3">
+          {field('Delimiter', <input value={p.delimiter || ''} onChange={(e) => set({ delimiter: e.target.value })} className={`${inputClass} font-mono`} />)}
+          {field('New Columns (comma separated)', <input value={(p.newColumns || []).join(', ')} onChange={(e) => set({ newColumns: e.target.value.split(',').map(v => v.trim()) })} className={inputClass} />)}
+        </div>
+      );
+    case 'dedupe_by_key':
+      return (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className={labelClass}>Key Columns</label>
+            <div className="flex flex-wrap gap-2">
+              {columns.map(col => {
+                const active = p.keyColumns!.includes(col);
+                return <button key={col} onClick={() => set({ keyColumns: active ? p.keyColumns!.filter(k => k !== col) : [...p.keyColumns!, col] })} className={`px-3 py-1.5 rounded-xl text-xs font-black transition-all ${active ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:text-indigo-600'}`}>{col}</button>;
+              })}
+            </div>
+          </div>
+          {field('Keep', (
+            <select value={p.keep} onChange={(e) => set({ keep: e.target.value as CleaningParams['keep'] })} className={inputClass}>
+              <option value="first">First occurrence</option>
+              <option value="last">Last occurrence</option>
+            </select>
+          ))}
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+interface CleaningCardProps {
+  dataset: Dataset;
+  columns: string[];
+  suggestion: CleaningSuggestion;
+  onUpdate: (suggestion: CleaningSuggestion) => void;
+  onApply: (suggestion: CleaningSuggestion) => void;
+  onReject: (suggestionId: string) => void;
+}
+
+const CleaningCard: React.FC<CleaningCardProps> = ({ dataset, columns, suggestion, onUpdate, onApply, onReject }) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const error = validateCleaning(suggestion, columns);
+
+  const preview = useMemo(() => showPreview && !error ? previewCleaning(dataset, suggestion) : null, [showPreview, error, dataset, suggestion]);
+
+  const changeAction = (actionType: CleaningActionType | '') => onUpdate({ ...suggestion, actionType: actionType || undefined, params: undefined });
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border dark:border-slate-800 shadow-sm flex flex-col justify-between group">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <div className="px-3 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-500 inline-block">{suggestion.severity} PRIORITY</div>
+          {suggestion.source === 'rules' && <div className="px-3 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 inline-flex items-center gap-1"><ShieldCheck size={10} /> Rule · {(suggestion.affectedRows ?? 0).toLocaleString()} rows</div>}
+          {suggestion.source === 'ai' && <div className="px-3 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-violet-50 text-violet-600 inline-flex items-center gap-1"><Sparkles size={10} /> AI · from sample</div>}
+        </div>
+        <h4 className="text-lg font-black text-slate-900 dark:text-slate-100 leading-tight">{suggestion.issue}</h4>
+        {suggestion.suggestion && <p className="text-sm font-medium text-slate-500 dark:text-slate-400 leading-relaxed italic border-l-2 border-indigo-200 dark:border-indigo-800 pl-4">"{suggestion.suggestion}"</p>}
+
+        <div className="flex gap-3">
+          <div className="space-y-1 flex-1">
+            <label className={labelClass}>Action</label>
+            <select value={suggestion.actionType || ''} onChange={(e) => changeAction(e.target.value as CleaningActionType | '')} className={inputClass}>
+              <option value="">No automatic fix</option>
+              {CLEANING_ACTIONS.map(a => <option key={a} value={a}>{CLEANING_ACTION_LABELS[a]}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1 flex-1">
+            <label className={labelClass}>Column</label>
+            <select value={suggestion.column} onChange={(e) => onUpdate({ ...suggestion, column: e.target.value })} className={inputClass}>
+              {!columns.includes(suggestion.column) && <option value={suggestion.column}>{suggestion.column || '—'}</option>}
+              {columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <ParamEditor suggestion={suggestion} columns={columns} onChange={(params) => onUpdate({ ...suggestion, params })} />
+
+        {error ? (
+          <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>
+        ) : (
+          <p className="text-xs font-bold text-slate-400">{describeCleaningAction(suggestion)}</p>
+        )}
+
+        {preview && (
+          <div className="space-y-3 animate-in fade-in duration-200">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-3"><p className="text-lg font-black text-slate-900 dark:text-slate-100">{preview.affectedRows.toLocaleString()}</p><p className={labelClass}>Rows Affected</p></div>
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-3"><p className="text-lg font-black text-slate-900 dark:text-slate-100">{preview.changedCells.toLocaleString()}</p><p className={labelClass}>Cells Changed</p></div>
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-3"><p className={`text-lg font-black ${preview.removedRows ? 'text-rose-500' : 'text-slate-900 dark:text-slate-100'}`}>{preview.removedRows.toLocaleString()}</p><p className={labelClass}>Rows Removed</p></div>
+            </div>
+            {preview.addedColumns.length > 0 && <p className="text-xs font-bold text-emerald-600">Adds {preview.addedColumns.join(', ')}</p>}
+            {preview.samples.length > 0 && (
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                {preview.samples.map((c, i) => (
+                  <div key={i} className="px-4 py-2 flex items-center gap-3 text-xs font-bold">
+                    <span className="text-slate-400 w-20 truncate">{c.column}</span>
+                    <span className="flex-1 truncate text-rose-500 line-through font-mono">{formatValue(c.before)}</span>
+                    <ArrowRight size={12} className="text-slate-300 shrink-0" />
+                    <span className="flex-1 truncate text-emerald-600 font-mono">{formatValue(c.after)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {preview.removedSamples.length > 0 && (
+              <div className="bg-rose-50/50 dark:bg-rose-900/10 rounded-2xl divide-y divide-rose-100 dark:divide-rose-900/20">
+                {preview.removedSamples.map((row, i) => (
+                  <div key={i} className="px-4 py-2 text-xs font-bold text-rose-500 font-mono truncate">{Object.values(row).map(formatValue).join(' · ')}</div>
+                ))}
+              </div>
+            )}
+            {preview.affectedRows === 0 && <p className="text-xs font-bold text-slate-400">No rows would change.</p>}
+          </div>
+        )}
+      </div>
+      <div className="mt-8 flex gap-3">
+        <button onClick={() => setShowPreview(v => !v)} disabled={!!error} className="px-5 py-3 border border-slate-200 dark:border-slate-800 text-slate-500 dark:text-slate-400 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all disabled:opacity-50">{showPreview ? <EyeOff size={14} /> : <Eye size={14} />} Preview</button>
+        <button onClick={() => onApply(suggestion)} disabled={!!error} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-600/20 hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50">Accept Fix</button>
+        <button onClick={() => onReject(suggestion.id)} className="px-5 py-3 border border-slate-200 dark:border-slate-800 text-slate-400 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-800 transition-all"><X size={16} /></button>
+      </div>
+    </div>
+  );
+};
+
+export const CleaningModal: React.FC<CleaningModalProps> = ({ dataset, suggestions, onUpdate, onApply, onReject, onRescan, isScanning, onClose }) => {
+  const columns = getBaseColumns(dataset.columns, dataset.calculatedColumns);
+
+  const addManualAction = () => onUpdate({
+    id: Math.random().toString(36).substr(2, 9),
+    column: columns[0] || '',
+    issue: 'Manual cleaning step',
+    suggestion: '',
+    severity: 'low',
+    actionType: 'fill_nulls'
+  });
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-4xl bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-10 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-2xl bg-indigo-600 text-white flex items-center justify-center shadow-lg shadow-indigo-600/20"><Sparkle size={20} /></div>
+            <h2 className="text-3xl font-black tracking-tighter text-slate-900 dark:text-slate-100 uppercase">Power Clean AI</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onRescan} disabled={isScanning} className="flex items-center gap-2 px-5 py-3 border border-slate-200 dark:border-slate-800 text-slate-500 dark:text-slate-400 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 dark:hover:bg-slate-800 transition-all disabled:opacity-50"><RefreshCcw size={14} className={isScanning ? 'animate-spin' : ''} /> {isScanning ? 'Asking AI…' : 'Re-scan'}</button>
+            <button onClick={onClose} className="p-3 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-2xl transition-all dark:text-slate-400"><X size={24}/></button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-10 space-y-8 bg-slate-50/50 dark:bg-slate-950/50">
+          {suggestions.length === 0 && !isScanning && (
+            <p className="flex items-center justify-center gap-2 text-sm font-bold text-slate-400"><ShieldCheck size={16} className="text-emerald-500" /> No data-quality issues found in {dataset.rows.length.toLocaleString()} rows.</p>
+          )}
+          {suggestions.map(s => (
+            <CleaningCard key={s.id} dataset={dataset} columns={columns} suggestion={s} onUpdate={onUpdate} onApply={onApply} onReject={onReject} />
+          ))}
+          <button onClick={addManualAction} className="w-full py-6 rounded-[2.5rem] border-2 border-dashed border-slate-200 dark:border-slate-800 text-slate-400 hover:text-indigo-600 hover:border-indigo-300 font-black text-xs uppercase tracking-widest flex items-center justify-center gap-2 transition-all"><Plus size={16} /> Add Cleaning Step</button>
+        </div>
+        <div className="p-10 bg-slate-50 dark:bg-slate-950 flex justify-end border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 px-10 py-4 rounded-2xl font-black shadow-xl hover:scale-105 transition-all text-xs uppercase tracking-widest">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
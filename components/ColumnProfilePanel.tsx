@@ -0,0 +1,107 @@
+import React from 'react';
+import { ColumnMetadata } from '../types';
+import { BarChart3, X } from 'lucide-react';
+
+interface ColumnProfilePanelProps {
+  column: string;
+  metadata?: ColumnMetadata;
+  rowCount: number;
+  onClose: () => void;
+}
+
+const formatNumber = (value?: number) => value === undefined || isNaN(value) ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const StatCell: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+    <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 mb-1">{label}</p>
+    <p className="text-lg font-black text-slate-900 dark:text-slate-100 truncate">{value}</p>
+  </div>
+);
+
+export const ColumnProfilePanel: React.FC<ColumnProfilePanelProps> = ({ column, metadata, rowCount, onClose }) => {
+  const maxBinCount = Math.max(1, ...(metadata?.histogram || []).map(b => b.count));
+  const maxTopCount = Math.max(1, ...(metadata?.topValues || []).map(t => t.count));
+
+  return (
+    <div className="fixed top-14 right-0 bottom-0 w-[380px] z-[90] bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-right-10 duration-300">
+      <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-start">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2"><BarChart3 size={14} /> Column Profile</div>
+          <h3 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100 truncate">{column}</h3>
+          {metadata && (
+            <span className="inline-block mt-2 px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400">
+              {metadata.type}{metadata.dateFormat ? ` · ${metadata.dateFormat.toUpperCase()}` : ''}
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+      </div>
+
+      {!metadata ? (
+        <p className="p-8 text-sm font-bold text-slate-400">This column has not been profiled yet.</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          <div className="grid grid-cols-2 gap-3">
+            <StatCell label="Nulls" value={`${metadata.nullCount.toLocaleString()} (${rowCount ? ((metadata.nullCount / rowCount) * 100).toFixed(1) : '0'}%)`} />
+            <StatCell label="Distinct" value={(metadata.uniqueValues ?? 0).toLocaleString()} />
+            {metadata.stats && (
+              <>
+                <StatCell label="Min" value={formatNumber(metadata.stats.min)} />
+                <StatCell label="Max" value={formatNumber(metadata.stats.max)} />
+                <StatCell label="Mean" value={formatNumber(metadata.stats.avg)} />
+                <StatCell label="Std Dev" value={formatNumber(metadata.stats.stdDev)} />
+                <StatCell label="Q1" value={formatNumber(metadata.stats.q1)} />
+                <StatCell label="Median" value={formatNumber(metadata.stats.median)} />
+                <StatCell label="Q3" value={formatNumber(metadata.stats.q3)} />
+                <StatCell label="Sum" value={formatNumber(metadata.stats.sum)} />
+              </>
+            )}
+            {metadata.dateRange && (
+              <>
+                <StatCell label="Earliest" value={metadata.dateRange.min} />
+                <StatCell label="Latest" value={metadata.dateRange.max} />
+              </>
+            )}
+          </div>
+
+          {metadata.histogram && metadata.histogram.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Distribution</h4>
+              <div className="flex items-end gap-1 h-32">
+                {metadata.histogram.map((bin, i) => (
+                  <div
+                    key={i}
+                    title={`${formatNumber(bin.start)} – ${formatNumber(bin.end)}: ${bin.count.toLocaleString()}`}
+                    className="flex-1 bg-indigo-500/80 hover:bg-indigo-600 rounded-t transition-colors"
+                    style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] font-bold text-slate-400">
+                <span>{formatNumber(metadata.histogram[0].start)}</span>
+                <span>{formatNumber(metadata.histogram[metadata.histogram.length - 1].end)}</span>
+              </div>
+            </div>
+          )}
+
+          {metadata.topValues.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Top Values</h4>
+              {metadata.topValues.map(t => (
+                <div key={t.value} className="space-y-1">
+                  <div className="flex justify-between text-xs font-bold text-slate-600 dark:text-slate-300">
+                    <span className="truncate pr-4">{t.value}</span>
+                    <span className="shrink-0">{t.count.toLocaleString()}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-600" style={{ width: `${(t.count / maxTopCount) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
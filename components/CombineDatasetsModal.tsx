@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppendDerivation, Dataset, DatasetDerivation, JoinKey, JoinType } from '../types';
+import { appendColumns, appendDatasets, JOIN_TYPE_LABELS, joinDatasets, suggestColumnMap } from '../services/datasetCombiner';
+import { AlertCircle, GitMerge, Loader2, Plus, Rows3, Trash2, X } from 'lucide-react';
+
+interface CombineDatasetsModalProps {
+  datasets: Dataset[];
+  activeDatasetId: string | null;
+  onLoadRows: (datasetId: string) => Promise<unknown>;
+  onCreate: (name: string, derivation: DatasetDerivation) => void;
+  onClose: () => void;
+}
+
+type Mode = 'join' | 'append';
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold text-sm focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100';
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const percent = (part: number, total: number) => total ? `${Math.round((part / total) * 100)}%` : '—';
+
+export const CombineDatasetsModal: React.FC<CombineDatasetsModalProps> = ({ datasets, activeDatasetId, onLoadRows, onCreate, onClose }) => {
+  const first = datasets.find(d => d.id === activeDatasetId) || datasets[0];
+  const [mode, setMode] = useState<Mode>('join');
+  const [leftId, setLeftId] = useState(first?.id || '');
+  const [rightId, setRightId] = useState(datasets.find(d => d.id !== first?.id)?.id || '');
+  const [keys, setKeys] = useState<JoinKey[]>([]);
+  const [joinType, setJoinType] = useState<JoinType>('left');
+  const [sourceIds, setSourceIds] = useState<string[]>(first ? [first.id] : []);
+  const [columnMaps, setColumnMaps] = useState<AppendDerivation['columnMaps']>({});
+  const [sourceColumn, setSourceColumn] = useState('source');
+  const [tagSource, setTagSource] = useState(true);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const left = datasets.find(d => d.id === leftId);
+  const right = datasets.find(d => d.id === rightId);
+  const sources = sourceIds.map(id => datasets.find(d => d.id === id)).filter((d): d is Dataset => !!d);
+  const selectedIds = mode === 'join' ? [leftId, rightId].filter(Boolean) : sourceIds;
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all(selectedIds.map(onLoadRows)).finally(() => setIsLoading(false));
+  }, [selectedIds.join('|')]);
+
+  // Start each new pair of datasets with the columns they share as keys.
+  useEffect(() => {
+    if (!left || !right) return;
+    const shared = left.columns.filter(c => right.columns.includes(c));
+    setKeys(shared.length ? [{ left: shared[0], right: shared[0] }] : [{ left: left.columns[0], right: right.columns[0] }]);
+  }, [leftId, rightId]);
+
+  const toggleSource = (id: string) => {
+    if (sourceIds.includes(id)) {
+      setSourceIds(sourceIds.filter(s => s !== id));
+      return;
+    }
+    const target = sources[0]?.columns || [];
+    const dataset = datasets.find(d => d.id === id)!;
+    setColumnMaps(prev => ({ ...prev, [id]: prev[id] || suggestColumnMap(dataset, target) }));
+    setSourceIds([...sourceIds, id]);
+  };
+
+  const mapColumn = (datasetId: string, column: string, target: string) =>
+    setColumnMaps(prev => ({ ...prev, [datasetId]: { ...(prev[datasetId] || {}), [column]: target } }));
+
+  const updateKey = (index: number, patch: Partial<JoinKey>) => setKeys(keys.map((k, i) => i === index ? { ...k, ...patch } : k));
+
+  const joinDiagnostics = useMemo(() => {
+    if (mode !== 'join' || isLoading || !left || !right || keys.length === 0) return null;
+    return joinDatasets(left, right, keys, joinType).diagnostics;
+  }, [mode, isLoading, left, right, keys, joinType]);
+
+  const appendDiagnostics = useMemo(() => {
+    if (mode !== 'append' || isLoading || sources.length < 2) return null;
+    return appendDatasets(sources, columnMaps, tagSource ? sourceColumn : undefined).diagnostics;
+  }, [mode, isLoading, sourceIds, datasets, columnMaps, tagSource, sourceColumn]);
+
+  const outputColumns = mode === 'append' ? appendColumns(sources, columnMaps, tagSource ? sourceColumn : undefined) : [];
+
+  const error = mode === 'join'
+    ? !left || !right ? 'Choose two datasets.' : leftId === rightId ? 'Choose two different datasets.' : keys.length === 0 ? 'Add at least one key.' : null
+    : sources.length < 2 ? 'Choose at least two datasets.' : tagSource && !sourceColumn.trim() ? 'Name the source column.' : null;
+
+  const defaultName = mode === 'join' ? `${left?.name || ''} + ${right?.name || ''}` : sources.map(s => s.name).join(' + ');
+
+  const create = () => {
+    const derivation: DatasetDerivation = mode === 'join'
+      ? { kind: 'join', leftId, rightId, keys, joinType }
+      : { kind: 'append', sourceIds, columnMaps: Object.fromEntries(sourceIds.map(id => [id, columnMaps[id] || {}])), sourceColumn: tagSource ? sourceColumn.trim() : undefined };
+    onCreate(name.trim() || defaultName, derivation);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <GitMerge size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Combine Datasets</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="flex bg-slate-50 dark:bg-slate-800 rounded-2xl p-1">
+            {(['join', 'append'] as Mode[]).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{m === 'join' ? 'Join on Keys' : 'Append Rows'}</button>
+            ))}
+          </div>
+
+          {mode === 'join' ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Left Dataset</label>
+                  <select value={leftId} onChange={(e) => setLeftId(e.target.value)} className={inputClass}>
+                    {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Right Dataset</label>
+                  <select value={rightId} onChange={(e) => setRightId(e.target.value)} className={inputClass}>
+                    {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Match On</label>
+                {keys.map((k, i) => (
+                  <div key={i} className="flex items-center gap-3">
+                    <select value={k.left} onChange={(e) => updateKey(i, { left: e.target.value })} className={inputClass}>
+                      {left?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <span className="font-black text-slate-400">=</span>
+                    <select value={k.right} onChange={(e) => updateKey(i, { right: e.target.value })} className={inputClass}>
+                      {right?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button onClick={() => setKeys(keys.filter((_, j) => j !== i))} className="p-2 text-slate-400 hover:text-rose-500 transition-all"><Trash2 size={16} /></button>
+                  </div>
+                ))}
+                {left && right && (
+                  <button onClick={() => setKeys([...keys, { left: left.columns[0], right: right.columns[0] }])} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700 transition-all"><Plus size={14} /> Add Key</button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Join Type</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(t => (
+                    <button key={t} onClick={() => setJoinType(t)} className={`p-3 rounded-2xl border-2 text-xs font-black transition-all ${joinType === t ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600' : 'border-slate-100 dark:border-slate-800 text-slate-400'}`}>{JOIN_TYPE_LABELS[t]}</button>
+                  ))}
+                </div>
+              </div>
+
+              {joinDiagnostics && (
+                <div className="space-y-3">
+                  <label className={labelClass}>Match Diagnostics</label>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4"><p className="text-2xl font-black text-slate-900 dark:text-slate-100">{percent(joinDiagnostics.matchedLeftRows, joinDiagnostics.leftRows)}</p><p className={labelClass}>Left Rows Matched</p><p className="text-[10px] font-bold text-slate-400">{joinDiagnostics.matchedLeftRows.toLocaleString()} of {joinDiagnostics.leftRows.toLocaleString()}</p></div>
+                    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4"><p className="text-2xl font-black text-slate-900 dark:text-slate-100">{percent(joinDiagnostics.matchedRightRows, joinDiagnostics.rightRows)}</p><p className={labelClass}>Right Rows Matched</p><p className="text-[10px] font-bold text-slate-400">{joinDiagnostics.matchedRightRows.toLocaleString()} of {joinDiagnostics.rightRows.toLocaleString()}</p></div>
+                    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4"><p className="text-2xl font-black text-slate-900 dark:text-slate-100">{joinDiagnostics.outputRows.toLocaleString()}</p><p className={labelClass}>Output Rows</p></div>
+                  </div>
+                  {joinDiagnostics.duplicateRightKeys > 0 && (
+                    <p className="flex items-center gap-2 text-xs font-bold text-amber-600"><AlertCircle size={14} /> {joinDiagnostics.duplicateRightKeys.toLocaleString()} keys match several right rows, so their left rows will repeat.</p>
+                  )}
+                  {joinDiagnostics.unmatchedLeftSamples.length > 0 && <p className="text-xs font-bold text-slate-400">Unmatched left keys: {joinDiagnostics.unmatchedLeftSamples.join(', ')}</p>}
+                  {joinDiagnostics.unmatchedRightSamples.length > 0 && <p className="text-xs font-bold text-slate-400">Unmatched right keys: {joinDiagnostics.unmatchedRightSamples.join(', ')}</p>}
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <label className={labelClass}>Datasets, In Order</label>
+                <div className="flex flex-wrap gap-2">
+                  {datasets.map(d => {
+                    const position = sourceIds.indexOf(d.id);
+                    return <button key={d.id} onClick={() => toggleSource(d.id)} className={`px-3 py-1.5 rounded-xl text-xs font-black transition-all ${position >= 0 ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:text-indigo-600'}`}>{position >= 0 ? `${position + 1}. ` : ''}{d.name}</button>;
+                  })}
+                </div>
+              </div>
+
+              {sources.slice(1).map(s => (
+                <div key={s.id} className="space-y-2">
+                  <label className={labelClass}>Map Columns of {s.name}</label>
+                  <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                    {s.columns.map(c => (
+                      <div key={c} className="px-4 py-2 flex items-center gap-3 text-xs font-bold">
+                        <span className="flex-1 truncate text-slate-500 dark:text-slate-400">{c}</span>
+                        <span className="text-slate-300">→</span>
+                        <select value={columnMaps[s.id]?.[c] ?? c} onChange={(e) => mapColumn(s.id, c, e.target.value)} className="flex-1 bg-white dark:bg-slate-900 border-none rounded-xl px-3 py-1.5 text-xs font-bold outline-none dark:text-slate-100">
+                          <option value="">(drop column)</option>
+                          {[...new Set([...sources[0].columns, c])].map(t => <option key={t} value={t}>{t === c && !sources[0].columns.includes(c) ? `${t} (new column)` : t}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <label className="flex items-center gap-3 text-sm font-bold text-slate-500 dark:text-slate-400">
+                <input type="checkbox" checked={tagSource} onChange={(e) => setTagSource(e.target.checked)} className="accent-indigo-600" />
+                Record each row's source dataset in
+                <input value={sourceColumn} onChange={(e) => setSourceColumn(e.target.value)} disabled={!tagSource} className="bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 py-1.5 text-xs font-bold outline-none w-32 disabled:opacity-50 dark:text-slate-100" />
+              </label>
+
+              {appendDiagnostics && (
+                <div className="space-y-3">
+                  <label className={labelClass}>Append Diagnostics · {appendDiagnostics.outputRows.toLocaleString()} rows · {outputColumns.length} columns</label>
+                  <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                    {appendDiagnostics.sources.map(s => (
+                      <div key={s.id} className="px-4 py-3 text-xs font-bold">
+                        <div className="flex justify-between"><span className="flex items-center gap-2 text-slate-900 dark:text-slate-100"><Rows3 size={14} className="text-slate-400" /> {s.name}</span><span className="text-slate-400">{s.rows.toLocaleString()} rows</span></div>
+                        {s.missingColumns.length > 0 && <p className="mt-1 text-amber-600">Left empty: {s.missingColumns.join(', ')}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {isLoading && <p className="flex items-center gap-2 text-xs font-bold text-slate-400"><Loader2 size={14} className="animate-spin" /> Loading rows…</p>}
+
+          <div className="space-y-2">
+            <label className={labelClass}>New Dataset Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder={defaultName} className={inputClass} />
+          </div>
+          {error && <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={create} disabled={!!error || isLoading} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50">Create Dataset</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { DashboardTile } from '../types';
+import { clampTileSize, GRID_COLUMNS, GRID_ROW_HEIGHT, tileRows } from '../services/dashboardLayout';
+import { GripVertical, X } from 'lucide-react';
+
+interface DashboardGridProps {
+  tiles: DashboardTile[];
+  highlightedTileId?: string;
+  renderTile: (tile: DashboardTile) => React.ReactNode;
+  onMove: (sourceId: string, targetId: string) => void;
+  onResize: (tileId: string, w: number, h: number) => void;
+  onRemove: (tileId: string) => void;
+}
+
+const GRID_GAP = 32; // matches gap-8
+
+/**
+ * Four-column canvas. Tiles keep their array order and span whole grid cells,
+ * so dragging reorders them and resizing snaps to the nearest cell; the grid
+ * backfills gaps left by tall or wide tiles.
+ */
+export const DashboardGrid: React.FC<DashboardGridProps> = ({ tiles, highlightedTileId, renderTile, onMove, onResize, onRemove }) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [resizing, setResizing] = useState<{ id: string, w: number, h: number } | null>(null);
+
+  const startResize = (e: React.MouseEvent, tile: DashboardTile) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const grid = gridRef.current;
+    if (!grid) return;
+    const cellWidth = (grid.clientWidth - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS + GRID_GAP;
+    const cellHeight = GRID_ROW_HEIGHT + GRID_GAP;
+    const start = { x: e.pageX, y: e.pageY, w: tile.w, h: tileRows(tile) };
+    let latest = { w: start.w, h: start.h };
+
+    const onMouseMove = (ev: MouseEvent) => {
+      latest = clampTileSize(start.w + (ev.pageX - start.x) / cellWidth, start.h + (ev.pageY - start.y) / cellHeight);
+      setResizing({ id: tile.id, ...latest });
+    };
+    const onMouseUp = () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+      setResizing(null);
+      if (latest.w !== start.w || latest.h !== start.h) onResize(tile.id, latest.w, latest.h);
+    };
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+  };
+
+  const drop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    const sourceId = e.dataTransfer.getData('tile');
+    if (sourceId && sourceId !== targetId) onMove(sourceId, targetId);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div ref={gridRef} className="grid grid-cols-4 gap-8" style={{ gridAutoRows: GRID_ROW_HEIGHT, gridAutoFlow: 'row dense' }}>
+      {tiles.map(tile => {
+        const size = resizing?.id === tile.id ? resizing : { w: tile.w, h: tileRows(tile) };
+        return (
+          <div
+            key={tile.id}
+            onDragOver={(e) => { if (draggedId) { e.preventDefault(); setDropTargetId(tile.id); } }}
+            onDragLeave={() => setDropTargetId(prev => prev === tile.id ? null : prev)}
+            onDrop={(e) => drop(e, tile.id)}
+            style={{ gridColumn: `span ${size.w}`, gridRow: `span ${size.h}` }}
+            className={`relative group min-h-0 rounded-[2rem] animate-in zoom-in-95 duration-500 transition-shadow ${draggedId === tile.id ? 'opacity-30' : ''} ${dropTargetId === tile.id && draggedId !== tile.id ? 'ring-4 ring-indigo-600/50' : highlightedTileId === tile.id ? 'ring-4 ring-indigo-600/30' : ''} ${resizing?.id === tile.id ? 'outline-dashed outline-2 outline-indigo-600' : ''}`}
+          >
+            <div className="h-full overflow-hidden rounded-[2rem]">{renderTile(tile)}</div>
+            <div
+              draggable
+              onDragStart={(e) => { e.dataTransfer.setData('tile', tile.id); setDraggedId(tile.id); }}
+              onDragEnd={() => { setDraggedId(null); setDropTargetId(null); }}
+              title="Drag to reorder"
+              className="absolute top-3 left-1/2 -translate-x-1/2 p-1.5 rounded-lg bg-white dark:bg-slate-800 text-slate-400 hover:text-indigo-600 shadow border border-slate-200 dark:border-slate-700 cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-100 transition-all"
+            >
+              <GripVertical size={14} className="rotate-90" />
+            </div>
+            <button onClick={() => onRemove(tile.id)} className="absolute -top-3 -right-3 p-2 bg-white dark:bg-slate-800 text-slate-400 hover:text-rose-600 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 opacity-0 group-hover:opacity-100 transition-all"><X size={16} /></button>
+            <div
+              onMouseDown={(e) => startResize(e, tile)}
+              title={`${size.w} × ${size.h} · drag to resize`}
+              className="absolute bottom-2 right-2 w-5 h-5 cursor-se-resize opacity-0 group-hover:opacity-100 transition-all border-r-4 border-b-4 border-slate-300 dark:border-slate-600 hover:border-indigo-600 rounded-br-lg"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { DashboardPage } from '../types';
+import { Plus, X } from 'lucide-react';
+
+interface DashboardPageTabsProps {
+  pages: DashboardPage[];
+  activePageId: string;
+  onSelect: (pageId: string) => void;
+  onAdd: () => void;
+  onRename: (pageId: string, name: string) => void;
+  onRemove: (pageId: string) => void;
+}
+
+export const DashboardPageTabs: React.FC<DashboardPageTabsProps> = ({ pages, activePageId, onSelect, onAdd, onRename, onRemove }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {pages.map(page => {
+        const isActive = page.id === activePageId;
+        return (
+          <div key={page.id} className={`group flex items-center gap-1 pl-4 pr-2 py-2 rounded-2xl text-xs font-black transition-all ${isActive ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'bg-white dark:bg-slate-900 text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-slate-800 hover:text-indigo-600'}`}>
+            {editingId === page.id ? (
+              <input
+                autoFocus
+                defaultValue={page.name}
+                onBlur={(e) => { onRename(page.id, e.target.value.trim() || page.name); setEditingId(null); }}
+                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === 'Escape') (e.target as HTMLInputElement).blur(); }}
+                className="w-32 bg-transparent border-none outline-none"
+              />
+            ) : (
+              <button onClick={() => onSelect(page.id)} onDoubleClick={() => setEditingId(page.id)} title="Double-click to rename">{page.name}</button>
+            )}
+            {pages.length > 1 && (
+              <button onClick={() => onRemove(page.id)} title="Delete page and its tiles" className={`p-1 rounded-lg opacity-0 group-hover:opacity-100 transition-all ${isActive ? 'hover:bg-white/20' : 'hover:text-rose-600'}`}><X size={12} /></button>
+            )}
+          </div>
+        );
+      })}
+      <button onClick={onAdd} className="flex items-center gap-2 px-4 py-2 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20 transition-all"><Plus size={12} /> Page</button>
+    </div>
+  );
+};
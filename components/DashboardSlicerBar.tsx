@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { DashboardSlicer, Dataset } from '../types';
+import { CrossFilter } from '../services/tileBinding';
+import { isNullish } from '../services/profiler';
+import { ChevronRight, ListFilter, MousePointerClick, Plus, Table as TableIcon, X } from 'lucide-react';
+
+interface DashboardSlicerBarProps {
+  dataset: Dataset;
+  slicers: DashboardSlicer[];
+  crossFilter: CrossFilter | null;
+  onChange: (slicers: DashboardSlicer[]) => void;
+  onClearCrossFilter: () => void;
+  onOpenCrossFilter: () => void; // shows the cross-filtered rows in the data explorer
+}
+
+// Slicers list at most this many values; columns with more are better filtered in the data explorer.
+const SLICER_VALUE_LIMIT = 200;
+
+const SlicerControl: React.FC<{ slicer: DashboardSlicer; rows: any[]; onChange: (values: string[]) => void; onRemove: () => void }> = ({ slicer, rows, onChange, onRemove }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const options = useMemo(() => {
+    const values = new Set<string>();
+    rows.forEach(r => { if (!isNullish(r[slicer.column])) values.add(String(r[slicer.column])); });
+    return [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })).slice(0, SLICER_VALUE_LIMIT);
+  }, [rows, slicer.column]);
+
+  const toggle = (value: string) => onChange(slicer.values.includes(value) ? slicer.values.filter(v => v !== value) : [...slicer.values, value]);
+  const summary = slicer.values.length === 0 ? 'All' : slicer.values.length <= 2 ? slicer.values.join(', ') : `${slicer.values.length} selected`;
+
+  return (
+    <div className="relative">
+      <div className={`flex items-center gap-2 pl-4 pr-2 py-2 rounded-2xl border-2 text-xs font-bold transition-all ${slicer.values.length ? 'border-indigo-600/30 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400' : 'border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300'}`}>
+        <button onClick={() => setIsOpen(prev => !prev)} className="flex items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{slicer.column}</span>
+          <span className="max-w-[160px] truncate">{summary}</span>
+          <ChevronRight size={12} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        </button>
+        <button onClick={onRemove} className="p-1 rounded-lg text-slate-400 hover:text-rose-600 transition-colors"><X size={12} /></button>
+      </div>
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-64 max-h-72 overflow-y-auto z-30 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-2">
+          <button onClick={() => onChange([])} className={`w-full text-left px-3 py-2 rounded-xl text-xs font-black ${slicer.values.length === 0 ? 'text-indigo-600' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800'}`}>All values</button>
+          {options.map(value => (
+            <label key={value} className="flex items-center gap-3 px-3 py-2 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+              <input type="checkbox" checked={slicer.values.includes(value)} onChange={() => toggle(value)} className="accent-indigo-600" />
+              <span className="truncate">{value}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DashboardSlicerBar: React.FC<DashboardSlicerBarProps> = ({ dataset, slicers, crossFilter, onChange, onClearCrossFilter, onOpenCrossFilter }) => {
+  const available = dataset.columns.filter(c => !slicers.some(s => s.column === c));
+
+  const addSlicer = (column: string) => {
+    if (!column) return;
+    onChange([...slicers, { id: Math.random().toString(36).substr(2, 9), column, values: [] }]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400"><ListFilter size={14} /> Slicers</span>
+      {slicers.map(slicer => (
+        <SlicerControl
+          key={slicer.id}
+          slicer={slicer}
+          rows={dataset.rows}
+          onChange={(values) => onChange(slicers.map(s => s.id === slicer.id ? { ...s, values } : s))}
+          onRemove={() => onChange(slicers.filter(s => s.id !== slicer.id))}
+        />
+      ))}
+      {available.length > 0 && (
+        <label className="relative flex items-center gap-2 px-4 py-2 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-600/20 transition-all cursor-pointer">
+          <Plus size={12} /> Add Slicer
+          <select value="" onChange={(e) => addSlicer(e.target.value)} className="absolute inset-0 opacity-0 cursor-pointer">
+            <option value="" disabled>Choose a column</option>
+            {available.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      )}
+      {crossFilter && (
+        <div className="flex items-center gap-2 pl-4 pr-2 py-2 rounded-2xl bg-indigo-600 text-white text-xs font-bold shadow-lg shadow-indigo-600/20">
+          <MousePointerClick size={14} />
+          <span>{crossFilter.column}: {isNullish(crossFilter.value) ? '(blank)' : String(crossFilter.value)}</span>
+          <button onClick={onOpenCrossFilter} title="Show these rows in the data explorer" className="p-1 rounded-lg hover:bg-white/20 transition-colors"><TableIcon size={12} /></button>
+          <button onClick={onClearCrossFilter} title="Clear cross-filter" className="p-1 rounded-lg hover:bg-white/20 transition-colors"><X size={12} /></button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { CsvDelimiter, DataExportFormat, DataExportOptions } from '../types';
+import { DATA_EXPORT_FORMATS, DataExportSource, DEFAULT_DATA_EXPORT_OPTIONS, serializeTable } from '../services/dataExport';
+import { ReportMetadata, reportFileName } from '../services/reportExport';
+import { downloadBlob } from '../services/download';
+import { AlertCircle, FileDown, Loader2, X } from 'lucide-react';
+
+interface DataExportModalProps {
+  sources: DataExportSource[];
+  metadata: Omit<ReportMetadata, 'generatedAt'>;
+  onExported: (message: string) => void;
+  onClose: () => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+  { value: '\t', label: 'Tab' }
+];
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+const selectClass = 'w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 text-sm font-bold dark:text-slate-100 outline-none focus:ring-4 focus:ring-indigo-500/10';
+
+export const DataExportModal: React.FC<DataExportModalProps> = ({ sources, metadata, onExported, onClose }) => {
+  const [sourceId, setSourceId] = useState(sources[0]?.id);
+  const [options, setOptions] = useState<DataExportOptions>(DEFAULT_DATA_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = sources.find(s => s.id === sourceId) || sources[0];
+  const isDelimited = options.format === 'csv' || options.format === 'tsv';
+  const update = (patch: Partial<DataExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const runExport = () => {
+    if (!source) return;
+    setIsExporting(true);
+    setError(null);
+    // Let the spinner paint before serialising, which blocks on large tables.
+    setTimeout(() => {
+      try {
+        const table = source.table();
+        const format = DATA_EXPORT_FORMATS[options.format];
+        const content = serializeTable(table, options);
+        const fileName = reportFileName({ ...metadata, generatedAt: Date.now() }, format.extension, source.fileSuffix);
+        downloadBlob(new Blob([content], { type: typeof content === 'string' ? `${format.mimeType};charset=utf-8` : format.mimeType }), fileName);
+        onExported(`${table.rows.length.toLocaleString()} rows exported as ${format.label}`);
+        onClose();
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setIsExporting(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <FileDown size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Export Data</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {sources.length > 1 && (
+            <div className="space-y-3">
+              <label className={labelClass}>Rows</label>
+              {sources.map(s => (
+                <button key={s.id} onClick={() => setSourceId(s.id)} className={`w-full text-left p-4 rounded-2xl border-2 transition-all ${source?.id === s.id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-100 dark:border-slate-800 hover:border-indigo-600/20'}`}>
+                  <span className="block text-sm font-black text-slate-900 dark:text-slate-100">{s.label}</span>
+                  <span className="block text-xs font-bold text-slate-400">{s.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {sources.length === 1 && source && (
+            <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50">
+              <span className="block text-sm font-black text-slate-900 dark:text-slate-100">{source.label}</span>
+              <span className="block text-xs font-bold text-slate-400">{source.description}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className={labelClass}>Format</label>
+            <div className="flex bg-slate-50 dark:bg-slate-800 rounded-2xl p-1">
+              {(Object.keys(DATA_EXPORT_FORMATS) as DataExportFormat[]).map(f => (
+                <button key={f} onClick={() => update({ format: f })} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${options.format === f ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{DATA_EXPORT_FORMATS[f].label}</button>
+              ))}
+            </div>
+          </div>
+
+          {isDelimited && (
+            <div className="grid grid-cols-2 gap-4">
+              {options.format === 'csv' && (
+                <div className="space-y-2">
+                  <label className={labelClass}>Delimiter</label>
+                  <select value={options.delimiter} onChange={(e) => update({ delimiter: e.target.value as CsvDelimiter })} className={selectClass}>
+                    {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                  </select>
+                </div>
+              )}
+              <label className="flex items-center gap-3 self-end py-3 text-sm font-bold text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={options.includeHeader} onChange={(e) => update({ includeHeader: e.target.checked })} className="accent-indigo-600" /> Header row
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Numbers</label>
+              <div className="flex gap-2">
+                <select value={options.numberFormat} onChange={(e) => update({ numberFormat: e.target.value as DataExportOptions['numberFormat'] })} className={selectClass}>
+                  <option value="original">As stored</option>
+                  <option value="fixed">Fixed decimals</option>
+                  <option value="locale">Locale (1,234.5)</option>
+                </select>
+                {options.numberFormat !== 'original' && (
+                  <input type="number" min={0} max={10} value={options.decimals} onChange={(e) => update({ decimals: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })} title={options.numberFormat === 'fixed' ? 'Decimal places' : 'Maximum decimal places'} className="w-20 bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-3 py-3 text-sm font-bold dark:text-slate-100 outline-none" />
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Dates</label>
+              <select value={options.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as DataExportOptions['dateFormat'] })} className={selectClass}>
+                <option value="original">As stored</option>
+                <option value="iso">ISO (2024-03-31)</option>
+                <option value="locale">Locale</option>
+              </select>
+            </div>
+          </div>
+          {options.numberFormat === 'locale' && (
+            <p className="text-xs font-bold text-slate-400">Locale numbers are written as text, so spreadsheets will not sum them.</p>
+          )}
+          {error && <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={runExport} disabled={isExporting || !source} className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50">{isExporting && <Loader2 size={14} className="animate-spin" />} Download</button>
+        </div>
+      </div>
+    </div>
+  );
+};
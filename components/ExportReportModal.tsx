@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { buildReportHtml, renderSlideSvg, ReportMetadata, reportFileName, ReportPage, SLIDE_HEIGHT, SLIDE_WIDTH } from '../services/reportExport';
+import { downloadBlob, downloadText, printHtml, svgToPng } from '../services/download';
+import { createZip } from '../services/zip';
+import { AlertCircle, DownloadCloud, FileCode, Loader2, Presentation, Printer, X } from 'lucide-react';
+
+interface ExportReportModalProps {
+  pages: ReportPage[]; // every dashboard page with tiles, in order
+  currentPageName: string;
+  metadata: Omit<ReportMetadata, 'generatedAt'>;
+  onExported: (message: string) => void;
+  onClose: () => void;
+}
+
+type ExportFormat = 'html' | 'print' | 'slides';
+type ExportScope = 'page' | 'all';
+
+const FORMATS: { id: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'html', label: 'HTML Report', description: 'One self-contained file with charts as SVG. Opens offline in any browser.', icon: <FileCode size={20} /> },
+  { id: 'print', label: 'Print / PDF', description: 'Print-ready A4 landscape layout, one dashboard page per sheet. Choose "Save as PDF" in the print dialog.', icon: <Printer size={20} /> },
+  { id: 'slides', label: 'Slide Images', description: 'A .zip with one 16:9 PNG per tile, ready to drop into a deck.', icon: <Presentation size={20} /> }
+];
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+export const ExportReportModal: React.FC<ExportReportModalProps> = ({ pages, currentPageName, metadata, onExported, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [scope, setScope] = useState<ExportScope>(pages.length > 1 ? 'all' : 'page');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = scope === 'all' ? pages : pages.filter(p => p.name === currentPageName);
+  const tileCount = selected.reduce((sum, p) => sum + p.tiles.length, 0);
+
+  const runExport = async () => {
+    const meta: ReportMetadata = { ...metadata, generatedAt: Date.now() };
+    setIsExporting(true);
+    setError(null);
+    try {
+      if (format === 'html') {
+        downloadText(buildReportHtml(selected, meta), reportFileName(meta, 'html'), 'text/html');
+        onExported('Report downloaded as HTML');
+      } else if (format === 'print') {
+        printHtml(buildReportHtml(selected, meta));
+        onExported('Print layout opened in a new window');
+      } else {
+        const tiles = selected.flatMap(p => p.tiles);
+        const encoder = new TextEncoder();
+        const slides = await Promise.all(tiles.map(async (tile, i) => ({
+          name: `slide-${String(i + 1).padStart(2, '0')}.png`,
+          data: new Uint8Array(await (await svgToPng(renderSlideSvg(tile, meta, i, tiles.length), SLIDE_WIDTH, SLIDE_HEIGHT, 1)).arrayBuffer())
+        })));
+        const readme = [`${meta.title}`, `Dataset: ${meta.datasetName}`, `Filters: ${meta.filters.join('; ') || 'None'}`, `Generated: ${new Date(meta.generatedAt).toLocaleString()}`].join('\n');
+        const zip = createZip([...slides, { name: 'README.txt', data: encoder.encode(readme) }]);
+        downloadBlob(new Blob([zip], { type: 'application/zip' }), reportFileName(meta, 'zip', 'slides'));
+        onExported(`${slides.length} slides downloaded`);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <DownloadCloud size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Export Report</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="space-y-3">
+            <label className={labelClass}>Format</label>
+            {FORMATS.map(f => (
+              <button key={f.id} onClick={() => setFormat(f.id)} className={`w-full text-left flex items-start gap-4 p-4 rounded-2xl border-2 transition-all ${format === f.id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-100 dark:border-slate-800 hover:border-indigo-600/20'}`}>
+                <span className={format === f.id ? 'text-indigo-600' : 'text-slate-400'}>{f.icon}</span>
+                <span>
+                  <span className="block text-sm font-black text-slate-900 dark:text-slate-100">{f.label}</span>
+                  <span className="block text-xs font-bold text-slate-400">{f.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {pages.length > 1 && (
+            <div className="space-y-2">
+              <label className={labelClass}>Pages</label>
+              <div className="flex bg-slate-50 dark:bg-slate-800 rounded-2xl p-1">
+                {(['page', 'all'] as ExportScope[]).map(s => (
+                  <button key={s} onClick={() => setScope(s)} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${scope === s ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{s === 'page' ? currentPageName : `All ${pages.length} pages`}</button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 text-xs font-bold text-slate-500 dark:text-slate-400">
+            <p><span className={labelClass}>Dataset</span> · {metadata.datasetName}</p>
+            <p><span className={labelClass}>Filters</span> · {metadata.filters.length ? metadata.filters.join('; ') : 'None'}</p>
+            <p><span className={labelClass}>Contents</span> · {tileCount} tile{tileCount === 1 ? '' : 's'}, stamped with the time of export</p>
+          </div>
+          {error && <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={runExport} disabled={isExporting || tileCount === 0} className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50">{isExporting && <Loader2 size={14} className="animate-spin" />} Export</button>
+        </div>
+      </div>
+    </div>
+  );
+};
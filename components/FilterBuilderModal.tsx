@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { ActiveFilter, Dataset, FilterGroup, FilterNode, FilterOperator, SavedFilterSet } from '../types';
+import { describeFilter, FILTER_OPERATOR_LABELS, isFilterGroup, RELATIVE_DATE_LABELS, toValueList } from '../services/filterEngine';
+import { Bookmark, FolderPlus, Plus, PlusCircle, Trash2, X } from 'lucide-react';
+
+interface FilterBuilderModalProps {
+  dataset: Dataset;
+  filters: FilterNode[];
+  onApply: (filters: FilterNode[]) => void;
+  onSaveSet: (name: string, filters: FilterNode[]) => void;
+  onDeleteSet: (id: string) => void;
+  onClose: () => void;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const VALUELESS: FilterOperator[] = ['is_empty', 'not_empty'];
+const LIST_OPERATORS: FilterOperator[] = ['in', 'not_in'];
+
+const OPERATORS_BY_TYPE: Record<string, FilterOperator[]> = {
+  numeric: ['equals', 'gt', 'lt', 'between', 'in', 'not_in', 'is_empty', 'not_empty'],
+  date: ['equals', 'gt', 'lt', 'between', 'relative_date', 'is_empty', 'not_empty'],
+  text: ['equals', 'contains', 'starts_with', 'regex', 'in', 'not_in', 'is_empty', 'not_empty']
+};
+
+const inputClass = 'bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 py-2 text-xs font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100';
+
+const updateNode = (group: FilterGroup, id: string, update: (node: FilterNode) => FilterNode | null): FilterGroup => ({
+  ...group,
+  children: group.children.flatMap(child => {
+    if (child.id === id) {
+      const next = update(child);
+      return next ? [next] : [];
+    }
+    return isFilterGroup(child) ? [updateNode(child, id, update)] : [child];
+  })
+});
+
+// List values are edited as text and stored as arrays; empty groups are dropped.
+const finalize = (nodes: FilterNode[]): FilterNode[] => nodes.flatMap<FilterNode>(node => {
+  if (isFilterGroup(node)) {
+    const children = finalize(node.children);
+    return children.length ? [{ ...node, children }] : [];
+  }
+  return [LIST_OPERATORS.includes(node.operator) ? { ...node, value: toValueList(node.value) } : node];
+});
+
+const toRoot = (filters: FilterNode[]): FilterGroup =>
+  filters.length === 1 && isFilterGroup(filters[0]) ? filters[0] : { id: newId(), combinator: 'and', children: filters };
+
+const fromRoot = (root: FilterGroup): FilterNode[] => {
+  const children = finalize(root.children);
+  if (children.length === 0) return [];
+  return root.combinator === 'and' && !root.negate ? children : [{ ...root, children }];
+};
+
+interface EditorProps {
+  dataset: Dataset;
+  onChange: (id: string, update: (node: FilterNode) => FilterNode | null) => void;
+}
+
+const ConditionEditor: React.FC<EditorProps & { condition: ActiveFilter }> = ({ dataset, condition, onChange }) => {
+  const meta = dataset.metadata?.[condition.column];
+  const operators = OPERATORS_BY_TYPE[meta?.type === 'numeric' || meta?.type === 'date' ? meta.type : 'text'];
+  const set = (patch: Partial<ActiveFilter>) => onChange(condition.id, node => ({ ...node, ...patch } as ActiveFilter));
+  const listText = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '');
+  const listValues = toValueList(condition.value);
+  const customDays = /^last_(\d+)_days$/.exec(String(condition.value))?.[1];
+  const isCustomRange = !!customDays && !RELATIVE_DATE_LABELS[condition.value];
+  const inputType = meta?.type === 'numeric' ? 'number' : meta?.type === 'date' ? 'date' : 'text';
+
+  const toggleListValue = (value: string) => {
+    set({ value: listValues.includes(value) ? listValues.filter(v => v !== value) : [...listValues, value] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl p-3">
+      <button onClick={() => set({ negate: !condition.negate })} className={`px-2 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${condition.negate ? 'bg-rose-600 text-white' : 'text-slate-300 hover:text-rose-600'}`}>Not</button>
+      <select
+        value={condition.column}
+        onChange={(e) => {
+          const nextType = dataset.metadata?.[e.target.value]?.type;
+          const allowed = OPERATORS_BY_TYPE[nextType === 'numeric' || nextType === 'date' ? nextType : 'text'];
+          set({ column: e.target.value, operator: allowed.includes(condition.operator) ? condition.operator : 'equals', value: '', valueEnd: undefined });
+        }}
+        className={inputClass}
+      >
+        {dataset.columns.map(c => <option key={c} value={c}>{c}</option>)}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => {
+          const operator = e.target.value as FilterOperator;
+          set({ operator, value: operator === 'relative_date' ? 'last_30_days' : LIST_OPERATORS.includes(operator) ? [] : '', valueEnd: undefined });
+        }}
+        className={inputClass}
+      >
+        {operators.map(op => <option key={op} value={op}>{FILTER_OPERATOR_LABELS[op]}</option>)}
+      </select>
+
+      {condition.operator === 'relative_date' ? (
+        <>
+          <select value={isCustomRange ? 'custom' : condition.value} onChange={(e) => set({ value: e.target.value === 'custom' ? 'last_14_days' : e.target.value })} className={inputClass}>
+            {Object.entries(RELATIVE_DATE_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            <option value="custom">Last N days…</option>
+          </select>
+          {isCustomRange && (
+            <input type="number" min={1} value={customDays} onChange={(e) => set({ value: `last_${Math.max(1, Number(e.target.value) || 1)}_days` })} className={`${inputClass} w-20`} />
+          )}
+        </>
+      ) : LIST_OPERATORS.includes(condition.operator) ? (
+        <div className="flex-1 min-w-[200px] space-y-2">
+          <input placeholder="Comma-separated values" value={listText} onChange={(e) => set({ value: e.target.value })} className={`${inputClass} w-full`} />
+          {meta && meta.topValues.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {meta.topValues.map(t => (
+                <button key={t.value} onClick={() => toggleListValue(t.value)} className={`px-2 py-1 rounded-lg text-[10px] font-black transition-all ${listValues.includes(t.value) ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-400 hover:text-indigo-600'}`}>{t.value}</button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : !VALUELESS.includes(condition.operator) && (
+        <>
+          <input
+            type={condition.operator === 'gt' || condition.operator === 'lt' || condition.operator === 'between' ? inputType : 'text'}
+            placeholder={condition.operator === 'between' ? 'Start' : condition.operator === 'regex' ? 'Pattern, e.g. ^INV-\\d+' : 'Value...'}
+            value={condition.value ?? ''}
+            onChange={(e) => set({ value: e.target.value })}
+            className={`${inputClass} flex-1 min-w-[120px]`}
+          />
+          {condition.operator === 'between' && (
+            <input type={inputType} placeholder="End" value={condition.valueEnd ?? ''} onChange={(e) => set({ valueEnd: e.target.value })} className={`${inputClass} flex-1 min-w-[120px]`} />
+          )}
+        </>
+      )}
+      <button onClick={() => onChange(condition.id, () => null)} className="ml-auto p-2 text-slate-300 hover:text-rose-600 transition-all"><Trash2 size={14} /></button>
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<EditorProps & { group: FilterGroup; isRoot?: boolean }> = ({ dataset, group, isRoot, onChange }) => {
+  const set = (patch: Partial<FilterGroup>) => onChange(group.id, node => ({ ...node, ...patch } as FilterGroup));
+  const addCondition = () => set({ children: [...group.children, { id: newId(), column: dataset.columns[0] || '', operator: 'equals', value: '' }] });
+  const addGroup = () => set({ children: [...group.children, { id: newId(), combinator: group.combinator === 'and' ? 'or' : 'and', children: [{ id: newId(), column: dataset.columns[0] || '', operator: 'equals', value: '' }] }] });
+
+  return (
+    <div className={`space-y-3 ${isRoot ? '' : 'border-l-4 border-indigo-200 dark:border-indigo-900 pl-4 py-2'}`}>
+      <div className="flex items-center gap-2">
+        <button onClick={() => set({ negate: !group.negate })} className={`px-2 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${group.negate ? 'bg-rose-600 text-white' : 'text-slate-300 hover:text-rose-600'}`}>Not</button>
+        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1">
+          {(['and', 'or'] as const).map(c => (
+            <button key={c} onClick={() => set({ combinator: c })} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${group.combinator === c ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{c === 'and' ? 'All Of' : 'Any Of'}</button>
+          ))}
+        </div>
+        <button onClick={addCondition} className="flex items-center gap-1 px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700"><Plus size={12} /> Condition</button>
+        <button onClick={addGroup} className="flex items-center gap-1 px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700"><FolderPlus size={12} /> Group</button>
+        {!isRoot && <button onClick={() => onChange(group.id, () => null)} className="ml-auto p-2 text-slate-300 hover:text-rose-600 transition-all"><Trash2 size={14} /></button>}
+      </div>
+      {group.children.length === 0 && <p className="text-xs font-bold text-slate-400">No conditions yet.</p>}
+      {group.children.map(child => isFilterGroup(child)
+        ? <GroupEditor key={child.id} dataset={dataset} group={child} onChange={onChange} />
+        : <ConditionEditor key={child.id} dataset={dataset} condition={child} onChange={onChange} />)}
+    </div>
+  );
+};
+
+export const FilterBuilderModal: React.FC<FilterBuilderModalProps> = ({ dataset, filters, onApply, onSaveSet, onDeleteSet, onClose }) => {
+  const [root, setRoot] = useState<FilterGroup>(() => {
+    const initial = toRoot(filters);
+    return initial.children.length ? initial : { ...initial, children: [{ id: newId(), column: dataset.columns[0] || '', operator: 'equals', value: '' }] };
+  });
+  const [setName, setSetName] = useState('');
+
+  const handleChange = (id: string, update: (node: FilterNode) => FilterNode | null) => {
+    setRoot(prev => id === prev.id ? (update(prev) as FilterGroup) || { ...prev, children: [] } : updateNode(prev, id, update));
+  };
+
+  const loadSet = (set: SavedFilterSet) => setRoot(toRoot(set.filters));
+
+  const saveSet = () => {
+    onSaveSet(setName.trim(), fromRoot(root));
+    setSetName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <PlusCircle size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Advanced Filters</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-slate-50/50 dark:bg-slate-950/50">
+          {(dataset.savedFilterSets || []).length > 0 && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Saved Filter Sets</label>
+              <div className="flex flex-wrap gap-2">
+                {dataset.savedFilterSets!.map(set => (
+                  <div key={set.id} title={set.filters.map(describeFilter).join(' AND ')} className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 pl-3 pr-1 py-1 rounded-xl">
+                    <button onClick={() => loadSet(set)} className="flex items-center gap-2 text-xs font-black text-slate-600 dark:text-slate-300 hover:text-indigo-600"><Bookmark size={12} /> {set.name}</button>
+                    <button onClick={() => onDeleteSet(set.id)} className="p-1 text-slate-300 hover:text-rose-600 transition-all"><X size={12} /></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <GroupEditor dataset={dataset} group={root} isRoot onChange={handleChange} />
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex flex-wrap gap-4 items-center">
+          <div className="flex items-center gap-2 flex-1 min-w-[240px]">
+            <input value={setName} onChange={(e) => setSetName(e.target.value)} placeholder="Name this filter set..." className="flex-1 bg-white dark:bg-slate-900 border-none rounded-2xl px-4 py-3 text-xs font-bold outline-none dark:text-slate-100" />
+            <button onClick={saveSet} disabled={!setName.trim() || fromRoot(root).length === 0} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700 disabled:opacity-40"><Bookmark size={14} /> Save Set</button>
+          </div>
+          <button onClick={onClose} className="px-6 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button
+            onClick={() => onApply(fromRoot(root))}
+            className="px-8 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest"
+          >
+            Apply Filters
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
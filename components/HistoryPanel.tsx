@@ -0,0 +1,61 @@
+import React from 'react';
+import { DatasetHistory, HistoryEntry } from '../types';
+import { Columns, Database, GitMerge, History, Pencil, Redo2, Undo2, Wand2, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history?: DatasetHistory;
+  onRevert: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<HistoryEntry['kind'], React.ReactNode> = {
+  original: <Database size={14} />,
+  edit: <Pencil size={14} />,
+  cleaning: <Wand2 size={14} />,
+  column: <Columns size={14} />,
+  rebuild: <GitMerge size={14} />
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onRevert, onUndo, onRedo, onClose }) => {
+  const entries = history?.entries || [];
+  const cursor = history?.cursor ?? -1;
+
+  return (
+    <div className="fixed top-14 right-0 bottom-0 w-[380px] z-[90] bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-right-10 duration-300">
+      <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-start">
+        <div>
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2"><History size={14} /> Operation Log</div>
+          <h3 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">History</h3>
+          <p className="text-[10px] font-bold text-slate-400 mt-1">Ctrl+Z to undo · Ctrl+Shift+Z to redo</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={cursor <= 0} title="Undo" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400 disabled:opacity-30"><Undo2 size={18}/></button>
+          <button onClick={onRedo} disabled={cursor >= entries.length - 1} title="Redo" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400 disabled:opacity-30"><Redo2 size={18}/></button>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="p-8 text-sm font-bold text-slate-400">No changes yet. Edits, cleaning actions and column changes will appear here.</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+            <button
+              key={entry.id}
+              onClick={() => onRevert(i)}
+              className={`w-full text-left flex items-start gap-3 p-4 rounded-2xl transition-all ${i === cursor ? 'bg-indigo-50 dark:bg-indigo-900/20 ring-2 ring-indigo-600' : i > cursor ? 'opacity-40 hover:opacity-70' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+            >
+              <span className={`mt-0.5 ${i === cursor ? 'text-indigo-600' : 'text-slate-400'}`}>{KIND_ICONS[entry.kind]}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-black text-slate-900 dark:text-slate-100 truncate">{entry.label}</span>
+                <span className="block text-[10px] font-bold text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()} · {entry.snapshot.rows.length.toLocaleString()} rows{i > cursor ? ' · undone' : ''}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
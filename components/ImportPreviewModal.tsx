@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { CsvDelimiter, CsvImportOptions, Dataset, ImportColumnType, PendingImport } from '../types';
+import { buildRows, detectDelimiter, detectImportOptions, inferColumnType, parseCsv, splitRecords } from '../services/csvParser';
+import { guessVersionTarget } from '../services/versioning';
+import { FileText, X } from 'lucide-react';
+
+interface ImportPreviewModalProps {
+  source: PendingImport;
+  datasets: Dataset[]; // datasets the file can be imported into as a new version
+  onSheetChange: (sheet: string) => void;
+  onConfirm: (columns: string[], rows: any[], columnTypes: Record<string, ImportColumnType>, targetDatasetId?: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 8;
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ source, datasets, onSheetChange, onConfirm, onCancel }) => {
+  const { payload } = source;
+  const [targetDatasetId, setTargetDatasetId] = useState(() => guessVersionTarget(source.fileName, datasets) || '');
+  const readRecords = (delimiter: CsvDelimiter): any[][] => payload.kind === 'delimited' ? parseCsv(payload.text, delimiter) : payload.records;
+
+  const [options, setOptions] = useState<CsvImportOptions>(() => {
+    const delimiter = payload.kind === 'delimited' ? detectDelimiter(payload.text) : ',';
+    return detectImportOptions(readRecords(delimiter), delimiter);
+  });
+
+  const records = useMemo(() => readRecords(options.delimiter), [payload, options.delimiter]);
+  const { body } = useMemo(() => splitRecords(records, options.skipRows, options.hasHeader), [records, options.skipRows, options.hasHeader]);
+
+  // Structural changes invalidate the confirmed headers and types, so re-detect them.
+  const updateStructure = (patch: Partial<Pick<CsvImportOptions, 'delimiter' | 'hasHeader' | 'skipRows'>>) => {
+    setOptions(prev => {
+      const next = { ...prev, ...patch };
+      const { headers, body } = splitRecords(readRecords(next.delimiter), next.skipRows, next.hasHeader);
+      return { ...next, headers, columnTypes: headers.map((_, i) => inferColumnType(body.map(r => r[i]))) };
+    });
+  };
+
+  const renameHeader = (index: number, name: string) => {
+    setOptions(prev => ({ ...prev, headers: prev.headers.map((h, i) => i === index ? name : h) }));
+  };
+
+  const setColumnType = (index: number, type: ImportColumnType) => {
+    setOptions(prev => ({ ...prev, columnTypes: prev.columnTypes.map((t, i) => i === index ? type : t) }));
+  };
+
+  const handleConfirm = () => {
+    const { columns, rows, columnTypes } = buildRows(records, options);
+    onConfirm(columns, rows, columnTypes, targetDatasetId || undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-5xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <FileText size={24} className="text-indigo-600" />
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Import Preview</h2>
+              <p className="text-slate-400 dark:text-slate-500 font-bold text-xs">{source.fileName} · {payload.kind === 'delimited' ? payload.encoding : source.format} · {body.length.toLocaleString()} rows</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="p-8 grid grid-cols-3 gap-6 border-b border-slate-200 dark:border-slate-800">
+          {payload.kind === 'delimited' && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Delimiter</label>
+              <select
+                value={options.delimiter}
+                onChange={(e) => updateStructure({ delimiter: e.target.value as CsvDelimiter })}
+                className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
+              >
+                {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+              </select>
+            </div>
+          )}
+          {source.sheetNames && source.sheetNames.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Sheet</label>
+              <select
+                value={source.activeSheet}
+                onChange={(e) => onSheetChange(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
+              >
+                {source.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+          )}
+          {datasets.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Import As</label>
+              <select
+                value={targetDatasetId}
+                onChange={(e) => setTargetDatasetId(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
+              >
+                <option value="">New dataset</option>
+                {datasets.map(d => <option key={d.id} value={d.id}>New version of {d.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Skip Leading Rows</label>
+            <input
+              type="number"
+              min={0}
+              value={options.skipRows}
+              onChange={(e) => updateStructure({ skipRows: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Header Row</label>
+            <label className="flex items-center gap-3 bg-slate-50 dark:bg-slate-800 rounded-2xl px-4 py-3 font-bold dark:text-slate-100 cursor-pointer">
+              <input type="checkbox" checked={options.hasHeader} onChange={(e) => updateStructure({ hasHeader: e.target.checked })} />
+              First row contains headers
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-8 bg-slate-50/50 dark:bg-slate-950/50">
+          <table className="text-left text-sm border-collapse">
+            <thead>
+              <tr>
+                {options.headers.map((h, i) => (
+                  <th key={i} className="px-3 py-3 align-top min-w-[160px]">
+                    <input
+                      value={h}
+                      onChange={(e) => renameHeader(i, e.target.value)}
+                      className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2 text-xs font-black outline-none focus:border-indigo-500 dark:text-slate-100"
+                    />
+                    <select
+                      value={options.columnTypes[i]}
+                      onChange={(e) => setColumnType(i, e.target.value as ImportColumnType)}
+                      className="mt-2 w-full bg-indigo-50 dark:bg-indigo-900/20 border-none rounded-xl px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 dark:text-indigo-400 outline-none"
+                    >
+                      <option value="string">Text</option>
+                      <option value="number">Number</option>
+                      <option value="boolean">Boolean</option>
+                    </select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y border-slate-100 dark:border-slate-800">
+              {body.slice(0, PREVIEW_ROW_COUNT).map((record, r) => (
+                <tr key={r}>
+                  {options.headers.map((_, i) => (
+                    <td key={i} className="px-3 py-2 whitespace-nowrap font-bold text-slate-600 dark:text-slate-300 truncate max-w-[220px]">{record[i] === null || record[i] === undefined ? '' : String(record[i])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onCancel} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button
+            onClick={handleConfirm}
+            disabled={options.headers.length === 0}
+            className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50"
+          >
+            {targetDatasetId ? 'Review Changes' : 'Import Dataset'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { AggregationFn, Dataset, PivotConfig, QueryAggregation } from '../types';
+import { AGGREGATION_LABELS } from '../services/queryEngine';
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+
+interface PivotBuilderModalProps {
+  dataset: Dataset;
+  initialConfig: PivotConfig | null;
+  onApply: (config: PivotConfig) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const NUMERIC_ONLY: AggregationFn[] = ['sum', 'avg', 'min', 'max', 'median'];
+
+const selectClass = 'w-full bg-slate-50 dark:bg-slate-800 border-none rounded-2xl px-4 py-3 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none dark:text-slate-100';
+
+export const PivotBuilderModal: React.FC<PivotBuilderModalProps> = ({ dataset, initialConfig, onApply, onClear, onClose }) => {
+  const isNumeric = (col: string) => dataset.metadata?.[col]?.type === 'numeric';
+  const firstNumeric = dataset.columns.find(isNumeric);
+
+  const [config, setConfig] = useState<PivotConfig>(() => initialConfig || {
+    rows: dataset.columns.filter(c => !isNumeric(c)).slice(0, 1),
+    values: [firstNumeric ? { column: firstNumeric, fn: 'sum' } : { column: '*', fn: 'count' }],
+    showTotals: true
+  });
+
+  const toggleRow = (col: string) => {
+    setConfig(prev => ({ ...prev, rows: prev.rows.includes(col) ? prev.rows.filter(c => c !== col) : [...prev.rows, col] }));
+  };
+
+  const updateValue = (index: number, patch: Partial<QueryAggregation>) => {
+    setConfig(prev => ({
+      ...prev,
+      values: prev.values.map((v, i) => {
+        if (i !== index) return v;
+        const next = { ...v, ...patch };
+        // Row counts only make sense as a plain count; text columns cannot be summed.
+        if (next.column === '*') next.fn = 'count';
+        else if (!isNumeric(next.column) && NUMERIC_ONLY.includes(next.fn)) next.fn = 'count_distinct';
+        return next;
+      })
+    }));
+  };
+
+  const addValue = () => setConfig(prev => ({ ...prev, values: [...prev.values, { column: '*', fn: 'count' }] }));
+  const removeValue = (index: number) => setConfig(prev => ({ ...prev, values: prev.values.filter((_, i) => i !== index) }));
+
+  const isValid = config.rows.length > 0 && config.values.length > 0 && !config.rows.includes(config.pivotColumn || '');
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Layers size={24} className="text-indigo-600" />
+            <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Pivot & Group</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          <div className="space-y-3">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Group Rows By</label>
+            <div className="flex flex-wrap gap-2">
+              {dataset.columns.map(col => {
+                const position = config.rows.indexOf(col);
+                return (
+                  <button
+                    key={col}
+                    onClick={() => toggleRow(col)}
+                    className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${position >= 0 ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:text-indigo-600'}`}
+                  >
+                    {position >= 0 && <span className="mr-2 opacity-60">{position + 1}</span>}{col}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Values</label>
+            {config.values.map((v, i) => (
+              <div key={i} className="flex gap-3 items-center">
+                <select value={v.fn} onChange={(e) => updateValue(i, { fn: e.target.value as AggregationFn })} className={selectClass}>
+                  {(Object.keys(AGGREGATION_LABELS) as AggregationFn[])
+                    .filter(fn => v.column === '*' ? fn === 'count' : isNumeric(v.column) || !NUMERIC_ONLY.includes(fn))
+                    .map(fn => <option key={fn} value={fn}>{AGGREGATION_LABELS[fn]}</option>)}
+                </select>
+                <select value={v.column} onChange={(e) => updateValue(i, { column: e.target.value })} className={selectClass}>
+                  <option value="*">All Rows</option>
+                  {dataset.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button onClick={() => removeValue(i)} disabled={config.values.length === 1} className="p-3 text-slate-300 hover:text-rose-600 transition-all disabled:opacity-30"><Trash2 size={16} /></button>
+              </div>
+            ))}
+            <button onClick={addValue} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700"><Plus size={14} /> Add Value</button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Pivot Column</label>
+              <select value={config.pivotColumn || ''} onChange={(e) => setConfig(prev => ({ ...prev, pivotColumn: e.target.value || undefined }))} className={selectClass}>
+                <option value="">None</option>
+                {dataset.columns.filter(c => !config.rows.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Totals</label>
+              <label className="flex items-center gap-3 bg-slate-50 dark:bg-slate-800 rounded-2xl px-4 py-3 font-bold dark:text-slate-100 cursor-pointer">
+                <input type="checkbox" checked={config.showTotals} onChange={(e) => setConfig(prev => ({ ...prev, showTotals: e.target.checked }))} />
+                Row and column totals
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          {initialConfig ? (
+            <button onClick={onClear} className="flex-1 py-3 font-black text-rose-500 hover:text-rose-600 transition-all uppercase text-[10px]">Show Raw Rows</button>
+          ) : (
+            <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          )}
+          <button
+            onClick={() => onApply(config)}
+            disabled={!isValid}
+            className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50"
+          >
+            Apply Pivot
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisSession, Dataset } from '../types';
+import { searchSessions, sessionTitle } from '../services/sessions';
+import { GitBranch, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+
+interface SessionSidebarProps {
+  sessions: AnalysisSession[];
+  datasets: Pick<Dataset, 'id' | 'name'>[];
+  activeDatasetId: string | null;
+  activeSessionId: string | null;
+  onSelect: (sessionId: string, messageId?: string) => void;
+  onCreate: () => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDelete: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const formatWhen = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/** The active dataset's analysis threads, with search across every session's messages. */
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, datasets, activeDatasetId, activeSessionId, onSelect, onCreate, onRename, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const threads = useMemo(() => sessions.filter(s => s.datasetId === activeDatasetId).sort((a, b) => b.lastUpdated - a.lastUpdated), [sessions, activeDatasetId]);
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+  const byId = useMemo(() => new Map(sessions.map(s => [s.id, s])), [sessions]);
+  const datasetName = (id: string) => datasets.find(d => d.id === id)?.name ?? 'Deleted dataset';
+
+  return (
+    <div className="w-72 shrink-0 flex flex-col border-r border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 z-40 animate-in slide-in-from-left duration-300">
+      <div className="h-14 px-5 flex items-center justify-between border-b border-slate-200 dark:border-slate-800 shrink-0">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-400">Sessions</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onCreate} disabled={!activeDatasetId} title="New analysis on this dataset" className="p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all disabled:opacity-30"><Plus size={16} /></button>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all"><X size={16} /></button>
+        </div>
+      </div>
+
+      <div className="p-4 shrink-0">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+          <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search all messages..." className="w-full pl-9 pr-3 py-2.5 bg-slate-50 dark:bg-slate-800 border-none rounded-xl text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-500/10 dark:text-slate-100" />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+        {query.trim() ? (
+          <>
+            <p className={`${labelClass} px-2 pb-2`}>{results.length} match{results.length === 1 ? '' : 'es'}</p>
+            {results.map(r => {
+              const session = byId.get(r.sessionId)!;
+              return (
+                <button key={`${r.sessionId}-${r.messageId ?? 'name'}`} onClick={() => onSelect(r.sessionId, r.messageId)} className="w-full text-left p-3 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-800 transition-all">
+                  <span className="block text-xs font-black text-slate-700 dark:text-slate-200 truncate">{sessionTitle(session)}</span>
+                  {session.datasetId !== activeDatasetId && <span className="block text-[10px] font-bold text-indigo-500 truncate">{datasetName(session.datasetId)}</span>}
+                  <span className="block text-xs font-medium text-slate-400 line-clamp-2">{r.snippet}</span>
+                </button>
+              );
+            })}
+          </>
+        ) : threads.map(s => {
+          const isActive = s.id === activeSessionId;
+          const parent = s.forkedFrom && byId.get(s.forkedFrom.sessionId);
+          return (
+            <div key={s.id} className={`group relative rounded-2xl transition-all ${isActive ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+              {editingId === s.id ? (
+                <input
+                  autoFocus
+                  defaultValue={sessionTitle(s)}
+                  onBlur={(e) => { const name = e.target.value.trim(); if (name && name !== sessionTitle(s)) onRename(s.id, name); setEditingId(null); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === 'Escape') (e.target as HTMLInputElement).blur(); }}
+                  className="w-full p-3 bg-transparent border-none outline-none text-xs font-black text-slate-900 dark:text-slate-100"
+                />
+              ) : (
+                <button onClick={() => onSelect(s.id)} onDoubleClick={() => setEditingId(s.id)} className="w-full text-left p-3 pr-16">
+                  <span className={`block text-xs font-black truncate ${isActive ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-700 dark:text-slate-200'}`}>{sessionTitle(s)}</span>
+                  <span className="flex items-center gap-1 text-[10px] font-bold text-slate-400">
+                    {s.forkedFrom && <GitBranch size={10} />}
+                    {s.forkedFrom ? `from ${parent ? sessionTitle(parent) : 'a deleted session'} · ` : ''}{s.messages.length} messages · {formatWhen(s.lastUpdated)}
+                  </span>
+                </button>
+              )}
+              {editingId !== s.id && (
+                confirmDeleteId === s.id ? (
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                    <button onClick={() => { onDelete(s.id); setConfirmDeleteId(null); }} className="px-2 py-1 rounded-lg bg-rose-600 text-white text-[10px] font-black uppercase">Delete</button>
+                    <button onClick={() => setConfirmDeleteId(null)} className="p-1 text-slate-400"><X size={12} /></button>
+                  </div>
+                ) : (
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center opacity-0 group-hover:opacity-100 transition-all">
+                    <button onClick={() => setEditingId(s.id)} title="Rename" className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600"><Pencil size={12} /></button>
+                    <button onClick={() => setConfirmDeleteId(s.id)} title="Delete" className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600"><Trash2 size={12} /></button>
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })}
+        {!query.trim() && threads.length === 0 && <p className="px-2 text-xs font-bold text-slate-400">{activeDatasetId ? 'No sessions yet.' : 'Load a dataset to start an analysis.'}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AnalysisSession, Dataset } from '../types';
+import { BundleOptions } from '../services/workspaceBundle';
+import { AlertCircle, Check, Loader2, Share2, X } from 'lucide-react';
+
+interface ShareWorkspaceModalProps {
+  datasets: Dataset[]; // live datasets; archived versions travel with their dataset
+  sessions: AnalysisSession[];
+  activeDatasetId: string | null;
+  onExport: (datasetIds: string[], options: BundleOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+export const ShareWorkspaceModal: React.FC<ShareWorkspaceModalProps> = ({ datasets, sessions, activeDatasetId, onExport, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(activeDatasetId ? [activeDatasetId] : datasets.map(d => d.id)));
+  const [options, setOptions] = useState<BundleOptions>({ includeSessions: true, includeHistory: true });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const runExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(datasets.filter(d => selected.has(d.id)).map(d => d.id), options);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Share2 size={24} className="text-indigo-600" />
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Share Workspace</h2>
+              <p className="text-slate-400 font-bold text-xs">One file a teammate can import to pick up where you left off</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className={labelClass}>Datasets</label>
+              <button onClick={() => setSelected(selected.size === datasets.length ? new Set() : new Set(datasets.map(d => d.id)))} className="text-[10px] font-black uppercase tracking-widest text-indigo-600">{selected.size === datasets.length ? 'Select None' : 'Select All'}</button>
+            </div>
+            {datasets.map(d => {
+              const sessionCount = sessions.filter(s => s.datasetId === d.id).length;
+              const isSelected = selected.has(d.id);
+              return (
+                <button key={d.id} onClick={() => toggle(d.id)} className={`w-full text-left flex items-center gap-4 p-4 rounded-2xl border-2 transition-all ${isSelected ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-100 dark:border-slate-800 hover:border-indigo-600/20'}`}>
+                  <span className={`w-5 h-5 shrink-0 rounded-md flex items-center justify-center ${isSelected ? 'bg-indigo-600 text-white' : 'border-2 border-slate-200 dark:border-slate-700'}`}>{isSelected && <Check size={12} strokeWidth={4} />}</span>
+                  <span className="min-w-0">
+                    <span className="block text-sm font-black text-slate-900 dark:text-slate-100 truncate">{d.name}</span>
+                    <span className="block text-xs font-bold text-slate-400">
+                      {d.columns.length} columns · {sessionCount} session{sessionCount === 1 ? '' : 's'}{(d.versions?.length || 0) > 0 ? ` · ${d.versions!.length + 1} versions` : ''}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <label className={labelClass}>Include</label>
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={options.includeSessions} onChange={(e) => setOptions(prev => ({ ...prev, includeSessions: e.target.checked }))} className="accent-indigo-600" /> Chat sessions and dashboards
+            </label>
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={options.includeHistory} onChange={(e) => setOptions(prev => ({ ...prev, includeHistory: e.target.checked }))} className="accent-indigo-600" /> Cleaning and edit history from this visit, so steps can be undone
+            </label>
+            <p className="text-xs font-bold text-slate-400">Saved filter sets, calculated columns and earlier versions always travel with their dataset. API keys and settings are never included.</p>
+          </div>
+          {error && <p className="flex items-center gap-2 text-xs font-bold text-rose-600"><AlertCircle size={14} /> {error}</p>}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onClose} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={runExport} disabled={isExporting || selected.size === 0} className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest disabled:opacity-50">{isExporting && <Loader2 size={14} className="animate-spin" />} Download Bundle</button>
+        </div>
+      </div>
+    </div>
+  );
+};
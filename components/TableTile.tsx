@@ -0,0 +1,41 @@
+import React from 'react';
+import { TableSnapshot } from '../types';
+import { Table as TableIcon } from 'lucide-react';
+
+interface TableTileProps {
+  table: TableSnapshot;
+}
+
+const formatCell = (value: any) => value === null || value === undefined ? '—' : typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(value);
+
+export const TableTile: React.FC<TableTileProps> = ({ table }) => (
+  <div className="bg-white dark:bg-slate-900 p-8 rounded-[2rem] shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-xl transition-all h-full flex flex-col">
+    <div className="flex items-center gap-2 mb-6">
+      <TableIcon size={16} className="text-indigo-600" />
+      <h3 className="text-lg font-black tracking-tight text-slate-900 dark:text-slate-100 truncate">{table.title}</h3>
+    </div>
+    <div className="overflow-auto max-h-[420px]">
+      <table className="w-full text-left text-xs border-collapse">
+        <thead className="sticky top-0 bg-white dark:bg-slate-900">
+          <tr>
+            {table.columns.map(col => <th key={col} className="px-4 py-3 font-black uppercase tracking-widest text-[9px] text-slate-400 border-b border-slate-100 dark:border-slate-800 whitespace-nowrap">{col}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+          {table.rows.map((row, i) => (
+            <tr key={i}>
+              {table.columns.map(col => <td key={col} className={`px-4 py-2.5 whitespace-nowrap font-bold ${typeof row[col] === 'number' ? 'text-right' : ''} text-slate-600 dark:text-slate-300`}>{formatCell(row[col])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+        {table.totalRow && (
+          <tfoot>
+            <tr className="border-t-2 border-slate-200 dark:border-slate-700">
+              {table.columns.map(col => <td key={col} className={`px-4 py-2.5 whitespace-nowrap font-black ${typeof table.totalRow![col] === 'number' ? 'text-right' : ''} text-slate-900 dark:text-slate-100`}>{formatCell(table.totalRow![col])}</td>)}
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  </div>
+);
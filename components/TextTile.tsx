@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../services/markdown';
+import { Check, Pencil } from 'lucide-react';
+
+interface TextTileProps {
+  text: string;
+  onChange: (text: string) => void;
+}
+
+const renderInline = (nodes: MarkdownInline[]) => nodes.map((n, i) => {
+  switch (n.kind) {
+    case 'bold': return <strong key={i} className="font-black text-slate-900 dark:text-slate-100">{n.text}</strong>;
+    case 'italic': return <em key={i}>{n.text}</em>;
+    case 'code': return <code key={i} className="px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-xs">{n.text}</code>;
+    case 'link': return <a key={i} href={n.href} target="_blank" rel="noreferrer" className="text-indigo-600 dark:text-indigo-400 underline">{n.text}</a>;
+    default: return <React.Fragment key={i}>{n.text}</React.Fragment>;
+  }
+});
+
+const HEADING_CLASSES = ['text-2xl', 'text-xl', 'text-lg'];
+
+const renderBlock = (block: MarkdownBlock, i: number) => {
+  if (block.kind === 'heading') return <h3 key={i} className={`${HEADING_CLASSES[block.level - 1]} font-black tracking-tight text-slate-900 dark:text-slate-100`}>{renderInline(block.content)}</h3>;
+  if (block.kind === 'list') {
+    const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+    return block.ordered ? <ol key={i} className="list-decimal pl-5 space-y-1">{items}</ol> : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+  }
+  return <p key={i}>{renderInline(block.content)}</p>;
+};
+
+export const TextTile: React.FC<TextTileProps> = ({ text, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(text ? null : '');
+
+  const save = () => {
+    if (draft !== null) onChange(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-8 rounded-[2rem] shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-xl transition-all h-full flex flex-col relative group/text">
+      {draft !== null ? (
+        <>
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) save(); }}
+            placeholder={'## Commentary\nWrite **markdown** here. Ctrl+Enter to save.'}
+            className="flex-1 w-full resize-none bg-slate-50 dark:bg-slate-800 border-none rounded-2xl p-4 text-sm font-medium outline-none focus:ring-4 focus:ring-indigo-500/10 dark:text-slate-100"
+          />
+          <button onClick={save} className="mt-3 self-end flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest"><Check size={14} /> Done</button>
+        </>
+      ) : (
+        <>
+          <div className="flex-1 overflow-auto space-y-3 text-sm font-medium leading-relaxed text-slate-600 dark:text-slate-300">{parseMarkdown(text).map(renderBlock)}</div>
+          <button onClick={() => setDraft(text)} title="Edit text" className="absolute top-4 right-4 p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 dark:hover:bg-slate-800 opacity-0 group-hover/text:opacity-100 transition-all"><Pencil size={14} /></button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMetadata, ColumnRename, DashboardTile, Dataset } from '../types';
+import { getBaseColumns } from '../services/formulaEngine';
+import { detectSchemaDrift, retainCalculatedColumns, suggestRenames } from '../services/versioning';
+import { isBoundTile, renameTileColumns, tileColumns, tileTitle } from '../services/tileBinding';
+import { AlertCircle, ArrowRight, GitBranch, X } from 'lucide-react';
+
+interface VersionImportModalProps {
+  dataset: Dataset;
+  fileName: string;
+  columns: string[];
+  metadata: Record<string, ColumnMetadata>;
+  rowCount: number;
+  tiles: DashboardTile[]; // dashboard tiles built on this dataset
+  onConfirm: (renames: ColumnRename[]) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const ColumnChips: React.FC<{ columns: string[]; tone: string }> = ({ columns, tone }) => (
+  <div className="flex flex-wrap gap-2">
+    {columns.map(c => <span key={c} className={`px-3 py-1 rounded-xl text-xs font-bold ${tone}`}>{c}</span>)}
+  </div>
+);
+
+export const VersionImportModal: React.FC<VersionImportModalProps> = ({ dataset, fileName, columns, metadata, rowCount, tiles, onConfirm, onCancel }) => {
+  const previous = useMemo(() => ({
+    columns: getBaseColumns(dataset.columns, dataset.calculatedColumns),
+    metadata: dataset.metadata,
+    rowCount: dataset.rows.length
+  }), [dataset]);
+  const next = { columns, metadata, rowCount };
+
+  const [renames, setRenames] = useState<Record<string, string>>(() => {
+    const initial = detectSchemaDrift(previous, next);
+    return Object.fromEntries(suggestRenames(initial.removed, initial.added, dataset.metadata, metadata).map(r => [r.from, r.to]));
+  });
+
+  const unmatched = detectSchemaDrift(previous, next);
+  const renameList: ColumnRename[] = unmatched.removed.filter(from => renames[from]).map(from => ({ from, to: renames[from] }));
+  const renameMap = Object.fromEntries(renameList.map(r => [r.from, r.to]));
+  const drift = detectSchemaDrift(previous, next, renameList);
+  const renameTargets = (from: string) => unmatched.added.filter(c => c === renames[from] || !Object.values(renames).includes(c));
+
+  const { kept, dropped } = retainCalculatedColumns(columns, dataset.calculatedColumns);
+  const available = [...columns, ...kept.map(c => c.name)];
+  const staleTiles = tiles.filter(isBoundTile).map(t => ({
+    tile: t,
+    missing: tileColumns(renameTileColumns(t, renameMap)).filter(c => !available.includes(c))
+  })).filter(t => t.missing.length > 0);
+  const snapshotTiles = tiles.filter(t => !isBoundTile(t)).length;
+  const version = dataset.version || 1;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div>
+            <div className="flex items-center gap-3">
+              <GitBranch size={24} className="text-indigo-600" />
+              <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">New Version of {dataset.name}</h2>
+            </div>
+            <p className="text-xs font-bold text-slate-400 mt-1">v{version} → v{version + 1} from {fileName}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+              <p className={labelClass}>Rows</p>
+              <p className="text-lg font-black text-slate-900 dark:text-slate-100">{drift.rowCountBefore.toLocaleString()} → {drift.rowCountAfter.toLocaleString()}</p>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+              <p className={labelClass}>Columns</p>
+              <p className="text-lg font-black text-slate-900 dark:text-slate-100">{previous.columns.length} → {columns.length}</p>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+              <p className={labelClass}>Renamed</p>
+              <p className="text-lg font-black text-slate-900 dark:text-slate-100">{drift.renamed.length}</p>
+            </div>
+          </div>
+
+          {unmatched.removed.length > 0 && (
+            <div className="space-y-3">
+              <label className={labelClass}>Missing Columns</label>
+              <p className="text-xs font-bold text-slate-400">Match a column that was renamed so tiles and saved filters follow it.</p>
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                {unmatched.removed.map(from => (
+                  <div key={from} className="flex items-center gap-3 px-4 py-3 text-sm font-bold">
+                    <span className="flex-1 text-slate-900 dark:text-slate-100 truncate">{from}</span>
+                    <ArrowRight size={14} className="text-slate-400" />
+                    <select
+                      value={renames[from] || ''}
+                      onChange={(e) => setRenames(prev => ({ ...prev, [from]: e.target.value }))}
+                      className="flex-1 bg-white dark:bg-slate-900 border-none rounded-xl px-3 py-2 text-xs font-bold outline-none dark:text-slate-100"
+                    >
+                      <option value="">Removed</option>
+                      {renameTargets(from).map(c => <option key={c} value={c}>Renamed to {c}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {drift.added.length > 0 && (
+            <div className="space-y-3">
+              <label className={labelClass}>Added Columns</label>
+              <ColumnChips columns={drift.added} tone="bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400" />
+            </div>
+          )}
+          {drift.removed.length > 0 && (
+            <div className="space-y-3">
+              <label className={labelClass}>Removed Columns</label>
+              <ColumnChips columns={drift.removed} tone="bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-400" />
+            </div>
+          )}
+          {drift.retyped.length > 0 && (
+            <div className="space-y-3">
+              <label className={labelClass}>Changed Types</label>
+              <ColumnChips columns={drift.retyped.map(t => `${t.column}: ${t.from} → ${t.to}`)} tone="bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400" />
+            </div>
+          )}
+
+          {(staleTiles.length > 0 || dropped.length > 0) && (
+            <div className="space-y-2 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 text-xs font-bold text-amber-700 dark:text-amber-400">
+              {staleTiles.map(({ tile, missing }) => (
+                <p key={tile.id} className="flex items-start gap-2"><AlertCircle size={14} className="shrink-0 mt-0.5" /> Tile "{tileTitle(tile)}" will keep its last values: it needs {missing.join(', ')}.</p>
+              ))}
+              {dropped.map(c => (
+                <p key={c.name} className="flex items-start gap-2"><AlertCircle size={14} className="shrink-0 mt-0.5" /> Calculated column {c.name} no longer resolves and will be removed.</p>
+              ))}
+            </div>
+          )}
+          {snapshotTiles > 0 && <p className="text-xs font-bold text-slate-400">{snapshotTiles} dashboard tile{snapshotTiles > 1 ? 's were' : ' was'} pinned without a query and will keep showing the previous version.</p>}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onCancel} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={() => onConfirm(renameList)} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest">Import Version {version + 1}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
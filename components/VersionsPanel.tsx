@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DashboardTile, Dataset, DatasetVersion } from '../types';
+import { getBaseColumns } from '../services/formulaEngine';
+import { compareColumnTotals, compareKpiTiles, describeDrift, KpiComparison, renamesSince } from '../services/versioning';
+import { GitBranch, Loader2, X } from 'lucide-react';
+
+interface VersionsPanelProps {
+  dataset: Dataset;
+  datasets: Dataset[];
+  tiles: DashboardTile[]; // KPI tiles on this dataset's dashboards are compared too
+  onLoadRows: (datasetId: string) => Promise<Dataset | undefined>;
+  onClose: () => void;
+}
+
+const formatValue = (n: number | null) => n === null ? '—' : n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const ComparisonRow: React.FC<{ row: KpiComparison }> = ({ row }) => (
+  <div className="flex items-center gap-3 px-4 py-3 text-xs font-bold">
+    <span className="flex-1 min-w-0 truncate text-slate-900 dark:text-slate-100">{row.label}</span>
+    <span className="text-slate-400">{formatValue(row.before)} → {formatValue(row.after)}</span>
+    <span className={`w-16 text-right ${row.change === null || row.change === 0 ? 'text-slate-400' : row.change > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+      {row.change === null ? '—' : `${row.change > 0 ? '+' : ''}${row.change.toFixed(1)}%`}
+    </span>
+  </div>
+);
+
+export const VersionsPanel: React.FC<VersionsPanelProps> = ({ dataset, datasets, tiles, onLoadRows, onClose }) => {
+  const history = dataset.versions || [];
+  const [compareId, setCompareId] = useState(history[history.length - 1]?.datasetId || '');
+  const [isLoading, setIsLoading] = useState(false);
+  const archive = datasets.find(d => d.id === compareId);
+  const compared = history.find(v => v.datasetId === compareId);
+
+  useEffect(() => {
+    if (!compareId) return;
+    setIsLoading(true);
+    onLoadRows(compareId).finally(() => setIsLoading(false));
+  }, [compareId]);
+
+  const comparison = useMemo(() => {
+    if (!archive || isLoading) return null;
+    const shape = (d: Dataset) => ({ columns: getBaseColumns(d.columns, d.calculatedColumns), metadata: d.metadata, rowCount: d.rows.length });
+    const renames = compared ? renamesSince(dataset, compared.version) : {};
+    return {
+      totals: compareColumnTotals(shape(archive), shape(dataset), renames),
+      kpis: compareKpiTiles(tiles, archive.rows, dataset.rows, renames)
+    };
+  }, [archive, compared, dataset, tiles, isLoading]);
+
+  const current: DatasetVersion = { datasetId: dataset.id, version: dataset.version || 1, label: dataset.versionLabel || dataset.name, importedAt: dataset.importedAt, rowCount: dataset.rows.length, drift: dataset.drift };
+
+  return (
+    <div className="fixed top-14 right-0 bottom-0 w-[380px] z-[90] bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-right-10 duration-300">
+      <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-start">
+        <div>
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2"><GitBranch size={14} /> Imported Extracts</div>
+          <h3 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Versions</h3>
+          <p className="text-[10px] font-bold text-slate-400 mt-1">Pick an earlier version to compare against</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div className="space-y-2">
+          {[current, ...[...history].reverse()].map(v => {
+            const isCurrent = v.datasetId === dataset.id;
+            const isCompared = v.datasetId === compareId;
+            return (
+              <button
+                key={v.datasetId}
+                onClick={() => !isCurrent && setCompareId(v.datasetId)}
+                disabled={isCurrent}
+                className={`w-full text-left flex items-start gap-3 p-4 rounded-2xl transition-all ${isCurrent ? 'bg-indigo-50 dark:bg-indigo-900/20 ring-2 ring-indigo-600' : isCompared ? 'bg-slate-100 dark:bg-slate-800 ring-2 ring-slate-300 dark:ring-slate-600' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+              >
+                <span className={`mt-0.5 text-xs font-black ${isCurrent ? 'text-indigo-600' : 'text-slate-400'}`}>v{v.version}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-black text-slate-900 dark:text-slate-100 truncate">{v.label}</span>
+                  <span className="block text-[10px] font-bold text-slate-400">
+                    {v.importedAt ? new Date(v.importedAt).toLocaleDateString() : 'Original upload'} · {v.rowCount.toLocaleString()} rows{isCurrent ? ' · current' : ''}
+                  </span>
+                  {v.drift && <span className="block text-[10px] font-bold text-slate-500 mt-1">{describeDrift(v.drift)}</span>}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        {history.length === 0 && <p className="text-sm font-bold text-slate-400">Only one version so far. Upload a newer extract and import it as a new version of this dataset to compare them here.</p>}
+
+        {compared && (
+          <div className="space-y-3">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">v{compared.version} → v{current.version}</label>
+            {isLoading || !comparison ? (
+              <p className="flex items-center gap-2 text-xs font-bold text-slate-400"><Loader2 size={14} className="animate-spin" /> Loading rows…</p>
+            ) : (
+              <>
+                {comparison.kpis.length > 0 && (
+                  <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                    {comparison.kpis.map((row, i) => <ComparisonRow key={`kpi-${i}`} row={row} />)}
+                  </div>
+                )}
+                <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+                  {comparison.totals.map(row => <ComparisonRow key={row.label} row={row} />)}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
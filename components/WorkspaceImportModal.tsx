@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Dataset } from '../types';
+import { bundleCollisions, CollisionMode, WorkspaceBundle } from '../services/workspaceBundle';
+import { AlertCircle, Database, PackageOpen, X } from 'lucide-react';
+
+interface WorkspaceImportModalProps {
+  bundle: WorkspaceBundle;
+  fileName: string;
+  datasets: Dataset[]; // everything already in the workspace
+  onConfirm: (mode: CollisionMode) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const MODES: { id: CollisionMode; label: string; description: string }[] = [
+  { id: 'copy', label: 'Keep Both', description: 'Import as copies alongside your datasets and sessions.' },
+  { id: 'replace', label: 'Replace Mine', description: 'Overwrite your datasets and sessions with the bundled ones.' }
+];
+
+export const WorkspaceImportModal: React.FC<WorkspaceImportModalProps> = ({ bundle, fileName, datasets, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<CollisionMode>('copy');
+  const live = bundle.datasets.filter(b => !b.dataset.archivedFrom);
+  const collisions = bundleCollisions(bundle, datasets);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-slate-950/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800 transition-colors flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <PackageOpen size={24} className="text-indigo-600" />
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter text-slate-900 dark:text-slate-100">Import Workspace</h2>
+              <p className="text-slate-400 font-bold text-xs truncate">{fileName} · exported {new Date(bundle.exportedAt).toLocaleString()}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all dark:text-slate-400"><X size={20}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="space-y-3">
+            <label className={labelClass}>Contents</label>
+            {live.map(({ dataset, rows, history }) => {
+              const sessionCount = bundle.sessions.filter(s => s.datasetId === dataset.id).length;
+              return (
+                <div key={dataset.id} className="flex items-center gap-4 p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50">
+                  <Database size={18} className="text-indigo-600 shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-black text-slate-900 dark:text-slate-100 truncate">{dataset.name}</span>
+                    <span className="block text-xs font-bold text-slate-400">
+                      {rows.length.toLocaleString()} rows · {dataset.columns.length} columns · {sessionCount} session{sessionCount === 1 ? '' : 's'}
+                      {(dataset.versions?.length || 0) > 0 && ` · ${dataset.versions!.length + 1} versions`}
+                      {history && ` · ${history.entries.length - 1} undoable step${history.entries.length === 2 ? '' : 's'}`}
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          {collisions.length > 0 && (
+            <div className="space-y-3">
+              <p className="flex items-center gap-2 text-xs font-bold text-amber-600"><AlertCircle size={14} /> Already in your workspace: {collisions.map(d => d.name).join(', ')}</p>
+              <div className="grid grid-cols-2 gap-3">
+                {MODES.map(m => (
+                  <button key={m.id} onClick={() => setMode(m.id)} className={`text-left p-4 rounded-2xl border-2 transition-all ${mode === m.id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-100 dark:border-slate-800 hover:border-indigo-600/20'}`}>
+                    <span className="block text-sm font-black text-slate-900 dark:text-slate-100">{m.label}</span>
+                    <span className="block text-xs font-bold text-slate-400">{m.description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-8 bg-slate-50 dark:bg-slate-950 flex gap-4">
+          <button onClick={onCancel} className="flex-1 py-3 font-black text-slate-400 hover:text-slate-600 transition-all uppercase text-[10px]">Cancel</button>
+          <button onClick={() => onConfirm(mode)} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black shadow-lg hover:scale-[1.02] transition-all uppercase text-[10px] tracking-widest">Import {live.length} Dataset{live.length === 1 ? '' : 's'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
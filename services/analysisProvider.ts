@@ -0,0 +1,86 @@
+import { AnalysisResult, CleaningSuggestion, Dataset, ProviderId, ProviderSettings, QuerySpec } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { CLEANING_ACTIONS, normalizeCleaningParams } from './cleaningEngine';
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnalysisRequestOptions extends ProviderRequestOptions {
+  /** Called with the whole `textResponse` received so far while the answer streams in. */
+  onText?: (text: string) => void;
+}
+
+/** Everything the app asks of a language model. Implementations must not depend on app state. */
+export interface AnalysisProvider {
+  id: ProviderId;
+  planQuery: (dataset: Dataset, question: string, options?: ProviderRequestOptions) => Promise<QuerySpec>;
+  analyzeData: (summary: string, question: string, sampleRows: any[], options?: AnalysisRequestOptions) => Promise<AnalysisResult>;
+  getCleaningSuggestions: (summary: string, sampleRows: any[], options?: ProviderRequestOptions) => Promise<CleaningSuggestion[]>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-Compatible',
+  mock: 'Offline Mock'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.1'
+};
+
+const CHART_TYPES = ['bar', 'line', 'scatter', 'pie', 'area', 'radar', 'boxplot'];
+const SEVERITIES = ['low', 'medium', 'high'];
+
+export const buildAnalysisPrompt = (summary: string, question: string, sampleRows: any[]) =>
+  `Dataset: ${summary}\nRows: ${JSON.stringify(sampleRows)}\n\nQuestion: ${question}\n\nAnswer the question for an executive audience. Put the written answer in textResponse first.`;
+
+export const buildCleaningPrompt = (summary: string, sampleRows: any[]) =>
+  `Dataset: ${summary}\nSample rows: ${JSON.stringify(sampleRows)}\n\nList data quality problems and how to fix them. Pick the actionType that fixes each problem and give its params.`;
+
+/** Coerces loosely structured model JSON into an `AnalysisResult`. */
+export const normalizeAnalysisResult = (raw: any): AnalysisResult => {
+  const chart = raw?.suggestedChart;
+  return {
+    textResponse: typeof raw?.textResponse === 'string' ? raw.textResponse : String(raw?.textResponse ?? ''),
+    suggestedChart: chart && CHART_TYPES.includes(chart.type) && Array.isArray(chart.data) ? {
+      type: chart.type,
+      title: String(chart.title ?? ''),
+      data: chart.data.filter((d: any) => d && d.x !== undefined).map((d: any) => ({ ...d, y: Number(d.y) || 0 })),
+      xAxisLabel: String(chart.xAxisLabel ?? ''),
+      yAxisLabel: String(chart.yAxisLabel ?? '')
+    } : undefined,
+    insights: Array.isArray(raw?.insights) ? raw.insights.map(String) : undefined,
+    metrics: Array.isArray(raw?.metrics) ? raw.metrics.filter((m: any) => m?.label).map((m: any) => ({
+      label: String(m.label),
+      value: typeof m.value === 'number' ? m.value : String(m.value ?? ''),
+      trend: typeof m.trend === 'number' ? m.trend : undefined,
+      description: m.description
+    })) : undefined
+  };
+};
+
+export const normalizeCleaningSuggestions = (raw: any): CleaningSuggestion[] => {
+  const items = Array.isArray(raw) ? raw : Array.isArray(raw?.suggestions) ? raw.suggestions : [];
+  return items.filter((s: any) => s?.column && s?.issue).map((s: any) => ({
+    id: Math.random().toString(36).substr(2, 9),
+    column: String(s.column),
+    issue: String(s.issue),
+    suggestion: String(s.suggestion ?? ''),
+    severity: SEVERITIES.includes(s.severity) ? s.severity : 'medium',
+    actionType: CLEANING_ACTIONS.includes(s.actionType) ? s.actionType : undefined,
+    params: normalizeCleaningParams(s.params)
+  }));
+};
+
+export const createProvider = (settings: ProviderSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider();
+  }
+};
@@ -0,0 +1,267 @@
+import { Anomaly, AnomalyMethod, AnomalyScanOptions, AnomalySensitivity, AnomalySeverity, ChartConfig, ColumnMetadata, ColumnStats } from '../types';
+import { parseAnyDate, parseDate } from './dateParsing';
+import { computeNumericStats, extent, quantile, toNumber } from './profiler';
+import { aggregateValues, buildChartFromQuery } from './queryEngine';
+import { getRowId, stripRowId } from './rowIdentity';
+import { dateColumns, periodStart, resampleSeries } from './timeSeries';
+
+export const ANOMALY_METHOD_LABELS: Record<AnomalyMethod, string> = {
+  iqr: 'IQR Fences',
+  zscore: 'Z-Score',
+  mad: 'Robust MAD'
+};
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyScanOptions = { methods: ['iqr', 'zscore', 'mad'], sensitivity: 'medium', levelShifts: true };
+
+// Thresholds per sensitivity: IQR multiples past the quartiles, standard deviations from the
+// mean, and modified z-scores (0.6745 × deviation / MAD) from the median.
+const THRESHOLDS: Record<AnomalySensitivity, Record<AnomalyMethod, number>> = {
+  low: { iqr: 3, zscore: 4, mad: 5 },
+  medium: { iqr: 2.2, zscore: 3, mad: 3.5 },
+  high: { iqr: 1.5, zscore: 2.5, mad: 3 }
+};
+// Level shifts compare segment medians against the series' robust noise, in the same units as a z-score.
+const SHIFT_THRESHOLDS: Record<AnomalySensitivity, number> = { low: 4, medium: 3, high: 2.5 };
+
+const MIN_VALUES = 8;
+const MIN_SEGMENT = 4;
+const MAX_SHIFTS_PER_COLUMN = 5;
+const MAX_ANOMALIES = 1000;
+const MAX_SCORE = 10;
+const MAD_SCALE = 0.6745;
+
+export interface AnomalyReport {
+  anomalies: Anomaly[];
+  scannedColumns: string[];
+  dateColumn?: string; // the column level shifts were measured along
+  truncated: boolean; // more than MAX_ANOMALIES were flagged; the weakest were dropped
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const formatValue = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const severityFor = (score: number): AnomalySeverity => score >= 2 ? 'high' : score >= 1.5 ? 'medium' : 'low';
+
+const roundScore = (score: number) => Math.round(Math.min(MAX_SCORE, score) * 10) / 10;
+
+interface PointTest {
+  method: AnomalyMethod;
+  ratio: number; // statistic ÷ threshold; flagged at 1 or more
+  reason: string;
+}
+
+/** Scores values against each method's reference point. Methods whose spread is zero are skipped. */
+const pointTester = (values: number[], stats: ColumnStats, methods: AnomalyMethod[], sensitivity: AnomalySensitivity) => {
+  const thresholds = THRESHOLDS[sensitivity];
+  const sorted = stats.median === undefined || stats.q1 === undefined || stats.q3 === undefined ? [...values].sort((a, b) => a - b) : null;
+  const median = stats.median ?? quantile(sorted!, 0.5);
+  const q1 = stats.q1 ?? quantile(sorted!, 0.25);
+  const q3 = stats.q3 ?? quantile(sorted!, 0.75);
+  const stdDev = stats.stdDev ?? computeNumericStats(values).stdDev!;
+  const mad = methods.includes('mad') ? quantile(values.map(v => Math.abs(v - median)).sort((a, b) => a - b), 0.5) : 0;
+  const iqr = q3 - q1;
+
+  return (value: number): PointTest[] => {
+    const direction = (above: boolean) => above ? 'above' : 'below';
+    const tests: PointTest[] = [];
+    if (methods.includes('iqr') && iqr > 0 && (value > q3 || value < q1)) {
+      const distance = (value > q3 ? value - q3 : q1 - value) / iqr;
+      tests.push({ method: 'iqr', ratio: distance / thresholds.iqr, reason: `${formatValue(value)} is ${distance.toFixed(1)} × IQR ${value > q3 ? `above Q3 (${formatValue(q3)})` : `below Q1 (${formatValue(q1)})`}` });
+    }
+    if (methods.includes('zscore') && stdDev > 0) {
+      const z = Math.abs(value - stats.avg) / stdDev;
+      tests.push({ method: 'zscore', ratio: z / thresholds.zscore, reason: `${formatValue(value)} is ${z.toFixed(1)} standard deviations ${direction(value > stats.avg)} the mean (${formatValue(stats.avg)})` });
+    }
+    if (methods.includes('mad') && mad > 0) {
+      const z = (MAD_SCALE * Math.abs(value - median)) / mad;
+      tests.push({ method: 'mad', ratio: z / thresholds.mad, reason: `${formatValue(value)} is ${z.toFixed(1)} robust deviations ${direction(value > median)} the median (${formatValue(median)})` });
+    }
+    return tests.filter(t => t.ratio >= 1).sort((a, b) => b.ratio - a.ratio);
+  };
+};
+
+/** Single values far from the rest of their column, scored by every method that flags them. */
+export const detectPointAnomalies = (rows: any[], column: string, stats: ColumnStats | undefined, options: Pick<AnomalyScanOptions, 'methods' | 'sensitivity'>): Anomaly[] => {
+  const numbered = rows.map(row => ({ row, value: toNumber(row[column]) })).filter((d): d is { row: any; value: number } => d.value !== null);
+  if (numbered.length < MIN_VALUES || options.methods.length === 0) return [];
+  const values = numbered.map(d => d.value);
+  const test = pointTester(values, stats ?? computeNumericStats(values), options.methods, options.sensitivity);
+
+  return numbered.flatMap(({ row, value }) => {
+    const tests = test(value);
+    if (tests.length === 0) return [];
+    const score = roundScore(tests[0].ratio);
+    return [{ id: newId(), kind: 'point' as const, column, score, severity: severityFor(score), reason: tests[0].reason, rowIds: [getRowId(row)], methods: tests.map(t => t.method), value }];
+  });
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const median = (values: number[]) => quantile([...values].sort((a, b) => a - b), 0.5);
+
+interface Shift {
+  index: number; // first period after the shift
+  before: number;
+  after: number;
+  ratio: number;
+}
+
+/**
+ * Binary segmentation: splits each segment where the difference in means,
+ * weighted by segment sizes, is largest, and keeps the split when the
+ * segments' medians differ by more than the threshold times the noise.
+ * Noise comes from the median absolute first difference, so the shifts
+ * being looked for do not inflate it.
+ */
+export const detectLevelShifts = (values: number[], sensitivity: AnomalySensitivity): Shift[] => {
+  if (values.length < MIN_SEGMENT * 2) return [];
+  const diffs = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+  const scale = Math.max(extent(values.map(Math.abs)).max, 1);
+  const noise = Math.max((1.4826 * median(diffs)) / Math.SQRT2, scale * 1e-6);
+  const threshold = SHIFT_THRESHOLDS[sensitivity];
+  const shifts: Shift[] = [];
+
+  const split = (start: number, end: number) => {
+    if (end - start < MIN_SEGMENT * 2 || shifts.length >= MAX_SHIFTS_PER_COLUMN) return;
+    let best = -1, bestGain = 0;
+    for (let k = start + MIN_SEGMENT; k <= end - MIN_SEGMENT; k++) {
+      const left = k - start, right = end - k;
+      const gain = Math.abs(mean(values.slice(k, end)) - mean(values.slice(start, k))) * Math.sqrt((left * right) / (left + right));
+      if (gain > bestGain) { best = k; bestGain = gain; }
+    }
+    if (best < 0) return;
+    const before = median(values.slice(start, best));
+    const after = median(values.slice(best, end));
+    const ratio = Math.abs(after - before) / noise / threshold;
+    if (ratio < 1) return;
+    shifts.push({ index: best, before, after, ratio });
+    split(start, best);
+    split(best, end);
+  };
+  split(0, values.length);
+  return shifts.sort((a, b) => a.index - b.index);
+};
+
+/** Level shifts in the per-period average of `column` along `dateColumn`. */
+const detectColumnShifts = (rows: any[], column: string, dateColumn: string, metadata: Record<string, ColumnMetadata>, sensitivity: AnomalySensitivity): Anomaly[] => {
+  const dateFormat = metadata[dateColumn]?.dateFormat;
+  const series = resampleSeries(rows, dateColumn, bucket => aggregateValues(bucket.map(r => r[column]), 'avg'), { dateFormat, additive: false });
+  if (!series) return [];
+  const shifts = detectLevelShifts(series.values, sensitivity);
+  if (shifts.length === 0) return [];
+
+  const parse = (value: any) => dateFormat ? parseDate(value, dateFormat) : parseAnyDate(value);
+  const rowsByPeriod = new Map<number, string[]>();
+  rows.forEach(row => {
+    const date = parse(row[dateColumn]);
+    if (!date || toNumber(row[column]) === null) return;
+    const key = periodStart(date, series.grain).getTime();
+    const bucket = rowsByPeriod.get(key);
+    if (bucket) bucket.push(getRowId(row));
+    else rowsByPeriod.set(key, [getRowId(row)]);
+  });
+
+  return shifts.map(shift => {
+    const score = roundScore(shift.ratio);
+    const period = series.labels[shift.index];
+    return {
+      id: newId(),
+      kind: 'level_shift' as const,
+      column,
+      score,
+      severity: severityFor(score),
+      reason: `Typical ${column} ${shift.after > shift.before ? 'rose' : 'fell'} from ${formatValue(shift.before)} to ${formatValue(shift.after)} starting ${period}`,
+      rowIds: rowsByPeriod.get(series.periods[shift.index].getTime()) || [],
+      dateColumn,
+      period,
+      before: shift.before,
+      after: shift.after
+    };
+  });
+};
+
+/**
+ * Scans every column in `stats` for point anomalies and, when the dataset
+ * has a date column, for level shifts along the first one. Most severe first.
+ */
+export const scanAnomalies = (
+  dataset: { columns: string[]; rows: any[]; metadata?: Record<string, ColumnMetadata> },
+  stats: Record<string, ColumnStats>,
+  options: AnomalyScanOptions
+): AnomalyReport => {
+  const metadata = dataset.metadata || {};
+  const scannedColumns = Object.keys(stats);
+  const dateColumn = dateColumns(dataset.columns, metadata)[0];
+  const anomalies = scannedColumns.flatMap(column => [
+    ...detectPointAnomalies(dataset.rows, column, stats[column], options),
+    ...(options.levelShifts && dateColumn ? detectColumnShifts(dataset.rows, column, dateColumn, metadata, options.sensitivity) : [])
+  ]).sort((a, b) => b.score - a.score);
+  return { anomalies: anomalies.slice(0, MAX_ANOMALIES), scannedColumns, dateColumn, truncated: anomalies.length > MAX_ANOMALIES };
+};
+
+/** The strongest anomaly for each flagged cell, keyed by row id then column. */
+export const indexAnomalies = (anomalies: Anomaly[]): Map<string, Map<string, Anomaly>> => {
+  const index = new Map<string, Map<string, Anomaly>>();
+  anomalies.forEach(a => a.rowIds.forEach(rowId => {
+    const cells = index.get(rowId) ?? new Map<string, Anomaly>();
+    const current = cells.get(a.column);
+    if (!current || current.score < a.score) cells.set(a.column, a);
+    index.set(rowId, cells);
+  }));
+  return index;
+};
+
+/**
+ * Marks plotted points that stand out from the rest of the chart: point
+ * anomalies in the y values and, for lines and areas, the first point after
+ * each level shift. Pies, radars and box plots are returned unchanged.
+ */
+export const flagChartAnomalies = (config: ChartConfig, options: AnomalyScanOptions): ChartConfig => {
+  if (!['bar', 'line', 'area', 'scatter'].includes(config.type) || config.data.length < MIN_VALUES) return config;
+  const values = config.data.map(d => d.y);
+  const test = pointTester(values, computeNumericStats(values), options.methods, options.sensitivity);
+  const reasons: (string | undefined)[] = values.map(v => test(v)[0]?.reason);
+  if (options.levelShifts && (config.type === 'line' || config.type === 'area')) {
+    detectLevelShifts(values, options.sensitivity).forEach(s => {
+      reasons[s.index] = `Level shift from ${formatValue(s.before)} to ${formatValue(s.after)}`;
+    });
+  }
+  if (reasons.every(r => !r)) return config;
+  return { ...config, data: config.data.map((d, i) => reasons[i] ? { ...d, anomaly: reasons[i] } : d) };
+};
+
+/** A chart of the column behind an anomaly: its box plot, or its series over time for a level shift. */
+export const anomalyChart = (
+  dataset: { rows: any[]; metadata?: Record<string, ColumnMetadata> },
+  anomaly: Anomaly,
+  options: AnomalyScanOptions
+): ChartConfig | undefined => {
+  if (anomaly.kind === 'point') {
+    return buildChartFromQuery(dataset.rows, { groupBy: [], aggregations: [{ column: anomaly.column, fn: 'median' }], filters: [], chartType: 'boxplot', title: `${anomaly.column} distribution` });
+  }
+  const dateColumn = anomaly.dateColumn!;
+  const series = resampleSeries(dataset.rows, dateColumn, bucket => aggregateValues(bucket.map(r => r[anomaly.column]), 'avg'), { dateFormat: dataset.metadata?.[dateColumn]?.dateFormat, additive: false });
+  if (!series) return undefined;
+  return flagChartAnomalies({
+    type: 'line',
+    title: `Average ${anomaly.column} over time`,
+    data: series.labels.map((x, i) => ({ x, y: series.values[i] })),
+    xAxisLabel: dateColumn,
+    yAxisLabel: `Average of ${anomaly.column}`
+  }, { ...options, methods: [] });
+};
+
+/** Summary text and annotated rows for asking a model to explain the given anomalies. */
+export const anomalyContext = (rows: any[], anomalies: Anomaly[], rowLimit: number) => {
+  const byId = new Map(rows.map(r => [getRowId(r), r]));
+  const reasons = new Map<string, string[]>();
+  anomalies.forEach(a => a.rowIds.slice(0, a.kind === 'point' ? 1 : 3).forEach(id => {
+    if (byId.has(id)) reasons.set(id, [...(reasons.get(id) || []), `${a.column}: ${a.reason}`]);
+  }));
+  const flagged = [...reasons.entries()].slice(0, rowLimit).map(([id, why]) => ({ ...stripRowId(byId.get(id)), _anomaly: why.join('; ') }));
+  const summary = [
+    `${anomalies.length} anomalies were flagged locally. Each sample row is a flagged row; its _anomaly field says why.`,
+    ...anomalies.filter(a => a.kind === 'level_shift').slice(0, 10).map(a => `Level shift in ${a.column} along ${a.dateColumn}: ${a.reason}.`)
+  ].join('\n');
+  return { summary, rows: flagged };
+};
@@ -0,0 +1,251 @@
+import { ChartConfig } from '../types';
+import { extent } from './profiler';
+
+/**
+ * Draws a chart as standalone SVG markup, independent of the on-screen
+ * renderer, so exports look the same whether or not the chart is mounted.
+ */
+
+export const CHART_PALETTE = ['#4f46e5', '#0ea5e9', '#10b981', '#f59e0b', '#f43f5e', '#8b5cf6', '#14b8a6', '#64748b'];
+
+export interface ChartSvgOptions {
+  width?: number;
+  height?: number;
+  dark?: boolean;
+  showTitle?: boolean;
+}
+
+const ANOMALY_COLOR = '#e11d48';
+const PAD = { top: 24, right: 24, bottom: 64, left: 72 };
+const TITLE_HEIGHT = 36;
+const MAX_LABEL_CHARS = 14;
+
+export const escapeXml = (text: any) => String(text ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const truncate = (text: string, max = MAX_LABEL_CHARS) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const formatTick = (n: number) => Math.abs(n) >= 1e9 ? `${+(n / 1e9).toFixed(1)}B` : Math.abs(n) >= 1e6 ? `${+(n / 1e6).toFixed(1)}M` : Math.abs(n) >= 1e3 ? `${+(n / 1e3).toFixed(1)}K` : `${+n.toFixed(2)}`;
+
+/** Round axis bounds and about `count` evenly spaced ticks between them. */
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  if (!isFinite(min) || !isFinite(max)) return [0, 1];
+  if (min === max) {
+    const pad = Math.abs(min) || 1;
+    min -= pad;
+    max += pad;
+  }
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rough) || rough;
+  const start = Math.floor(min / step) * step;
+  const ticks = [+start.toFixed(10)];
+  while (ticks[ticks.length - 1] < max - step * 1e-9) ticks.push(+(ticks[ticks.length - 1] + step).toFixed(10));
+  return ticks.length > 1 ? ticks : [ticks[0], +(ticks[0] + step).toFixed(10)];
+};
+
+interface Frame {
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+  text: string;
+  grid: string;
+}
+
+const valueAxis = (frame: Frame, values: number[], includeZero: boolean) => {
+  const { min, max } = extent(includeZero ? [...values, 0] : values);
+  const ticks = niceTicks(min, max);
+  const lo = ticks[0];
+  const hi = ticks[ticks.length - 1];
+  const y = (v: number) => frame.y0 + frame.height - ((v - lo) / (hi - lo)) * frame.height;
+  const markup = ticks.map(t => `<line x1="${frame.x0}" x2="${frame.x0 + frame.width}" y1="${y(t)}" y2="${y(t)}" stroke="${frame.grid}" stroke-width="1"/><text x="${frame.x0 - 8}" y="${y(t) + 4}" text-anchor="end" font-size="11" fill="${frame.text}">${formatTick(t)}</text>`).join('');
+  return { y, markup };
+};
+
+const categoryAxis = (frame: Frame, labels: string[]) => {
+  const band = frame.width / Math.max(1, labels.length);
+  const x = (i: number) => frame.x0 + band * i + band / 2;
+  const rotate = labels.length > 8 || labels.some(l => l.length > 10 && labels.length > 4);
+  const every = Math.ceil(labels.length / 30);
+  const markup = labels.map((l, i) => {
+    if (i % every) return '';
+    const ly = frame.y0 + frame.height + 18;
+    return rotate
+      ? `<text x="${x(i)}" y="${ly}" font-size="11" fill="${frame.text}" text-anchor="end" transform="rotate(-35 ${x(i)} ${ly})">${escapeXml(truncate(l))}</text>`
+      : `<text x="${x(i)}" y="${ly}" font-size="11" fill="${frame.text}" text-anchor="middle">${escapeXml(truncate(l))}</text>`;
+  }).join('');
+  return { x, band, markup };
+};
+
+const axisLabels = (frame: Frame, config: ChartConfig) =>
+  `<text x="${frame.x0 + frame.width / 2}" y="${frame.y0 + frame.height + PAD.bottom - 6}" text-anchor="middle" font-size="11" font-weight="700" fill="${frame.text}">${escapeXml(config.xAxisLabel)}</text>` +
+  `<text x="14" y="${frame.y0 + frame.height / 2}" text-anchor="middle" font-size="11" font-weight="700" fill="${frame.text}" transform="rotate(-90 14 ${frame.y0 + frame.height / 2})">${escapeXml(config.yAxisLabel)}</text>`;
+
+const cartesian = (config: ChartConfig, frame: Frame, color: string): string => {
+  const data = config.data.filter(d => typeof d.y === 'number' && isFinite(d.y));
+  if (data.length === 0) return '';
+  const labels = data.map(d => String(d.x));
+
+  if (config.type === 'scatter' && data.every(d => typeof d.x === 'number')) {
+    const xs = data.map(d => d.x as number);
+    const xSpan = extent(xs);
+    const xTicks = niceTicks(xSpan.min, xSpan.max);
+    const xLo = xTicks[0], xHi = xTicks[xTicks.length - 1];
+    const sx = (v: number) => frame.x0 + ((v - xLo) / (xHi - xLo)) * frame.width;
+    const fitAt = (x: number) => config.fit!.intercept + config.fit!.slope * x;
+    const yAxis = valueAxis(frame, [...data.map(d => d.y), ...(config.fit ? [fitAt(xLo), fitAt(xHi)] : [])], false);
+    const xMarkup = xTicks.map(t => `<text x="${sx(t)}" y="${frame.y0 + frame.height + 18}" text-anchor="middle" font-size="11" fill="${frame.text}">${formatTick(t)}</text>`).join('');
+    const fit = config.fit
+      ? `<line x1="${sx(xLo)}" x2="${sx(xHi)}" y1="${yAxis.y(fitAt(xLo))}" y2="${yAxis.y(fitAt(xHi))}" stroke="${frame.text}" stroke-width="2" stroke-dasharray="6 4"/>`
+      : '';
+    return yAxis.markup + xMarkup + data.map(d => `<circle cx="${sx(d.x as number)}" cy="${yAxis.y(d.y)}" r="4" fill="${color}" fill-opacity="0.7"/>`).join('') + fit;
+  }
+
+  const xAxis = categoryAxis(frame, labels);
+
+  if (config.type === 'boxplot') {
+    const values = data.flatMap(d => [d.min ?? d.y, d.max ?? d.y, ...(d.outliers || [])]);
+    const yAxis = valueAxis(frame, values, false);
+    const boxWidth = Math.min(48, xAxis.band * 0.5);
+    return yAxis.markup + xAxis.markup + data.map((d, i) => {
+      const cx = xAxis.x(i);
+      const q1 = d.q1 ?? d.y, q3 = d.q3 ?? d.y, median = d.median ?? d.y;
+      return `<line x1="${cx}" x2="${cx}" y1="${yAxis.y(d.min ?? q1)}" y2="${yAxis.y(d.max ?? q3)}" stroke="${frame.text}"/>` +
+        `<rect x="${cx - boxWidth / 2}" y="${yAxis.y(q3)}" width="${boxWidth}" height="${Math.max(1, yAxis.y(q1) - yAxis.y(q3))}" fill="${color}" fill-opacity="0.25" stroke="${color}"/>` +
+        `<line x1="${cx - boxWidth / 2}" x2="${cx + boxWidth / 2}" y1="${yAxis.y(median)}" y2="${yAxis.y(median)}" stroke="${color}" stroke-width="2"/>` +
+        (d.outliers || []).map(v => `<circle cx="${cx}" cy="${yAxis.y(v)}" r="3.5" fill="none" stroke="${ANOMALY_COLOR}" stroke-width="1.5"/>`).join('');
+    }).join('');
+  }
+
+  if (config.forecast && (config.type === 'line' || config.type === 'area')) return forecastLine(config, data, frame, color);
+
+  const yAxis = valueAxis(frame, data.map(d => d.y), config.type !== 'scatter');
+  const rings = anomalyRings(data, xAxis.x, yAxis.y);
+  if (config.type === 'bar') {
+    const barWidth = Math.max(1, xAxis.band * 0.7);
+    return yAxis.markup + xAxis.markup + data.map((d, i) => {
+      const top = Math.min(yAxis.y(d.y), yAxis.y(0));
+      return `<rect x="${xAxis.x(i) - barWidth / 2}" y="${top}" width="${barWidth}" height="${Math.max(1, Math.abs(yAxis.y(0) - yAxis.y(d.y)))}" rx="3" fill="${d.anomaly ? ANOMALY_COLOR : color}"/>`;
+    }).join('') + rings;
+  }
+  if (config.type === 'scatter') {
+    return yAxis.markup + xAxis.markup + data.map((d, i) => `<circle cx="${xAxis.x(i)}" cy="${yAxis.y(d.y)}" r="4" fill="${color}" fill-opacity="0.7"/>`).join('') + rings;
+  }
+  const points = data.map((d, i) => `${xAxis.x(i)},${yAxis.y(d.y)}`);
+  const area = config.type === 'area'
+    ? `<polygon points="${xAxis.x(0)},${yAxis.y(0)} ${points.join(' ')} ${xAxis.x(data.length - 1)},${yAxis.y(0)}" fill="${color}" fill-opacity="0.2"/>`
+    : '';
+  return yAxis.markup + xAxis.markup + area + `<polyline points="${points.join(' ')}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"/>` + rings;
+};
+
+/** Circles points flagged by anomaly detection, with the reason as a tooltip. */
+const anomalyRings = (data: ChartConfig['data'], x: (i: number) => number, y: (v: number) => number) =>
+  data.map((d, i) => d.anomaly ? `<circle cx="${x(i)}" cy="${y(d.y)}" r="7" fill="none" stroke="${ANOMALY_COLOR}" stroke-width="2"><title>${escapeXml(d.anomaly)}</title></circle>` : '').join('');
+
+/** Actuals, the fitted trend, and a dashed forecast inside its shaded interval. */
+const forecastLine = (config: ChartConfig, data: ChartConfig['data'], frame: Frame, color: string): string => {
+  const forecast = config.forecast!;
+  const xAxis = categoryAxis(frame, [...data.map(d => String(d.x)), ...forecast.points.map(p => p.x)]);
+  const yAxis = valueAxis(frame, [...data.map(d => d.y), ...forecast.points.flatMap(p => [p.lower, p.upper])], config.type === 'area');
+  const last = data.length - 1;
+  const at = (i: number, v: number) => `${xAxis.x(i)},${yAxis.y(v)}`;
+  const actual = data.map((d, i) => at(i, d.y));
+  const upper = forecast.points.map((p, i) => at(last + 1 + i, p.upper));
+  const lower = forecast.points.map((p, i) => at(last + 1 + i, p.lower)).reverse();
+  const band = `<polygon points="${actual[last]} ${upper.join(' ')} ${lower.join(' ')}" fill="${color}" fill-opacity="0.15"/>`;
+  const projected = `<polyline points="${[actual[last], ...forecast.points.map((p, i) => at(last + 1 + i, p.y))].join(' ')}" fill="none" stroke="${color}" stroke-width="2.5" stroke-dasharray="6 4"/>`;
+  const trend = forecast.trend.length === data.length
+    ? `<polyline points="${forecast.trend.map((v, i) => at(i, v)).join(' ')}" fill="none" stroke="${frame.text}" stroke-width="1" stroke-opacity="0.6"/>`
+    : '';
+  const area = config.type === 'area'
+    ? `<polygon points="${at(0, 0)} ${actual.join(' ')} ${at(last, 0)}" fill="${color}" fill-opacity="0.2"/>`
+    : '';
+  return yAxis.markup + xAxis.markup + area + band + trend + `<polyline points="${actual.join(' ')}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"/>` + projected + anomalyRings(data, xAxis.x, yAxis.y);
+};
+
+const pie = (config: ChartConfig, frame: Frame): string => {
+  const data = config.data.filter(d => typeof d.y === 'number' && d.y > 0);
+  const total = data.reduce((sum, d) => sum + d.y, 0);
+  if (total === 0) return '';
+  const r = Math.min(frame.height, frame.width * 0.6) / 2;
+  const cx = frame.x0 + r;
+  const cy = frame.y0 + frame.height / 2;
+  let angle = -Math.PI / 2;
+  const slices = data.map((d, i) => {
+    const sweep = (d.y / total) * Math.PI * 2;
+    const color = CHART_PALETTE[i % CHART_PALETTE.length];
+    const start = angle;
+    angle += sweep;
+    if (data.length === 1) return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`;
+    const [x1, y1, x2, y2] = [cx + r * Math.cos(start), cy + r * Math.sin(start), cx + r * Math.cos(angle), cy + r * Math.sin(angle)];
+    return `<path d="M${cx},${cy} L${x1},${y1} A${r},${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2},${y2} Z" fill="${color}" stroke="#fff" stroke-width="1"/>`;
+  }).join('');
+  const legendX = cx + r + 32;
+  const legend = data.slice(0, 12).map((d, i) => {
+    const y = frame.y0 + 12 + i * 20;
+    return `<rect x="${legendX}" y="${y - 9}" width="10" height="10" rx="2" fill="${CHART_PALETTE[i % CHART_PALETTE.length]}"/><text x="${legendX + 16}" y="${y}" font-size="11" fill="${frame.text}">${escapeXml(truncate(String(d.x), 24))} · ${((d.y / total) * 100).toFixed(1)}%</text>`;
+  }).join('');
+  return slices + legend;
+};
+
+/** A grid of cells shaded by value: indigo for positive, rose for negative. */
+const heatmap = (config: ChartConfig, frame: Frame): string => {
+  const data = config.data.filter(d => typeof d.y === 'number' && isFinite(d.y));
+  if (data.length === 0) return '';
+  const columns = [...new Set(data.map(d => String(d.x)))];
+  const rows = [...new Set(data.map(d => d.yCategory ?? ''))];
+  const xAxis = categoryAxis(frame, columns);
+  const cellHeight = frame.height / rows.length;
+  const max = extent(data.map(d => Math.abs(d.y))).max || 1;
+  const rowLabels = rows.map((r, i) => `<text x="${frame.x0 - 8}" y="${frame.y0 + cellHeight * (i + 0.5) + 4}" text-anchor="end" font-size="11" fill="${frame.text}">${escapeXml(truncate(r, 10))}</text>`).join('');
+  const cells = data.map(d => {
+    const x = frame.x0 + xAxis.band * columns.indexOf(String(d.x));
+    const y = frame.y0 + cellHeight * rows.indexOf(d.yCategory ?? '');
+    const strength = Math.abs(d.y) / max;
+    const label = xAxis.band >= 36 && cellHeight >= 18
+      ? `<text x="${x + xAxis.band / 2}" y="${y + cellHeight / 2 + 4}" text-anchor="middle" font-size="11" font-weight="700" fill="${strength > 0.5 ? '#ffffff' : frame.text}">${formatTick(d.y)}</text>`
+      : '';
+    return `<rect x="${x + 1}" y="${y + 1}" width="${Math.max(1, xAxis.band - 2)}" height="${Math.max(1, cellHeight - 2)}" rx="3" fill="${d.y < 0 ? CHART_PALETTE[4] : CHART_PALETTE[0]}" fill-opacity="${Math.max(0.05, strength)}"><title>${escapeXml(`${d.yCategory} × ${d.x}: ${d.y}`)}</title></rect>${label}`;
+  }).join('');
+  return rowLabels + xAxis.markup + cells;
+};
+
+const radar = (config: ChartConfig, frame: Frame, color: string): string => {
+  const data = config.data.filter(d => typeof d.y === 'number' && isFinite(d.y));
+  if (data.length < 3) return cartesian({ ...config, type: 'bar' }, frame, color);
+  const r = Math.min(frame.width, frame.height) / 2 - 16;
+  const cx = frame.x0 + frame.width / 2;
+  const cy = frame.y0 + frame.height / 2;
+  const max = extent(data.map(d => d.y)).max || 1;
+  const at = (i: number, scale: number) => {
+    const a = -Math.PI / 2 + (i / data.length) * Math.PI * 2;
+    return [cx + r * scale * Math.cos(a), cy + r * scale * Math.sin(a)];
+  };
+  const rings = [0.25, 0.5, 0.75, 1].map(s => `<polygon points="${data.map((_, i) => at(i, s).join(',')).join(' ')}" fill="none" stroke="${frame.grid}"/>`).join('');
+  const spokes = data.map((d, i) => {
+    const [x, y] = at(i, 1);
+    const [lx, ly] = at(i, 1.1);
+    return `<line x1="${cx}" y1="${cy}" x2="${x}" y2="${y}" stroke="${frame.grid}"/><text x="${lx}" y="${ly}" font-size="11" text-anchor="middle" fill="${frame.text}">${escapeXml(truncate(String(d.x)))}</text>`;
+  }).join('');
+  const shape = `<polygon points="${data.map((d, i) => at(i, Math.max(0, d.y) / max).join(',')).join(' ')}" fill="${color}" fill-opacity="0.3" stroke="${color}" stroke-width="2"/>`;
+  return rings + spokes + shape;
+};
+
+export const renderChartSvg = (config: ChartConfig, options: ChartSvgOptions = {}): string => {
+  const { width = 800, height = 450, dark = false, showTitle = true } = options;
+  const text = dark ? '#94a3b8' : '#64748b';
+  const titleHeight = showTitle ? TITLE_HEIGHT : 0;
+  const frame: Frame = {
+    x0: PAD.left,
+    y0: PAD.top + titleHeight,
+    width: width - PAD.left - PAD.right,
+    height: height - PAD.top - PAD.bottom - titleHeight,
+    text,
+    grid: dark ? '#1e293b' : '#e2e8f0'
+  };
+  const color = config.color || CHART_PALETTE[0];
+  const body = config.type === 'pie' ? pie(config, frame) : config.type === 'radar' ? radar(config, frame, color) : config.type === 'heatmap' ? heatmap(config, frame) : cartesian(config, frame, color) + axisLabels(frame, config);
+  const empty = body ? '' : `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" font-size="13" fill="${text}">No data</text>`;
+  const title = showTitle ? `<text x="${PAD.left}" y="${PAD.top + 12}" font-size="16" font-weight="800" fill="${dark ? '#f1f5f9' : '#0f172a'}">${escapeXml(config.title)}</text>` : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, system-ui, sans-serif"><rect width="100%" height="100%" fill="${dark ? '#0f172a' : '#ffffff'}"/>${title}${body}${empty}</svg>`;
+};
@@ -0,0 +1,276 @@
+import { CleaningActionType, CleaningChange, CleaningParams, CleaningPreview, CleaningSuggestion, Dataset } from '../types';
+import { parseAnyDate, parseDate, toIsoString } from './dateParsing';
+import { isNullish, quantile, toNumber } from './profiler';
+import { getRowId, stripRowId } from './rowIdentity';
+
+type CleaningInput = Pick<Dataset, 'columns' | 'rows' | 'metadata'>;
+
+const PREVIEW_SAMPLE_COUNT = 8;
+
+export const CLEANING_ACTION_LABELS: Record<CleaningActionType, string> = {
+  remove_nulls: 'Remove Empty Rows',
+  normalize: 'Trim Whitespace',
+  convert_types: 'Convert to Numbers',
+  deduplicate: 'Remove Duplicate Rows',
+  fill_nulls: 'Fill Empty Values',
+  change_case: 'Change Case',
+  find_replace: 'Find & Replace',
+  cap_outliers: 'Cap Outliers',
+  parse_dates: 'Dates to ISO',
+  split_column: 'Split Column',
+  dedupe_by_key: 'Deduplicate by Key'
+};
+
+export const CLEANING_ACTIONS = Object.keys(CLEANING_ACTION_LABELS) as CleaningActionType[];
+
+/** Fills in whatever the suggestion left out so every action runs with explicit options. */
+export const withDefaultParams = (actionType: CleaningActionType, column: string, params: CleaningParams = {}): CleaningParams => {
+  switch (actionType) {
+    case 'fill_nulls': return { fillStrategy: 'median', ...params };
+    case 'change_case': return { caseStyle: 'title', ...params };
+    case 'find_replace': return { find: '', replace: '', useRegex: false, ...params };
+    case 'cap_outliers': return { capMethod: 'iqr', lowerPercentile: 5, upperPercentile: 95, ...params };
+    case 'split_column': return { delimiter: ',', newColumns: [`${column}_1`, `${column}_2`], ...params };
+    case 'dedupe_by_key': return { keyColumns: [column], keep: 'first', ...params };
+    default: return params;
+  }
+};
+
+/** Coerces loosely structured model JSON into `CleaningParams`, dropping anything unrecognised. */
+export const normalizeCleaningParams = (raw: any): CleaningParams | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const pick = <T extends string>(value: any, allowed: T[]): T | undefined => allowed.includes(value) ? value : undefined;
+  const text = (value: any) => value === undefined || value === null ? undefined : String(value);
+  const num = (value: any) => isFinite(Number(value)) && value !== '' && value !== null ? Number(value) : undefined;
+  const list = (value: any) => Array.isArray(value) ? value.map(String).filter(Boolean) : typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+  const params: CleaningParams = {
+    fillStrategy: pick(raw.fillStrategy, ['mean', 'median', 'mode', 'constant', 'forward_fill']),
+    fillValue: text(raw.fillValue),
+    caseStyle: pick(raw.caseStyle, ['lower', 'upper', 'title']),
+    find: text(raw.find),
+    replace: text(raw.replace),
+    useRegex: typeof raw.useRegex === 'boolean' ? raw.useRegex : undefined,
+    capMethod: pick(raw.capMethod, ['iqr', 'percentile']),
+    lowerPercentile: num(raw.lowerPercentile),
+    upperPercentile: num(raw.upperPercentile),
+    delimiter: text(raw.delimiter),
+    newColumns: list(raw.newColumns),
+    keyColumns: list(raw.keyColumns),
+    keep: pick(raw.keep, ['first', 'last'])
+  };
+  const defined = Object.entries(params).filter(([, v]) => v !== undefined);
+  return defined.length ? Object.fromEntries(defined) as CleaningParams : undefined;
+};
+
+export const describeCleaningAction = (s: Pick<CleaningSuggestion, 'actionType' | 'column' | 'params'>): string => {
+  if (!s.actionType) return 'No automatic fix';
+  const p = withDefaultParams(s.actionType, s.column, s.params);
+  switch (s.actionType) {
+    case 'fill_nulls': return `Fill empty ${s.column} with ${p.fillStrategy === 'constant' ? `"${p.fillValue ?? ''}"` : p.fillStrategy === 'forward_fill' ? 'the previous value' : `the ${p.fillStrategy}`}`;
+    case 'change_case': return `Convert ${s.column} to ${p.caseStyle} case`;
+    case 'find_replace': return `Replace ${p.useRegex ? `/${p.find}/` : `"${p.find}"`} with "${p.replace}" in ${s.column}`;
+    case 'cap_outliers': return p.capMethod === 'percentile' ? `Cap ${s.column} to the ${p.lowerPercentile}th–${p.upperPercentile}th percentiles` : `Cap ${s.column} to 1.5× IQR fences`;
+    case 'parse_dates': return `Rewrite ${s.column} as ISO dates`;
+    case 'split_column': return `Split ${s.column} on "${p.delimiter}" into ${(p.newColumns || []).join(', ')}`;
+    case 'dedupe_by_key': return `Keep the ${p.keep} row per ${(p.keyColumns || []).join(' + ')}`;
+    default: return `${CLEANING_ACTION_LABELS[s.actionType]} in ${s.column}`;
+  }
+};
+
+const toRegex = (p: CleaningParams): RegExp => p.useRegex
+  ? new RegExp(p.find || '', 'g')
+  : new RegExp((p.find || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
+
+/** Returns a message describing why the action cannot run, or null when it can. */
+export const validateCleaning = (s: Pick<CleaningSuggestion, 'actionType' | 'column' | 'params'>, columns: string[]): string | null => {
+  if (!s.actionType) return 'This suggestion has no automatic fix.';
+  const p = withDefaultParams(s.actionType, s.column, s.params);
+  const usesColumn = s.actionType !== 'deduplicate' && s.actionType !== 'dedupe_by_key';
+  if (usesColumn && !columns.includes(s.column)) return `Unknown column "${s.column}".`;
+  switch (s.actionType) {
+    case 'fill_nulls':
+      return p.fillStrategy === 'constant' && isNullish(p.fillValue) ? 'Enter a value to fill with.' : null;
+    case 'find_replace':
+      if (!p.find) return 'Enter the text to find.';
+      try { toRegex(p); } catch { return 'The pattern is not a valid regular expression.'; }
+      return null;
+    case 'cap_outliers':
+      if (p.capMethod !== 'percentile') return null;
+      return p.lowerPercentile! < 0 || p.upperPercentile! > 100 || p.lowerPercentile! >= p.upperPercentile! ? 'Percentiles must satisfy 0 ≤ lower < upper ≤ 100.' : null;
+    case 'split_column': {
+      const names = (p.newColumns || []).map(n => n.trim());
+      if (!p.delimiter) return 'Enter a delimiter.';
+      if (names.length < 2 || names.some(n => !n)) return 'Name at least two new columns.';
+      if (new Set(names).size !== names.length) return 'New column names must be unique.';
+      const clash = names.find(n => columns.includes(n));
+      return clash ? `A column named "${clash}" already exists.` : null;
+    }
+    case 'dedupe_by_key': {
+      const keys = p.keyColumns || [];
+      if (keys.length === 0) return 'Choose at least one key column.';
+      const missing = keys.find(k => !columns.includes(k));
+      return missing ? `Unknown column "${missing}".` : null;
+    }
+    default: return null;
+  }
+};
+
+const mapColumn = (rows: any[], column: string, fn: (value: any, row: any) => any): any[] => rows.map(row => {
+  const next = fn(row[column], row);
+  return next === row[column] ? row : { ...row, [column]: next };
+});
+
+const fillValueFor = (values: any[], p: CleaningParams): any => {
+  const present = values.filter(v => !isNullish(v));
+  const numbers = present.map(toNumber).filter((n): n is number => n !== null).sort((a, b) => a - b);
+  switch (p.fillStrategy) {
+    case 'mean': return numbers.length ? numbers.reduce((a, b) => a + b, 0) / numbers.length : null;
+    case 'median': return numbers.length ? quantile(numbers, 0.5) : null;
+    case 'mode': {
+      const counts = new Map<string, { value: any; count: number }>();
+      present.forEach(v => {
+        const entry = counts.get(String(v)) || { value: v, count: 0 };
+        entry.count++;
+        counts.set(String(v), entry);
+      });
+      return [...counts.values()].sort((a, b) => b.count - a.count)[0]?.value ?? null;
+    }
+    default: {
+      // A constant typed into a numeric column should stay numeric.
+      const asNumber = toNumber(p.fillValue);
+      return asNumber !== null && present.length > 0 && numbers.length === present.length ? asNumber : p.fillValue;
+    }
+  }
+};
+
+const toTitleCase = (text: string) => text.toLowerCase().replace(/(^|[\s\-_/])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+
+/** Runs a cleaning action. Unchanged rows keep their identity; split columns are inserted after their source. */
+export const applyCleaning = (d: CleaningInput, s: Pick<CleaningSuggestion, 'actionType' | 'column' | 'params'>): { columns: string[]; rows: any[] } => {
+  const { column } = s;
+  const p = withDefaultParams(s.actionType!, column, s.params);
+  const rows = d.rows;
+  switch (s.actionType) {
+    case 'remove_nulls':
+      return { columns: d.columns, rows: rows.filter(r => !isNullish(r[column])) };
+    case 'deduplicate': {
+      const seen = new Set<string>();
+      return { columns: d.columns, rows: rows.filter(r => {
+        const key = JSON.stringify(stripRowId(r));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }) };
+    }
+    case 'dedupe_by_key': {
+      const keys = p.keyColumns!;
+      const ordered = p.keep === 'last' ? [...rows].reverse() : rows;
+      const seen = new Set<string>();
+      const kept = new Set(ordered.filter(r => {
+        const key = JSON.stringify(keys.map(k => isNullish(r[k]) ? null : String(r[k])));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }));
+      return { columns: d.columns, rows: rows.filter(r => kept.has(r)) };
+    }
+    case 'normalize':
+      return { columns: d.columns, rows: mapColumn(rows, column, v => typeof v === 'string' ? v.trim().replace(/\s{2,}/g, ' ') : v) };
+    case 'convert_types':
+      return { columns: d.columns, rows: mapColumn(rows, column, v => typeof v === 'string' ? toNumber(v) ?? v : v) };
+    case 'fill_nulls': {
+      if (p.fillStrategy === 'forward_fill') {
+        let last: any = null;
+        return { columns: d.columns, rows: mapColumn(rows, column, v => {
+          if (!isNullish(v)) return (last = v);
+          return last ?? v;
+        }) };
+      }
+      const fill = fillValueFor(rows.map(r => r[column]), p);
+      return { columns: d.columns, rows: fill === null ? rows : mapColumn(rows, column, v => isNullish(v) ? fill : v) };
+    }
+    case 'change_case':
+      return { columns: d.columns, rows: mapColumn(rows, column, v => {
+        if (typeof v !== 'string') return v;
+        return p.caseStyle === 'lower' ? v.toLowerCase() : p.caseStyle === 'upper' ? v.toUpperCase() : toTitleCase(v);
+      }) };
+    case 'find_replace': {
+      const re = toRegex(p);
+      return { columns: d.columns, rows: mapColumn(rows, column, v => typeof v === 'string' ? v.replace(re, p.replace || '') : v) };
+    }
+    case 'cap_outliers': {
+      const numbers = rows.map(r => toNumber(r[column])).filter((n): n is number => n !== null).sort((a, b) => a - b);
+      if (numbers.length === 0) return { columns: d.columns, rows };
+      let lower: number;
+      let upper: number;
+      if (p.capMethod === 'percentile') {
+        lower = quantile(numbers, p.lowerPercentile! / 100);
+        upper = quantile(numbers, p.upperPercentile! / 100);
+      } else {
+        const q1 = quantile(numbers, 0.25);
+        const q3 = quantile(numbers, 0.75);
+        lower = q1 - 1.5 * (q3 - q1);
+        upper = q3 + 1.5 * (q3 - q1);
+      }
+      return { columns: d.columns, rows: mapColumn(rows, column, v => {
+        const n = toNumber(v);
+        if (n === null) return v;
+        return n < lower ? lower : n > upper ? upper : v;
+      }) };
+    }
+    case 'parse_dates': {
+      const format = d.metadata?.[column]?.dateFormat;
+      return { columns: d.columns, rows: mapColumn(rows, column, v => {
+        const date = format ? parseDate(v, format) : parseAnyDate(v);
+        return date ? toIsoString(date) : v;
+      }) };
+    }
+    case 'split_column': {
+      const targets = p.newColumns!.map(n => n.trim());
+      const at = d.columns.indexOf(column) + 1;
+      const columns = [...d.columns.slice(0, at), ...targets, ...d.columns.slice(at)];
+      return { columns, rows: rows.map(r => {
+        const parts = isNullish(r[column]) ? [] : String(r[column]).split(p.delimiter!);
+        const values = targets.map((_, i) => {
+          const part = i === targets.length - 1 ? parts.slice(i).join(p.delimiter!) : parts[i];
+          return part === undefined || part.trim() === '' ? null : part.trim();
+        });
+        return { ...r, ...Object.fromEntries(targets.map((t, i) => [t, values[i]])) };
+      }) };
+    }
+    default:
+      return { columns: d.columns, rows };
+  }
+};
+
+/** Runs the action without committing it and reports what would change, matched by row id. */
+export const previewCleaning = (d: CleaningInput, s: Pick<CleaningSuggestion, 'actionType' | 'column' | 'params'>): CleaningPreview => {
+  const result = applyCleaning(d, s);
+  const addedColumns = result.columns.filter(c => !d.columns.includes(c));
+  const after = new Map(result.rows.map(r => [getRowId(r), r]));
+  const samples: CleaningChange[] = [];
+  const removedSamples: Record<string, any>[] = [];
+  let affectedRows = 0;
+  let removedRows = 0;
+  let changedCells = 0;
+
+  d.rows.forEach(before => {
+    const next = after.get(getRowId(before));
+    if (!next) {
+      removedRows++;
+      affectedRows++;
+      if (removedSamples.length < PREVIEW_SAMPLE_COUNT) removedSamples.push(stripRowId(before));
+      return;
+    }
+    if (next === before) return;
+    const changed = result.columns.filter(c => next[c] !== before[c]);
+    if (changed.length === 0) return;
+    affectedRows++;
+    changedCells += changed.length;
+    changed.forEach(column => {
+      if (samples.length < PREVIEW_SAMPLE_COUNT) samples.push({ rowId: getRowId(before), column, before: before[column] ?? null, after: next[column] ?? null });
+    });
+  });
+
+  return { affectedRows, removedRows, changedCells, addedColumns, samples, removedSamples };
+};
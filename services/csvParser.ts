@@ -0,0 +1,192 @@
+import { CsvDelimiter, CsvImportOptions, ImportColumnType } from '../types';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+const DETECTION_SAMPLE_RECORDS = 25;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+// Leading zeros (ZIP codes, account numbers) and long digit runs (IDs) must stay as text.
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+const MAX_SAFE_DIGITS = 15;
+
+/**
+ * Decodes raw file bytes, honouring a UTF-8 / UTF-16 byte order mark and
+ * falling back to Windows-1252 when the content is not valid UTF-8.
+ */
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'UTF-8 (BOM)' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16 LE' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16 BE' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, line breaks and
+ * escaped quotes (`""`). Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (!(record.length === 1 && record[0] === '')) records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += ch;
+      fieldStarted = true;
+    }
+  }
+  if (fieldStarted || record.length > 0) endRecord();
+  return records;
+};
+
+/**
+ * Picks the candidate delimiter that splits a sample of the file into the most
+ * consistent number of fields per record, preferring wider records on ties.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.slice(0, DETECTION_SAMPLE_SIZE);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  let bestWidth = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const records = parseCsv(sample, delimiter).slice(0, DETECTION_SAMPLE_RECORDS);
+    if (records.length === 0) return;
+    const frequency = new Map<number, number>();
+    records.forEach(r => frequency.set(r.length, (frequency.get(r.length) || 0) + 1));
+    const [width, hits] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (width < 2) return;
+    const score = hits / records.length;
+    if (score > bestScore || (score === bestScore && width > bestWidth)) {
+      best = delimiter;
+      bestScore = score;
+      bestWidth = width;
+    }
+  });
+  return best;
+};
+
+const isNumeric = (value: string) => {
+  if (!NUMBER_PATTERN.test(value) || LEADING_ZERO_PATTERN.test(value)) return false;
+  return value.replace(/\D/g, '').length <= MAX_SAFE_DIGITS;
+};
+
+const isBoolean = (value: string) => /^(true|false)$/i.test(value);
+
+const toText = (value: any): string => value === null || value === undefined ? '' : String(value);
+
+export const inferColumnType = (values: any[]): ImportColumnType => {
+  const present = values.map(v => toText(v).trim()).filter(v => v !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(isNumeric)) return 'number';
+  if (present.every(isBoolean)) return 'boolean';
+  return 'string';
+};
+
+/** Converts a raw cell (text from a delimited file, or a native value from other formats) to the chosen type. */
+export const coerceValue = (raw: any, type: ImportColumnType): any => {
+  if (raw === null || raw === undefined) return type === 'string' ? '' : null;
+  const value = toText(raw);
+  const trimmed = value.trim();
+  switch (type) {
+    case 'number':
+      if (typeof raw === 'number') return raw;
+      if (trimmed === '') return null;
+      return isNaN(Number(trimmed)) ? value : Number(trimmed);
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (trimmed === '') return null;
+      return isBoolean(trimmed) ? trimmed.toLowerCase() === 'true' : value;
+    default:
+      return value;
+  }
+};
+
+/** Makes header names non-empty and unique so they can be used as row keys. */
+export const normalizeHeaders = (headers: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map((h, i) => {
+    const base = h.trim() || `Column ${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+/** Header and body records once the leading skipped rows have been removed. */
+export const splitRecords = (records: any[][], skipRows: number, hasHeader: boolean) => {
+  const remaining = records.slice(skipRows);
+  const width = remaining.reduce((max, r) => Math.max(max, r.length), 0);
+  const headers = hasHeader
+    ? normalizeHeaders(Array.from({ length: width }, (_, i) => toText(remaining[0]?.[i])))
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  return { headers, body: hasHeader ? remaining.slice(1) : remaining };
+};
+
+/** Default import options for a set of records: header row on, nothing skipped and inferred types. */
+export const detectImportOptions = (records: any[][], delimiter: CsvDelimiter): CsvImportOptions => {
+  const { headers, body } = splitRecords(records, 0, true);
+  return {
+    delimiter,
+    hasHeader: true,
+    skipRows: 0,
+    headers,
+    columnTypes: headers.map((_, i) => inferColumnType(body.map(r => r[i])))
+  };
+};
+
+export const buildRows = (records: any[][], options: CsvImportOptions): { columns: string[]; rows: any[]; columnTypes: Record<string, ImportColumnType> } => {
+  const { body } = splitRecords(records, options.skipRows, options.hasHeader);
+  const columns = normalizeHeaders(options.headers);
+  const rows = body.map(record => columns.reduce((obj, col, i) => {
+    obj[col] = coerceValue(record[i], options.columnTypes[i] || 'string');
+    return obj;
+  }, {} as any));
+  return { columns, rows, columnTypes: Object.fromEntries(columns.map((col, i) => [col, options.columnTypes[i] || 'string'])) };
+};
@@ -0,0 +1,54 @@
+import { AnalysisSession, DashboardPage, DashboardTile } from '../types';
+
+export const GRID_COLUMNS = 4;
+export const GRID_ROW_HEIGHT = 80; // px per grid row, before gaps
+export const MAX_TILE_ROWS = 12;
+
+export const DEFAULT_PAGE: DashboardPage = { id: 'main', name: 'Overview' };
+
+const DEFAULT_TILE_ROWS: Record<DashboardTile['type'], number> = {
+  kpi: 2,
+  chart: 5,
+  table: 6,
+  text: 3
+};
+
+export const tileRows = (tile: DashboardTile) => tile.h ?? DEFAULT_TILE_ROWS[tile.type];
+
+export const clampTileSize = (w: number, h: number) => ({
+  w: Math.min(GRID_COLUMNS, Math.max(1, Math.round(w))),
+  h: Math.min(MAX_TILE_ROWS, Math.max(1, Math.round(h)))
+});
+
+export const sessionPages = (session: Pick<AnalysisSession, 'pages'>): DashboardPage[] =>
+  session.pages?.length ? session.pages : [DEFAULT_PAGE];
+
+/** The page a tile is shown on: its own page if that still exists, else the first. */
+export const tilePageId = (tile: DashboardTile, pages: DashboardPage[]) =>
+  pages.some(p => p.id === tile.pageId) ? tile.pageId! : pages[0].id;
+
+export const pageTiles = <T extends DashboardTile>(tiles: T[], pages: DashboardPage[], pageId: string): T[] =>
+  tiles.filter(t => tilePageId(t, pages) === pageId);
+
+/** Moves `sourceId` to the position of `targetId`, shifting the tiles in between. */
+export const moveTile = (tiles: DashboardTile[], sourceId: string, targetId: string): DashboardTile[] => {
+  const from = tiles.findIndex(t => t.id === sourceId);
+  const to = tiles.findIndex(t => t.id === targetId);
+  if (from < 0 || to < 0 || from === to) return tiles;
+  const next = [...tiles];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/** Drops a page and the tiles on it. The last page cannot be removed. */
+export const removePage = (session: AnalysisSession, pageId: string): AnalysisSession => {
+  const pages = sessionPages(session);
+  if (pages.length <= 1) return session;
+  const remaining = pages.filter(p => p.id !== pageId);
+  return {
+    ...session,
+    pages: remaining,
+    dashboardTiles: session.dashboardTiles.filter(t => tilePageId(t, pages) !== pageId).map(t => ({ ...t, pageId: tilePageId(t, pages) }))
+  };
+};
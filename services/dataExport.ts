@@ -0,0 +1,126 @@
+import * as XLSX from 'xlsx';
+import { ChartConfig, ColumnMetadata, DataExportFormat, DataExportOptions } from '../types';
+import { parseAnyDate, parseDate, toIsoString } from './dateParsing';
+import { toNumber } from './profiler';
+
+export const DATA_EXPORT_FORMATS: Record<DataExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  tsv: { label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  xlsx: { label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+export const DEFAULT_DATA_EXPORT_OPTIONS: DataExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  includeHeader: true,
+  numberFormat: 'original',
+  decimals: 2,
+  dateFormat: 'original'
+};
+
+/** Columns and rows ready to serialise; `metadata` tells which columns hold dates and numbers. */
+export interface ExportTable {
+  columns: string[];
+  rows: Record<string, any>[];
+  metadata?: Record<string, ColumnMetadata>;
+}
+
+/** Something the user can export: the grid as shown, the whole dataset, or a chart's points. */
+export interface DataExportSource {
+  id: string;
+  label: string;
+  description: string;
+  fileSuffix: string;
+  table: () => ExportTable; // built on export, so large datasets are only copied when needed
+}
+
+// Excel's sheet limit, less one row for the header.
+const XLSX_MAX_ROWS = 1048575;
+
+const formatValue = (value: any, meta: ColumnMetadata | undefined, options: DataExportOptions): any => {
+  if (value === null || value === undefined) return null;
+  if (meta?.type === 'date' && options.dateFormat !== 'original') {
+    const date = (meta.dateFormat && parseDate(value, meta.dateFormat)) || parseAnyDate(value);
+    if (date) return options.dateFormat === 'iso' ? toIsoString(date) : date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  }
+  if (value instanceof Date) return toIsoString(value);
+  if (options.numberFormat !== 'original' && (typeof value === 'number' || meta?.type === 'numeric')) {
+    const n = toNumber(value);
+    if (n !== null) {
+      if (options.numberFormat === 'locale') return n.toLocaleString(undefined, { maximumFractionDigits: options.decimals });
+      // Text files keep the trailing zeros; JSON and Excel keep real numbers.
+      const fixed = n.toFixed(options.decimals);
+      return options.format === 'csv' || options.format === 'tsv' ? fixed : Number(fixed);
+    }
+  }
+  return value;
+};
+
+const formatTable = (table: ExportTable, options: DataExportOptions): any[][] =>
+  table.rows.map(row => table.columns.map(c => formatValue(row[c], table.metadata?.[c], options)));
+
+const quoteField = (value: any, delimiter: string): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toDelimited = (table: ExportTable, options: DataExportOptions, delimiter: string) => {
+  const lines = formatTable(table, options).map(values => values.map(v => quoteField(v, delimiter)).join(delimiter));
+  if (options.includeHeader) lines.unshift(table.columns.map(c => quoteField(c, delimiter)).join(delimiter));
+  return lines.join('\r\n') + '\r\n';
+};
+
+const toRecords = (table: ExportTable, options: DataExportOptions) =>
+  formatTable(table, options).map(values => Object.fromEntries(table.columns.map((c, i) => [c, values[i]])));
+
+/** Serialises the table in the chosen format: text for the delimited and JSON formats, bytes for Excel. */
+export const serializeTable = (table: ExportTable, options: DataExportOptions): string | Uint8Array => {
+  switch (options.format) {
+    case 'csv': return toDelimited(table, options, options.delimiter);
+    case 'tsv': return toDelimited(table, options, '\t');
+    case 'json': return JSON.stringify(toRecords(table, options), null, 2);
+    case 'ndjson': return toRecords(table, options).map(r => JSON.stringify(r)).join('\n') + '\n';
+    case 'xlsx': {
+      if (table.rows.length > XLSX_MAX_ROWS) throw new Error(`Excel sheets hold at most ${XLSX_MAX_ROWS.toLocaleString()} rows. Export as CSV instead.`);
+      const sheet = XLSX.utils.aoa_to_sheet([table.columns, ...formatTable(table, options)]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Data');
+      return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+    }
+  }
+};
+
+/** The points a chart plots, one row per point, named after its axes. */
+export const chartDataTable = (config: ChartConfig): ExportTable => {
+  const x = config.xAxisLabel || 'x';
+  const y = config.yAxisLabel && config.yAxisLabel !== x ? config.yAxisLabel : 'value';
+  if (config.type === 'boxplot') {
+    const columns = [x, 'min', 'q1', 'median', 'q3', 'max', 'outliers'];
+    return { columns, rows: config.data.map(d => ({ [x]: d.x, min: d.min ?? null, q1: d.q1 ?? null, median: d.median ?? d.y, q3: d.q3 ?? null, max: d.max ?? null, outliers: d.outliers?.length ? d.outliers.join(' ') : null })) };
+  }
+  if (config.type === 'heatmap') {
+    // Laid out as the cells are: row labels down a blank-headed first column, then one column per heatmap column.
+    const xs = [...new Set(config.data.map(d => String(d.x)))];
+    const rows = new Map<string, Record<string, any>>();
+    config.data.forEach(d => {
+      const key = d.yCategory ?? '';
+      rows.set(key, { ...(rows.get(key) || Object.fromEntries([['', key], ...xs.map(c => [c, null])])), [String(d.x)]: d.y });
+    });
+    return { columns: ['', ...xs], rows: [...rows.values()] };
+  }
+  if (config.forecast) {
+    // Forecast periods follow the actuals, with the actual column left empty.
+    const columns = [x, y, 'forecast', 'lower', 'upper'];
+    return {
+      columns,
+      rows: [
+        ...config.data.map(d => ({ [x]: d.x, [y]: d.y, forecast: null, lower: null, upper: null })),
+        ...config.forecast.points.map(p => ({ [x]: p.x, [y]: null, forecast: p.y, lower: p.lower, upper: p.upper }))
+      ]
+    };
+  }
+  return { columns: [x, y], rows: config.data.map(d => ({ [x]: d.x, [y]: d.y })) };
+};
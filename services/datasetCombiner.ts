@@ -0,0 +1,187 @@
+import { AppendDerivation, Dataset, DatasetDerivation, JoinDerivation, JoinKey, JoinType } from '../types';
+import { isNullish } from './profiler';
+import { assignRowIds } from './rowIdentity';
+
+const UNMATCHED_SAMPLE_COUNT = 5;
+
+export const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  inner: 'Inner — matching rows only',
+  left: 'Left — every left row',
+  full: 'Full Outer — every row from both'
+};
+
+export interface JoinDiagnostics {
+  leftRows: number;
+  rightRows: number;
+  matchedLeftRows: number;
+  matchedRightRows: number;
+  outputRows: number;
+  duplicateRightKeys: number; // keys matching several right rows, which repeat their left row
+  unmatchedLeftSamples: string[];
+  unmatchedRightSamples: string[];
+}
+
+export interface AppendDiagnostics {
+  sources: { id: string; name: string; rows: number; missingColumns: string[] }[];
+  outputRows: number;
+}
+
+export interface CombineResult<T> {
+  columns: string[];
+  rows: any[];
+  diagnostics: T;
+}
+
+type Source = Pick<Dataset, 'id' | 'name' | 'columns' | 'rows'>;
+
+// Blank keys never match, as in SQL; everything else compares as trimmed text so 7 matches "7".
+const keyOf = (row: any, columns: string[]): string | null => {
+  const parts = columns.map(c => row[c]);
+  return parts.some(isNullish) ? null : JSON.stringify(parts.map(v => String(v).trim()));
+};
+
+const describeKey = (key: string) => (JSON.parse(key) as string[]).join(' / ');
+
+/** Right-hand columns that clash with a left column are prefixed with the right dataset's name. */
+const rightColumnName = (column: string, left: Source, right: Source) => left.columns.includes(column) ? `${right.name}.${column}` : column;
+
+export const joinDatasets = (left: Source, right: Source, keys: JoinKey[], joinType: JoinType): CombineResult<JoinDiagnostics> => {
+  const leftKeys = keys.map(k => k.left);
+  const rightKeys = keys.map(k => k.right);
+  const rightExtra = right.columns.filter(c => !rightKeys.includes(c));
+  const columns = [...left.columns, ...rightExtra.map(c => rightColumnName(c, left, right))];
+
+  const index = new Map<string, any[]>();
+  right.rows.forEach(r => {
+    const key = keyOf(r, rightKeys);
+    if (key === null) return;
+    const bucket = index.get(key);
+    if (bucket) bucket.push(r);
+    else index.set(key, [r]);
+  });
+
+  const rows: any[] = [];
+  const matchedRight = new Set<any>();
+  const unmatchedLeftSamples: string[] = [];
+  let matchedLeftRows = 0;
+
+  const merge = (l: any | null, r: any | null) => {
+    const row: Record<string, any> = {};
+    left.columns.forEach(c => { row[c] = l ? l[c] ?? null : null; });
+    // An unmatched right row still fills in the key so full outer joins keep it identifiable.
+    if (!l && r) keys.forEach(k => { row[k.left] = r[k.right] ?? null; });
+    rightExtra.forEach(c => { row[rightColumnName(c, left, right)] = r ? r[c] ?? null : null; });
+    return row;
+  };
+
+  left.rows.forEach(l => {
+    const key = keyOf(l, leftKeys);
+    const matches = key === null ? undefined : index.get(key);
+    if (matches) {
+      matchedLeftRows++;
+      matches.forEach(r => {
+        matchedRight.add(r);
+        rows.push(merge(l, r));
+      });
+    } else {
+      if (key !== null && unmatchedLeftSamples.length < UNMATCHED_SAMPLE_COUNT) unmatchedLeftSamples.push(describeKey(key));
+      if (joinType !== 'inner') rows.push(merge(l, null));
+    }
+  });
+
+  const unmatchedRightSamples: string[] = [];
+  right.rows.forEach(r => {
+    if (matchedRight.has(r)) return;
+    const key = keyOf(r, rightKeys);
+    if (key !== null && unmatchedRightSamples.length < UNMATCHED_SAMPLE_COUNT) unmatchedRightSamples.push(describeKey(key));
+    if (joinType === 'full') rows.push(merge(null, r));
+  });
+
+  return {
+    columns,
+    rows,
+    diagnostics: {
+      leftRows: left.rows.length,
+      rightRows: right.rows.length,
+      matchedLeftRows,
+      matchedRightRows: matchedRight.size,
+      outputRows: rows.length,
+      duplicateRightKeys: [...index.values()].filter(b => b.length > 1).length,
+      unmatchedLeftSamples,
+      unmatchedRightSamples
+    }
+  };
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Maps each source column onto the output column with the same name, ignoring case and punctuation. */
+export const suggestColumnMap = (source: Pick<Dataset, 'columns'>, targetColumns: string[]): Record<string, string> =>
+  Object.fromEntries(source.columns.map(c => [c, targetColumns.find(t => normalizeName(t) === normalizeName(c)) ?? c]));
+
+/** Output columns in first-seen order across the mapped sources. */
+export const appendColumns = (sources: Source[], columnMaps: AppendDerivation['columnMaps'], sourceColumn?: string): string[] => {
+  const columns: string[] = [];
+  sources.forEach(s => s.columns.forEach(c => {
+    const target = columnMaps[s.id]?.[c] ?? c;
+    if (target && !columns.includes(target)) columns.push(target);
+  }));
+  return sourceColumn && !columns.includes(sourceColumn) ? [...columns, sourceColumn] : columns;
+};
+
+export const appendDatasets = (sources: Source[], columnMaps: AppendDerivation['columnMaps'], sourceColumn?: string): CombineResult<AppendDiagnostics> => {
+  const columns = appendColumns(sources, columnMaps, sourceColumn);
+  const rows: any[] = [];
+  const diagnostics: AppendDiagnostics = { sources: [], outputRows: 0 };
+
+  sources.forEach(s => {
+    const mapping = s.columns.map(c => [c, columnMaps[s.id]?.[c] ?? c] as const).filter(([, target]) => target);
+    const covered = new Set(mapping.map(([, target]) => target));
+    s.rows.forEach(r => {
+      const row: Record<string, any> = Object.fromEntries(columns.map(c => [c, null]));
+      mapping.forEach(([from, to]) => { row[to] = r[from] ?? null; });
+      if (sourceColumn) row[sourceColumn] = s.name;
+      rows.push(row);
+    });
+    diagnostics.sources.push({ id: s.id, name: s.name, rows: s.rows.length, missingColumns: columns.filter(c => c !== sourceColumn && !covered.has(c)) });
+  });
+
+  diagnostics.outputRows = rows.length;
+  return { columns, rows, diagnostics };
+};
+
+export const derivationSourceIds = (derivation: DatasetDerivation): string[] =>
+  derivation.kind === 'join' ? [derivation.leftId, derivation.rightId] : derivation.sourceIds;
+
+const buildJoin = (derivation: JoinDerivation, left: Source, right: Source) => {
+  const missingKey = derivation.keys.find(k => !left.columns.includes(k.left) || !right.columns.includes(k.right));
+  if (missingKey) throw new Error(`Join key ${missingKey.left} = ${missingKey.right} no longer exists in the source datasets.`);
+  return joinDatasets(left, right, derivation.keys, derivation.joinType);
+};
+
+/** Builds a derived dataset's columns and rows from its sources, which must have their rows loaded. Rows get fresh ids. */
+export const buildDerivedDataset = (derivation: DatasetDerivation, datasets: Source[]): { columns: string[]; rows: any[] } => {
+  const byId = new Map(datasets.map(d => [d.id, d]));
+  const missing = derivationSourceIds(derivation).find(id => !byId.has(id));
+  if (missing) throw new Error('A source dataset has been deleted, so this dataset can no longer be rebuilt.');
+  const result = derivation.kind === 'join'
+    ? buildJoin(derivation, byId.get(derivation.leftId)!, byId.get(derivation.rightId)!)
+    : appendDatasets(derivation.sourceIds.map(id => byId.get(id)!), derivation.columnMaps, derivation.sourceColumn);
+  return { columns: result.columns, rows: assignRowIds(result.rows) };
+};
+
+/** True when a source has changed since the derived dataset was built, or has been deleted. */
+export const isDerivedStale = (d: Dataset, datasets: Dataset[]): boolean => {
+  if (!d.derivedFrom) return false;
+  return derivationSourceIds(d.derivedFrom).some(id => {
+    const source = datasets.find(s => s.id === id);
+    return !source || (source.updatedAt ?? 0) > (d.builtAt ?? 0);
+  });
+};
+
+export const describeDerivation = (derivation: DatasetDerivation, datasets: Pick<Dataset, 'id' | 'name'>[]): string => {
+  const name = (id: string) => datasets.find(d => d.id === id)?.name ?? 'deleted dataset';
+  if (derivation.kind === 'append') return `Appended from ${derivation.sourceIds.map(name).join(', ')}`;
+  const on = derivation.keys.map(k => k.left === k.right ? k.left : `${k.left} = ${k.right}`).join(', ');
+  return `${derivation.joinType === 'full' ? 'Full outer' : derivation.joinType === 'left' ? 'Left' : 'Inner'} join of ${name(derivation.leftId)} and ${name(derivation.rightId)} on ${on}`;
+};
@@ -0,0 +1,100 @@
+import { DateFormat } from '../types';
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const YMD_PATTERN = /^(\d{4})[\/.](\d{1,2})[\/.](\d{1,2})$/;
+const DAY_MONTH_PATTERN = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})$/;
+const MONTH_NAME_FIRST_PATTERN = /^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/;
+const DAY_FIRST_NAME_PATTERN = /^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const monthFromName = (name: string): number | null => {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+};
+
+const expandYear = (year: string) => year.length === 2 ? (Number(year) < 50 ? 2000 : 1900) + Number(year) : Number(year);
+
+const buildDate = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  // Reject roll-overs such as 31/02.
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+/** Parses a value written in a known format. All dates are treated as UTC calendar dates. */
+export const parseDate = (value: any, format: DateFormat): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  let m: RegExpMatchArray | null;
+  switch (format) {
+    case 'iso':
+      if (!(m = text.match(ISO_PATTERN))) return null;
+      if (m[4] !== undefined && /[zZ]|[+-]\d{2}:?\d{2}$/.test(text)) {
+        const parsed = new Date(text);
+        return isNaN(parsed.getTime()) ? null : parsed;
+      }
+      return buildDate(Number(m[1]), Number(m[2]), Number(m[3]), Number(m[4] || 0), Number(m[5] || 0), Number(m[6] || 0));
+    case 'ymd':
+      return (m = text.match(YMD_PATTERN)) ? buildDate(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+    case 'mdy':
+      return (m = text.match(DAY_MONTH_PATTERN)) ? buildDate(expandYear(m[3]), Number(m[1]), Number(m[2])) : null;
+    case 'dmy':
+      return (m = text.match(DAY_MONTH_PATTERN)) ? buildDate(expandYear(m[3]), Number(m[2]), Number(m[1])) : null;
+    case 'text': {
+      if ((m = text.match(MONTH_NAME_FIRST_PATTERN))) {
+        const month = monthFromName(m[1]);
+        return month ? buildDate(Number(m[3]), month, Number(m[2])) : null;
+      }
+      if ((m = text.match(DAY_FIRST_NAME_PATTERN))) {
+        const month = monthFromName(m[2]);
+        return month ? buildDate(Number(m[3]), month, Number(m[1])) : null;
+      }
+      return null;
+    }
+  }
+};
+
+const FALLBACK_FORMATS: DateFormat[] = ['iso', 'ymd', 'text', 'mdy', 'dmy'];
+
+/** Parses a value whose format is unknown, preferring unambiguous formats and reading slashed dates month-first. */
+export const parseAnyDate = (value: any): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+  for (const format of FALLBACK_FORMATS) {
+    const parsed = parseDate(value, format);
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+/**
+ * Finds the single format every non-empty value parses with. Day/month order is
+ * resolved from values that can only be one way round (a part above 12), then
+ * by separator: dotted dates are read day-first, slashed dates month-first.
+ */
+export const detectDateFormat = (values: any[]): DateFormat | null => {
+  const present = values.filter(v => v instanceof Date || (typeof v === 'string' && v.trim() !== ''));
+  if (present.length === 0) return null;
+  const allParse = (format: DateFormat) => present.every(v => parseDate(v, format) !== null);
+
+  if (allParse('iso')) return 'iso';
+  if (allParse('ymd')) return 'ymd';
+  if (present.every(v => typeof v === 'string' && DAY_MONTH_PATTERN.test(v.trim()))) {
+    const parts = present.map(v => (v as string).trim().match(DAY_MONTH_PATTERN)!);
+    const dayFirst = parts.some(p => Number(p[1]) > 12);
+    const monthFirst = parts.some(p => Number(p[2]) > 12);
+    if (dayFirst && monthFirst) return null;
+    const preferred: DateFormat = dayFirst ? 'dmy' : monthFirst ? 'mdy' : parts[0][0].includes('.') ? 'dmy' : 'mdy';
+    return allParse(preferred) ? preferred : null;
+  }
+  if (allParse('text')) return 'text';
+  return null;
+};
+
+/** ISO 8601 text: a plain date when there is no time component, otherwise a full timestamp. */
+export const toIsoString = (date: Date): string => {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+};
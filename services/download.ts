@@ -0,0 +1,51 @@
+/** Browser helpers for handing generated files to the user. */
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+
+/** Rasterises standalone SVG markup to a PNG at `scale` times its size. */
+export const svgToPng = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) return reject(new Error('Canvas is not available in this browser.'));
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG.')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the chart image.'));
+    };
+    image.src = url;
+  });
+
+/** Opens the document in a new window and starts printing, so it can be saved as PDF. */
+export const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups to print the report.');
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Wait for layout before printing; some browsers print a blank page otherwise.
+  win.setTimeout(() => win.print(), 250);
+};
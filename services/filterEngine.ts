@@ -0,0 +1,182 @@
+import { ActiveFilter, FilterGroup, FilterNode, FilterOperator, RelativeDateRange } from '../types';
+import { parseAnyDate } from './dateParsing';
+import { isNullish } from './profiler';
+
+export type FilterCondition = Omit<ActiveFilter, 'id'>;
+
+type FilterInput = FilterCondition | FilterGroup;
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'Equals',
+  contains: 'Contains',
+  starts_with: 'Starts With',
+  gt: 'Greater Than',
+  lt: 'Less Than',
+  between: 'Between',
+  in: 'Is Any Of',
+  not_in: 'Is None Of',
+  is_empty: 'Is Empty',
+  not_empty: 'Is Not Empty',
+  regex: 'Matches Regex',
+  relative_date: 'Relative Date'
+};
+
+export const RELATIVE_DATE_LABELS: Record<string, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days',
+  last_90_days: 'Last 90 days',
+  this_week: 'This week',
+  last_week: 'Last week',
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_quarter: 'This quarter',
+  last_quarter: 'Last quarter',
+  this_year: 'This year',
+  last_year: 'Last year'
+};
+
+const LAST_N_DAYS = /^last_(\d+)_days$/;
+
+export const isFilterGroup = (node: FilterInput | FilterNode): node is FilterGroup => Array.isArray((node as FilterGroup).children);
+
+export const describeRelativeDate = (range: RelativeDateRange) => {
+  const m = LAST_N_DAYS.exec(range);
+  return RELATIVE_DATE_LABELS[range] || (m ? `Last ${m[1]} days` : range);
+};
+
+/**
+ * Resolves a relative range to a half-open [start, end) interval of UTC
+ * calendar days, matching how dates are parsed. "Last N days" includes today.
+ */
+export const resolveRelativeDate = (range: RelativeDateRange, now = new Date()): { start: Date; end: Date } | null => {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  const day = (offset: number) => new Date(Date.UTC(y, m, d + offset));
+  const weekStart = d - ((now.getUTCDay() + 6) % 7);
+  const quarterStart = m - (m % 3);
+  const lastN = LAST_N_DAYS.exec(range);
+  if (lastN) return { start: day(1 - Number(lastN[1])), end: day(1) };
+  switch (range) {
+    case 'today': return { start: day(0), end: day(1) };
+    case 'yesterday': return { start: day(-1), end: day(0) };
+    case 'this_week': return { start: new Date(Date.UTC(y, m, weekStart)), end: new Date(Date.UTC(y, m, weekStart + 7)) };
+    case 'last_week': return { start: new Date(Date.UTC(y, m, weekStart - 7)), end: new Date(Date.UTC(y, m, weekStart)) };
+    case 'this_month': return { start: new Date(Date.UTC(y, m, 1)), end: new Date(Date.UTC(y, m + 1, 1)) };
+    case 'last_month': return { start: new Date(Date.UTC(y, m - 1, 1)), end: new Date(Date.UTC(y, m, 1)) };
+    case 'this_quarter': return { start: new Date(Date.UTC(y, quarterStart, 1)), end: new Date(Date.UTC(y, quarterStart + 3, 1)) };
+    case 'last_quarter': return { start: new Date(Date.UTC(y, quarterStart - 3, 1)), end: new Date(Date.UTC(y, quarterStart, 1)) };
+    case 'this_year': return { start: new Date(Date.UTC(y, 0, 1)), end: new Date(Date.UTC(y + 1, 0, 1)) };
+    case 'last_year': return { start: new Date(Date.UTC(y - 1, 0, 1)), end: new Date(Date.UTC(y, 0, 1)) };
+    default: return null;
+  }
+};
+
+/** `in` lists may arrive as arrays from the builder or as comma-separated text from the planner. */
+export const toValueList = (value: any): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (isNullish(value)) return [];
+  return String(value).split(',').map(v => v.trim()).filter(Boolean);
+};
+
+const regexCache = new Map<string, RegExp | null>();
+const toRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    let compiled: RegExp | null = null;
+    try { compiled = new RegExp(pattern, 'i'); } catch { /* an invalid pattern matches nothing */ }
+    regexCache.set(pattern, compiled);
+  }
+  return regexCache.get(pattern)!;
+};
+
+// Numbers compare numerically, values that both read as dates compare chronologically, anything else as text.
+const compareForRange = (val: any, bound: any): number | null => {
+  if (isNullish(val) || isNullish(bound)) return null;
+  const a = Number(val);
+  const b = Number(bound);
+  if (isFinite(a) && isFinite(b)) return a - b;
+  const dateA = parseAnyDate(val);
+  const dateB = parseAnyDate(bound);
+  if (dateA && dateB) return dateA.getTime() - dateB.getTime();
+  return String(val).localeCompare(String(bound), undefined, { numeric: true });
+};
+
+const matchesOperator = (val: any, f: FilterCondition): boolean => {
+  switch (f.operator) {
+    case 'equals': return isNullish(f.value) ? isNullish(val) : String(val) === String(f.value);
+    case 'contains': return String(val ?? '').toLowerCase().includes(String(f.value ?? '').toLowerCase());
+    case 'starts_with': return String(val ?? '').toLowerCase().startsWith(String(f.value ?? '').toLowerCase());
+    case 'gt': { const c = compareForRange(val, f.value); return c !== null && c > 0; }
+    case 'lt': { const c = compareForRange(val, f.value); return c !== null && c < 0; }
+    case 'between': {
+      const lower = compareForRange(val, f.value);
+      const upper = compareForRange(val, f.valueEnd);
+      return lower !== null && upper !== null && lower >= 0 && upper <= 0;
+    }
+    case 'in': return !isNullish(val) && toValueList(f.value).includes(String(val));
+    case 'not_in': return isNullish(val) || !toValueList(f.value).includes(String(val));
+    case 'is_empty': return isNullish(val);
+    case 'not_empty': return !isNullish(val);
+    case 'regex': { const re = toRegex(String(f.value ?? '')); return !!re && re.test(String(val ?? '')); }
+    case 'relative_date': {
+      const date = parseAnyDate(val);
+      const range = resolveRelativeDate(String(f.value));
+      return !!date && !!range && date >= range.start && date < range.end;
+    }
+    default: return true;
+  }
+};
+
+export const matchesFilter = (row: any, f: FilterCondition): boolean => matchesOperator(row[f.column], f) !== !!f.negate;
+
+export const matchesNode = (row: any, node: FilterInput): boolean => {
+  if (!isFilterGroup(node)) return matchesFilter(row, node);
+  const result = node.combinator === 'or' ? node.children.some(c => matchesNode(row, c)) : node.children.every(c => matchesNode(row, c));
+  return result !== !!node.negate;
+};
+
+/** Top-level filters are ANDed; groups nest their own AND/OR. */
+export const applyFilters = <T,>(rows: T[], filters: FilterInput[]): T[] => {
+  if (filters.length === 0) return rows;
+  return rows.filter(row => filters.every(f => matchesNode(row, f)));
+};
+
+/** Every column a filter tree touches. */
+export const filterColumns = (filters: (FilterInput | FilterNode)[]): string[] => [...new Set(filters.flatMap(f => isFilterGroup(f) ? filterColumns(f.children) : [f.column]))];
+
+/** Drops conditions on `column`, and any groups left empty by doing so. */
+export const removeColumnFromFilters = (filters: FilterNode[], column: string): FilterNode[] => filters.flatMap<FilterNode>(f => {
+  if (!isFilterGroup(f)) return f.column === column ? [] : [f];
+  const children = removeColumnFromFilters(f.children, column);
+  return children.length ? [{ ...f, children }] : [];
+});
+
+/** Points conditions at renamed columns; `renames` maps old names to new ones. */
+export const renameFilterColumns = <T extends FilterInput | FilterNode>(filters: T[], renames: Record<string, string>): T[] => filters.map(f =>
+  isFilterGroup(f) ? { ...f, children: renameFilterColumns(f.children, renames) } : { ...f, column: renames[f.column] ?? f.column }
+) as T[];
+
+export const describeCondition = (f: FilterCondition, withColumn = true): string => {
+  const subject = `${f.negate ? 'NOT ' : ''}${withColumn ? `${f.column} ` : ''}`;
+  switch (f.operator) {
+    case 'between': return `${subject}${f.value} → ${f.valueEnd}`;
+    case 'in':
+    case 'not_in': return `${subject}${f.operator === 'in' ? 'IN' : 'NOT IN'} (${toValueList(f.value).join(', ')})`;
+    case 'is_empty': return `${subject}IS EMPTY`;
+    case 'not_empty': return `${subject}IS NOT EMPTY`;
+    case 'relative_date': return `${subject}IN ${describeRelativeDate(String(f.value)).toUpperCase()}`;
+    default: return `${subject}${f.operator.replace('_', ' ').toUpperCase()}: ${f.value}`;
+  }
+};
+
+export const describeFilter = (node: FilterNode): string => {
+  if (!isFilterGroup(node)) return describeCondition(node);
+  const inner = node.children.map(c => isFilterGroup(c) ? `(${describeFilter(c)})` : describeFilter(c)).join(node.combinator === 'or' ? ' OR ' : ' AND ');
+  return node.negate ? `NOT (${inner})` : inner;
+};
+
+/** The filter a drill-down on `value` should add, matching blanks as empty. */
+export const drillFilterFor = (column: string, value: any): FilterCondition =>
+  isNullish(value) ? { column, operator: 'is_empty', value: '' } : { column, operator: 'equals', value };
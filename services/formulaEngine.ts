@@ -0,0 +1,548 @@
+import { CalculatedColumn, ColumnMetadata, DateFormat } from '../types';
+import { parseAnyDate as toDate, parseDate, toIsoString } from './dateParsing';
+import { isNullish } from './profiler';
+
+export type FormulaNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; op: string; operand: FormulaNode }
+  | { kind: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'column'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; value: ''; pos: number };
+
+interface FormulaContext {
+  row: any;
+  dateFormats: Record<string, DateFormat>;
+}
+
+type Evaluate = (node: FormulaNode) => any;
+
+interface FormulaFunction {
+  category: 'Math' | 'Text' | 'Date' | 'Logic' | 'Nulls';
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic
+  lazy?: boolean; // receives unevaluated nodes so branches short-circuit
+  run: (args: any[], evaluate: Evaluate) => any;
+}
+
+const DAY_MS = 86400000;
+
+const toNumber = (value: any): number | null => {
+  if (isNullish(value)) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  const n = Number(value);
+  return isFinite(n) ? n : null;
+};
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return toIsoString(value);
+  return String(value);
+};
+
+const isTruthy = (value: any): boolean => {
+  if (isNullish(value)) return false;
+  if (typeof value === 'string') return value.trim().toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+const numeric = (fn: (...nums: number[]) => number) => (args: any[]) => {
+  const nums = args.map(toNumber);
+  if (nums.some(n => n === null)) return null;
+  const result = fn(...(nums as number[]));
+  return isFinite(result) ? result : null;
+};
+
+const text = (fn: (...args: any[]) => any) => (args: any[]) => isNullish(args[0]) ? null : fn(toText(args[0]), ...args.slice(1));
+
+const dated = (fn: (date: Date, ...rest: any[]) => any) => (args: any[]) => {
+  const date = toDate(args[0]);
+  return date ? fn(date, ...args.slice(1)) : null;
+};
+
+const addToDate = (date: Date, amount: number, unit: string): Date => {
+  const next = new Date(date.getTime());
+  switch (unit) {
+    case 'year': next.setUTCFullYear(next.getUTCFullYear() + amount); break;
+    case 'month': next.setUTCMonth(next.getUTCMonth() + amount); break;
+    case 'week': next.setTime(next.getTime() + amount * 7 * DAY_MS); break;
+    default: next.setTime(next.getTime() + amount * DAY_MS);
+  }
+  return next;
+};
+
+const truncateDate = (date: Date, unit: string): Date => {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  switch (unit) {
+    case 'year': return new Date(Date.UTC(y, 0, 1));
+    case 'quarter': return new Date(Date.UTC(y, m - (m % 3), 1));
+    case 'month': return new Date(Date.UTC(y, m, 1));
+    case 'week': return new Date(Date.UTC(y, m, date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+    default: return new Date(Date.UTC(y, m, date.getUTCDate()));
+  }
+};
+
+const formatEdge = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  ABS: { category: 'Math', signature: 'ABS(x)', description: 'Absolute value', minArgs: 1, maxArgs: 1, run: numeric(Math.abs) },
+  ROUND: { category: 'Math', signature: 'ROUND(x, digits?)', description: 'Round to a number of decimal places', minArgs: 1, maxArgs: 2, run: numeric((x, d = 0) => Math.round(x * 10 ** d) / 10 ** d) },
+  FLOOR: { category: 'Math', signature: 'FLOOR(x)', description: 'Round down', minArgs: 1, maxArgs: 1, run: numeric(Math.floor) },
+  CEIL: { category: 'Math', signature: 'CEIL(x)', description: 'Round up', minArgs: 1, maxArgs: 1, run: numeric(Math.ceil) },
+  SQRT: { category: 'Math', signature: 'SQRT(x)', description: 'Square root', minArgs: 1, maxArgs: 1, run: numeric(Math.sqrt) },
+  POWER: { category: 'Math', signature: 'POWER(x, y)', description: 'x raised to y', minArgs: 2, maxArgs: 2, run: numeric(Math.pow) },
+  LOG: { category: 'Math', signature: 'LOG(x, base?)', description: 'Logarithm, natural by default', minArgs: 1, maxArgs: 2, run: numeric((x, b) => b === undefined ? Math.log(x) : Math.log(x) / Math.log(b)) },
+  EXP: { category: 'Math', signature: 'EXP(x)', description: 'e raised to x', minArgs: 1, maxArgs: 1, run: numeric(Math.exp) },
+  MOD: { category: 'Math', signature: 'MOD(x, y)', description: 'Remainder of x / y', minArgs: 2, maxArgs: 2, run: numeric((x, y) => x % y) },
+  MIN: { category: 'Math', signature: 'MIN(a, b, ...)', description: 'Smallest non-empty value', minArgs: 1, maxArgs: Infinity, run: args => { const nums = args.map(toNumber).filter((n): n is number => n !== null); return nums.length ? Math.min(...nums) : null; } },
+  MAX: { category: 'Math', signature: 'MAX(a, b, ...)', description: 'Largest non-empty value', minArgs: 1, maxArgs: Infinity, run: args => { const nums = args.map(toNumber).filter((n): n is number => n !== null); return nums.length ? Math.max(...nums) : null; } },
+  NUMBER: { category: 'Math', signature: 'NUMBER(x)', description: 'Convert to a number', minArgs: 1, maxArgs: 1, run: args => toNumber(args[0]) },
+  BUCKET: {
+    category: 'Math',
+    signature: 'BUCKET(x, edge1, edge2, ...)',
+    description: 'Range label such as "100–500" for the bucket x falls in',
+    minArgs: 2,
+    maxArgs: Infinity,
+    run: args => {
+      const x = toNumber(args[0]);
+      const edges = args.slice(1).map(toNumber).filter((n): n is number => n !== null).sort((a, b) => a - b);
+      if (x === null || edges.length === 0) return null;
+      if (x < edges[0]) return `< ${formatEdge(edges[0])}`;
+      const upper = edges.findIndex(e => x < e);
+      return upper === -1 ? `≥ ${formatEdge(edges[edges.length - 1])}` : `${formatEdge(edges[upper - 1])}–${formatEdge(edges[upper])}`;
+    }
+  },
+
+  UPPER: { category: 'Text', signature: 'UPPER(text)', description: 'Upper case', minArgs: 1, maxArgs: 1, run: text(s => s.toUpperCase()) },
+  LOWER: { category: 'Text', signature: 'LOWER(text)', description: 'Lower case', minArgs: 1, maxArgs: 1, run: text(s => s.toLowerCase()) },
+  TRIM: { category: 'Text', signature: 'TRIM(text)', description: 'Strip surrounding whitespace', minArgs: 1, maxArgs: 1, run: text(s => s.trim()) },
+  LEN: { category: 'Text', signature: 'LEN(text)', description: 'Number of characters', minArgs: 1, maxArgs: 1, run: args => toText(args[0]).length },
+  LEFT: { category: 'Text', signature: 'LEFT(text, n)', description: 'First n characters', minArgs: 2, maxArgs: 2, run: text((s, n) => s.slice(0, Math.max(0, toNumber(n) ?? 0))) },
+  RIGHT: { category: 'Text', signature: 'RIGHT(text, n)', description: 'Last n characters', minArgs: 2, maxArgs: 2, run: text((s, n) => { const count = Math.max(0, toNumber(n) ?? 0); return count ? s.slice(-count) : ''; }) },
+  MID: { category: 'Text', signature: 'MID(text, start, length)', description: 'Substring from a 1-based position', minArgs: 3, maxArgs: 3, run: text((s, start, len) => s.substr(Math.max(0, (toNumber(start) ?? 1) - 1), Math.max(0, toNumber(len) ?? 0))) },
+  CONCAT: { category: 'Text', signature: 'CONCAT(a, b, ...)', description: 'Join values as text', minArgs: 1, maxArgs: Infinity, run: args => args.map(toText).join('') },
+  REPLACE: { category: 'Text', signature: 'REPLACE(text, find, replacement)', description: 'Replace every occurrence', minArgs: 3, maxArgs: 3, run: text((s, find, rep) => toText(find) ? s.split(toText(find)).join(toText(rep)) : s) },
+  CONTAINS: { category: 'Text', signature: 'CONTAINS(text, search)', description: 'Case-insensitive substring test', minArgs: 2, maxArgs: 2, run: args => toText(args[0]).toLowerCase().includes(toText(args[1]).toLowerCase()) },
+  STARTSWITH: { category: 'Text', signature: 'STARTSWITH(text, prefix)', description: 'Case-insensitive prefix test', minArgs: 2, maxArgs: 2, run: args => toText(args[0]).toLowerCase().startsWith(toText(args[1]).toLowerCase()) },
+  ENDSWITH: { category: 'Text', signature: 'ENDSWITH(text, suffix)', description: 'Case-insensitive suffix test', minArgs: 2, maxArgs: 2, run: args => toText(args[0]).toLowerCase().endsWith(toText(args[1]).toLowerCase()) },
+  TEXT: { category: 'Text', signature: 'TEXT(x)', description: 'Convert to text', minArgs: 1, maxArgs: 1, run: args => isNullish(args[0]) ? null : toText(args[0]) },
+
+  DATE: {
+    category: 'Date',
+    signature: 'DATE(year, month, day) or DATE(text)',
+    description: 'Build or parse a date',
+    minArgs: 1,
+    maxArgs: 3,
+    run: args => {
+      if (args.length === 1) return toDate(args[0]);
+      const [y, m, d] = args.map(toNumber);
+      return y === null || m === null ? null : new Date(Date.UTC(y, m - 1, d ?? 1));
+    }
+  },
+  TODAY: { category: 'Date', signature: 'TODAY()', description: "Today's date", minArgs: 0, maxArgs: 0, run: () => truncateDate(new Date(), 'day') },
+  YEAR: { category: 'Date', signature: 'YEAR(date)', description: 'Calendar year', minArgs: 1, maxArgs: 1, run: dated(d => d.getUTCFullYear()) },
+  QUARTER: { category: 'Date', signature: 'QUARTER(date)', description: 'Quarter, 1-4', minArgs: 1, maxArgs: 1, run: dated(d => Math.floor(d.getUTCMonth() / 3) + 1) },
+  MONTH: { category: 'Date', signature: 'MONTH(date)', description: 'Month, 1-12', minArgs: 1, maxArgs: 1, run: dated(d => d.getUTCMonth() + 1) },
+  DAY: { category: 'Date', signature: 'DAY(date)', description: 'Day of the month', minArgs: 1, maxArgs: 1, run: dated(d => d.getUTCDate()) },
+  WEEKDAY: { category: 'Date', signature: 'WEEKDAY(date)', description: 'Day of the week, 1 = Monday', minArgs: 1, maxArgs: 1, run: dated(d => ((d.getUTCDay() + 6) % 7) + 1) },
+  DATEADD: { category: 'Date', signature: "DATEADD(date, n, unit?)", description: "Add days, or 'week' / 'month' / 'year' units", minArgs: 2, maxArgs: 3, run: dated((d, n, unit) => toNumber(n) === null ? null : addToDate(d, toNumber(n)!, toText(unit || 'day').toLowerCase())) },
+  DATEDIFF: {
+    category: 'Date',
+    signature: "DATEDIFF(start, end, unit?)",
+    description: "Whole days, or 'week' / 'month' / 'year' units, from start to end",
+    minArgs: 2,
+    maxArgs: 3,
+    run: args => {
+      const start = toDate(args[0]);
+      const end = toDate(args[1]);
+      if (!start || !end) return null;
+      const unit = toText(args[2] || 'day').toLowerCase();
+      const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() - (end.getUTCDate() < start.getUTCDate() ? 1 : 0);
+      if (unit === 'month') return months;
+      if (unit === 'year') return Math.trunc(months / 12);
+      const days = Math.trunc((end.getTime() - start.getTime()) / DAY_MS);
+      return unit === 'week' ? Math.trunc(days / 7) : days;
+    }
+  },
+  DATETRUNC: { category: 'Date', signature: "DATETRUNC(date, unit)", description: "Start of the 'week', 'month', 'quarter' or 'year'", minArgs: 2, maxArgs: 2, run: dated((d, unit) => truncateDate(d, toText(unit).toLowerCase())) },
+
+  IF: {
+    category: 'Logic',
+    signature: 'IF(condition, then, else?)',
+    description: 'Choose a value by condition',
+    minArgs: 2,
+    maxArgs: 3,
+    lazy: true,
+    run: (args, evaluate) => isTruthy(evaluate(args[0])) ? evaluate(args[1]) : args.length > 2 ? evaluate(args[2]) : null
+  },
+  IFS: {
+    category: 'Logic',
+    signature: 'IFS(cond1, value1, cond2, value2, ..., default?)',
+    description: 'First value whose condition holds',
+    minArgs: 2,
+    maxArgs: Infinity,
+    lazy: true,
+    run: (args, evaluate) => {
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        if (isTruthy(evaluate(args[i]))) return evaluate(args[i + 1]);
+      }
+      return args.length % 2 === 1 ? evaluate(args[args.length - 1]) : null;
+    }
+  },
+  SWITCH: {
+    category: 'Logic',
+    signature: 'SWITCH(value, match1, result1, ..., default?)',
+    description: 'Result for the first matching value',
+    minArgs: 3,
+    maxArgs: Infinity,
+    lazy: true,
+    run: (args, evaluate) => {
+      const value = toText(evaluate(args[0]));
+      const rest = args.slice(1);
+      for (let i = 0; i + 1 < rest.length; i += 2) {
+        if (toText(evaluate(rest[i])) === value) return evaluate(rest[i + 1]);
+      }
+      return rest.length % 2 === 1 ? evaluate(rest[rest.length - 1]) : null;
+    }
+  },
+
+  COALESCE: {
+    category: 'Nulls',
+    signature: 'COALESCE(a, b, ...)',
+    description: 'First non-empty value',
+    minArgs: 1,
+    maxArgs: Infinity,
+    lazy: true,
+    run: (args, evaluate) => {
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (!isNullish(value)) return value;
+      }
+      return null;
+    }
+  },
+  IFNULL: { category: 'Nulls', signature: 'IFNULL(value, fallback)', description: 'Fallback when value is empty', minArgs: 2, maxArgs: 2, run: args => isNullish(args[0]) ? args[1] : args[0] },
+  ISNULL: { category: 'Nulls', signature: 'ISNULL(value)', description: 'True when value is empty', minArgs: 1, maxArgs: 1, run: args => isNullish(args[0]) },
+  NULLIF: { category: 'Nulls', signature: 'NULLIF(value, match)', description: 'Empty when value equals match', minArgs: 2, maxArgs: 2, run: args => toText(args[0]) === toText(args[1]) ? null : args[0] }
+};
+
+const KEYWORDS: Record<string, any> = { TRUE: true, FALSE: false, NULL: null };
+const MULTI_CHAR_OPS = ['<=', '>=', '!=', '<>', '==', '&&', '||'];
+const SINGLE_CHAR_OPS = '+-*/%^&=<>!(),';
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+
+    if (/[0-9.]/.test(ch)) {
+      const m = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i));
+      if (!m) throw new Error(`Unexpected '${ch}' at position ${i + 1}`);
+      tokens.push({ type: 'number', value: Number(m[0]), pos: start });
+      i += m[0].length;
+    } else if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= expression.length) throw new Error(`Unterminated text starting at position ${start + 1}`);
+        if (expression[i] === ch) {
+          if (expression[i + 1] === ch) { value += ch; i += 2; continue; }
+          i++;
+          break;
+        }
+        value += expression[i++];
+      }
+      tokens.push({ type: 'string', value, pos: start });
+    } else if (ch === '[') {
+      const end = expression.indexOf(']', i);
+      if (end === -1) throw new Error(`Missing ']' for the column at position ${start + 1}`);
+      tokens.push({ type: 'column', value: expression.slice(i + 1, end), pos: start });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][\w.]*/.exec(expression.slice(i))!;
+      tokens.push({ type: 'ident', value: m[0], pos: start });
+      i += m[0].length;
+    } else {
+      const two = expression.slice(i, i + 2);
+      if (MULTI_CHAR_OPS.includes(two)) {
+        tokens.push({ type: 'op', value: two, pos: start });
+        i += 2;
+      } else if (SINGLE_CHAR_OPS.includes(ch)) {
+        tokens.push({ type: 'op', value: ch, pos: start });
+        i++;
+      } else {
+        throw new Error(`Unexpected '${ch}' at position ${i + 1}`);
+      }
+    }
+  }
+  tokens.push({ type: 'end', value: '', pos: expression.length });
+  return tokens;
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  OR: 1, '||': 1,
+  AND: 2, '&&': 2,
+  '=': 4, '==': 4, '!=': 4, '<>': 4, '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '&': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '^': 9
+};
+const NOT_PRECEDENCE = 3;
+const NEGATE_PRECEDENCE = 8;
+
+const OPERATOR_ALIASES: Record<string, string> = { '||': 'OR', '&&': 'AND', '==': '=', '<>': '!=' };
+
+/**
+ * Parses an expression such as `ROUND(([Revenue] - cost) / [Revenue], 2)` into
+ * a syntax tree. Bare identifiers and `[bracketed names]` are column references.
+ */
+export const parseFormula = (expression: string): FormulaNode => {
+  const tokens = tokenize(expression);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const describe = (t: Token) => t.type === 'end' ? 'end of formula' : `'${t.type === 'string' ? `"${t.value}"` : t.value}' at position ${t.pos + 1}`;
+
+  const binaryOp = (t: Token): string | null => {
+    if (t.type === 'op' && BINARY_PRECEDENCE[t.value] !== undefined) return t.value;
+    if (t.type === 'ident' && (t.value.toUpperCase() === 'AND' || t.value.toUpperCase() === 'OR')) return t.value.toUpperCase();
+    return null;
+  };
+
+  const parsePrefix = (): FormulaNode => {
+    const t = next();
+    switch (t.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: t.value };
+      case 'column':
+        return { kind: 'column', name: t.value };
+      case 'ident': {
+        const upper = t.value.toUpperCase();
+        if (upper === 'NOT') return { kind: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+        if (peek().type === 'op' && peek().value === '(') {
+          next();
+          const fn = FORMULA_FUNCTIONS[upper];
+          if (!fn) throw new Error(`Unknown function ${t.value}`);
+          const args: FormulaNode[] = [];
+          if (!(peek().type === 'op' && peek().value === ')')) {
+            do { args.push(parseExpression(0)); } while (peek().type === 'op' && peek().value === ',' && next());
+          }
+          const close = next();
+          if (close.type !== 'op' || close.value !== ')') throw new Error(`Expected ')' but found ${describe(close)}`);
+          if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+            const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+            throw new Error(`${upper} takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`);
+          }
+          return { kind: 'call', name: upper, args };
+        }
+        if (upper in KEYWORDS) return { kind: 'literal', value: KEYWORDS[upper] };
+        return { kind: 'column', name: t.value };
+      }
+      case 'op':
+        if (t.value === '(') {
+          const inner = parseExpression(0);
+          const close = next();
+          if (close.type !== 'op' || close.value !== ')') throw new Error(`Expected ')' but found ${describe(close)}`);
+          return inner;
+        }
+        if (t.value === '-' || t.value === '+') return { kind: 'unary', op: t.value, operand: parseExpression(NEGATE_PRECEDENCE) };
+        if (t.value === '!') return { kind: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+    }
+    throw new Error(`Unexpected ${describe(t)}`);
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrefix();
+    while (true) {
+      const op = binaryOp(peek());
+      if (!op) break;
+      const precedence = BINARY_PRECEDENCE[op];
+      if (precedence <= minPrecedence) break;
+      next();
+      // '^' is right-associative, everything else groups left to right.
+      const right = parseExpression(op === '^' ? precedence - 1 : precedence);
+      left = { kind: 'binary', op: OPERATOR_ALIASES[op] || op, left, right };
+    }
+    return left;
+  };
+
+  if (tokens.length === 1) throw new Error('Formula is empty');
+  const tree = parseExpression(0);
+  if (peek().type !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return tree;
+};
+
+/** Column names referenced anywhere in the tree. */
+export const formulaReferences = (node: FormulaNode): string[] => {
+  const refs = new Set<string>();
+  const visit = (n: FormulaNode) => {
+    if (n.kind === 'column') refs.add(n.name);
+    else if (n.kind === 'unary') visit(n.operand);
+    else if (n.kind === 'binary') { visit(n.left); visit(n.right); }
+    else if (n.kind === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return [...refs];
+};
+
+const compare = (a: any, b: any): number | null => {
+  if (isNullish(a) || isNullish(b)) return null;
+  const dateA = a instanceof Date ? a : null;
+  const dateB = b instanceof Date ? b : null;
+  if (dateA || dateB) {
+    const left = dateA || toDate(a);
+    const right = dateB || toDate(b);
+    return left && right ? left.getTime() - right.getTime() : null;
+  }
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null && typeof a !== 'boolean' && typeof b !== 'boolean') return numA - numB;
+  return toText(a).localeCompare(toText(b));
+};
+
+const evaluateBinary = (op: string, a: any, b: any): any => {
+  switch (op) {
+    case '&': return toText(a) + toText(b);
+    case '=': return isNullish(a) && isNullish(b) ? true : compare(a, b) === 0;
+    case '!=': return isNullish(a) && isNullish(b) ? false : compare(a, b) !== 0;
+    case '<': { const c = compare(a, b); return c === null ? null : c < 0; }
+    case '<=': { const c = compare(a, b); return c === null ? null : c <= 0; }
+    case '>': { const c = compare(a, b); return c === null ? null : c > 0; }
+    case '>=': { const c = compare(a, b); return c === null ? null : c >= 0; }
+  }
+  // Date arithmetic counts in days: date ± n shifts, date - date measures.
+  if (a instanceof Date && (op === '+' || op === '-')) {
+    if (b instanceof Date && op === '-') return (a.getTime() - b.getTime()) / DAY_MS;
+    const n = toNumber(b);
+    return n === null ? null : addToDate(a, op === '+' ? n : -n, 'day');
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return null;
+  let result: number;
+  switch (op) {
+    case '+': result = x + y; break;
+    case '-': result = x - y; break;
+    case '*': result = x * y; break;
+    case '/': result = x / y; break;
+    case '%': result = x % y; break;
+    case '^': result = Math.pow(x, y); break;
+    default: return null;
+  }
+  return isFinite(result) ? result : null;
+};
+
+const evaluateNode = (node: FormulaNode, ctx: FormulaContext): any => {
+  const evaluate: Evaluate = n => evaluateNode(n, ctx);
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'column': {
+      const value = ctx.row[node.name];
+      const format = ctx.dateFormats[node.name];
+      return format && !isNullish(value) ? parseDate(value, format) ?? value : value;
+    }
+    case 'unary': {
+      if (node.op === 'NOT') return !isTruthy(evaluate(node.operand));
+      const n = toNumber(evaluate(node.operand));
+      return n === null ? null : node.op === '-' ? -n : n;
+    }
+    case 'binary': {
+      if (node.op === 'AND') return isTruthy(evaluate(node.left)) && isTruthy(evaluate(node.right));
+      if (node.op === 'OR') return isTruthy(evaluate(node.left)) || isTruthy(evaluate(node.right));
+      return evaluateBinary(node.op, evaluate(node.left), evaluate(node.right));
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      return fn.lazy ? fn.run(node.args, evaluate) : fn.run(node.args.map(evaluate), evaluate);
+    }
+  }
+};
+
+/** Cell value as stored in rows: dates become ISO text and non-finite numbers become null. */
+const toCellValue = (value: any) => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : toIsoString(value);
+  if (typeof value === 'number' && !isFinite(value)) return null;
+  return value === undefined ? null : value;
+};
+
+export const compileFormula = (expression: string) => {
+  const tree = parseFormula(expression);
+  return (row: any, dateFormats: Record<string, DateFormat> = {}) => toCellValue(evaluateNode(tree, { row, dateFormats }));
+};
+
+/** Returns a problem with the formula, or null when it parses and only references `available` columns. */
+export const validateFormula = (expression: string, available: string[]): string | null => {
+  let tree: FormulaNode;
+  try {
+    tree = parseFormula(expression);
+  } catch (err: any) {
+    return err.message;
+  }
+  const known = new Set(available);
+  const missing = formulaReferences(tree).filter(c => !known.has(c));
+  return missing.length ? `Unknown column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` : null;
+};
+
+/**
+ * Checks every calculated column in order. Each may reference the base
+ * columns and any calculated column defined before it, which rules out cycles.
+ */
+export const validateCalculatedColumns = (baseColumns: string[], calculated: CalculatedColumn[]): string | null => {
+  const available = [...baseColumns];
+  for (let i = 0; i < calculated.length; i++) {
+    const name = calculated[i].name.trim();
+    if (!name) return 'Calculated columns need a name';
+    if (available.includes(name)) return `A column named "${name}" already exists`;
+    const error = validateFormula(calculated[i].expression, available);
+    if (error) {
+      const pending = new Set(calculated.slice(i).map(c => c.name));
+      const refs = error.startsWith('Unknown column') ? formulaReferences(parseFormula(calculated[i].expression)) : [];
+      return refs.some(r => pending.has(r)) ? `${name} references itself or a calculated column defined after it` : `${name}: ${error}`;
+    }
+    available.push(name);
+  }
+  return null;
+};
+
+/** Columns of the dataset that are stored values rather than formulas. */
+export const getBaseColumns = (columns: string[], calculated: CalculatedColumn[] = []) => {
+  const names = new Set(calculated.map(c => c.name));
+  return columns.filter(c => !names.has(c));
+};
+
+/** Known date formats per column, so formulas can read dates written in any supported style. */
+export const dateFormatsFromMetadata = (metadata: Record<string, ColumnMetadata> = {}): Record<string, DateFormat> =>
+  Object.fromEntries(Object.entries(metadata).filter(([, m]) => m.dateFormat).map(([col, m]) => [col, m.dateFormat!]));
+
+/**
+ * Recomputes calculated columns on every row. Rows whose values did not change
+ * keep their identity, so storage only rewrites the chunks that did.
+ */
+export const applyCalculatedColumns = (rows: any[], calculated: CalculatedColumn[] = [], dateFormats: Record<string, DateFormat> = {}): any[] => {
+  if (calculated.length === 0) return rows;
+  const compiled = calculated.map(c => ({ name: c.name, run: compileFormula(c.expression) }));
+  return rows.map(row => {
+    let next = row;
+    compiled.forEach(({ name, run }) => {
+      const value = run(next, dateFormats);
+      if (!Object.is(next[name], value)) next = { ...next, [name]: value };
+    });
+    return next;
+  });
+};
@@ -0,0 +1,23 @@
+import { Dataset, DatasetHistory, DatasetSnapshot, HistoryEntry } from '../types';
+
+const MAX_HISTORY_ENTRIES = 50;
+
+export const takeSnapshot = ({ columns, rows, metadata, calculatedColumns }: Dataset): DatasetSnapshot => ({ columns, rows, metadata, calculatedColumns });
+
+/**
+ * Appends an operation after the cursor, discarding any undone steps. The
+ * first operation also records the state before it, so it can be undone.
+ */
+export const recordOperation = (history: DatasetHistory | undefined, before: Dataset, after: Dataset, label: string, kind: HistoryEntry['kind']): DatasetHistory => {
+  const base = history?.entries.length
+    ? history.entries.slice(0, history.cursor + 1)
+    : [{ id: Math.random().toString(36).substr(2, 9), label: 'Original data', kind: 'original' as const, timestamp: Date.now(), snapshot: takeSnapshot(before) }];
+  const entries = [...base, { id: Math.random().toString(36).substr(2, 9), label, kind, timestamp: Date.now(), snapshot: takeSnapshot(after) }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, cursor: entries.length - 1 };
+};
+
+export const canUndo = (history?: DatasetHistory) => !!history && history.cursor > 0;
+export const canRedo = (history?: DatasetHistory) => !!history && history.cursor < history.entries.length - 1;
+
+/** The dataset as it was at `index`, keeping fields history does not track (name, saved filters...). */
+export const restoreEntry = (dataset: Dataset, history: DatasetHistory, index: number): Dataset => ({ ...dataset, ...history.entries[index].snapshot });
@@ -0,0 +1,142 @@
+import * as XLSX from 'xlsx';
+import { parquetReadObjects } from 'hyparquet';
+import { ImportPayload } from '../types';
+import { decodeText } from './csvParser';
+
+export interface ImportedFile {
+  payload: ImportPayload;
+  sheetNames?: string[];
+  activeSheet?: string;
+}
+
+/**
+ * Turns the bytes of one file format into either delimited text (which goes
+ * through the CSV preview) or header-first records. `sheet` is only used by
+ * formats that contain several tables.
+ */
+export interface FileImporter {
+  format: string;
+  extensions: string[];
+  read: (buffer: ArrayBuffer, sheet?: string) => Promise<ImportedFile>;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const normalizeCell = (value: any): any => {
+  if (value === undefined) return null;
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  if (Array.isArray(value)) return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+  return value;
+};
+
+/** Flattens nested objects into dotted keys (`address.city`); arrays are kept as JSON text. */
+export const flattenObject = (obj: Record<string, any>, prefix = '', out: Record<string, any> = {}): Record<string, any> => {
+  Object.entries(obj).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenObject(value, path, out);
+    } else {
+      out[path] = normalizeCell(isPlainObject(value) ? null : value);
+    }
+  });
+  return out;
+};
+
+/** Header-first records over the union of keys, in first-seen order. */
+export const objectsToRecords = (items: any[]): any[][] => {
+  const rows = items.map(item => isPlainObject(item) ? flattenObject(item) : { value: normalizeCell(item) });
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(r => Object.keys(r).forEach(k => {
+    if (!seen.has(k)) {
+      seen.add(k);
+      columns.push(k);
+    }
+  }));
+  return [columns, ...rows.map(r => columns.map(c => r[c] ?? null))];
+};
+
+// API dumps usually wrap the rows, e.g. `{ "data": [...] }`; take the first array of objects found.
+const findRecordArray = (value: any): any[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!isPlainObject(value)) return null;
+  for (const child of Object.values(value)) {
+    if (Array.isArray(child) && child.some(isPlainObject)) return child;
+  }
+  for (const child of Object.values(value)) {
+    const nested = findRecordArray(child);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+const csvImporter: FileImporter = {
+  format: 'Delimited Text',
+  extensions: ['.csv', '.tsv', '.psv', '.txt'],
+  read: async (buffer) => {
+    const { text, encoding } = decodeText(buffer);
+    return { payload: { kind: 'delimited', text, encoding } };
+  }
+};
+
+const excelImporter: FileImporter = {
+  format: 'Excel Workbook',
+  extensions: ['.xlsx', '.xls', '.xlsm', '.ods'],
+  read: async (buffer, sheet) => {
+    const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', cellDates: true });
+    const sheetNames = workbook.SheetNames;
+    if (sheetNames.length === 0) throw new Error('Workbook contains no sheets');
+    const activeSheet = sheet && sheetNames.includes(sheet) ? sheet : sheetNames[0];
+    const records = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[activeSheet], { header: 1, raw: true, defval: null, blankrows: false });
+    return { payload: { kind: 'records', records: records.map(r => r.map(normalizeCell)) }, sheetNames, activeSheet };
+  }
+};
+
+const jsonImporter: FileImporter = {
+  format: 'JSON',
+  extensions: ['.json'],
+  read: async (buffer) => {
+    const parsed = JSON.parse(decodeText(buffer).text);
+    const items = findRecordArray(parsed) ?? [parsed];
+    return { payload: { kind: 'records', records: objectsToRecords(items) } };
+  }
+};
+
+const ndjsonImporter: FileImporter = {
+  format: 'NDJSON',
+  extensions: ['.ndjson', '.jsonl'],
+  read: async (buffer) => {
+    const items = decodeText(buffer).text
+      .split(/\r?\n/)
+      .flatMap((line, i) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          throw new Error(`Invalid JSON on line ${i + 1}`);
+        }
+      });
+    return { payload: { kind: 'records', records: objectsToRecords(items) } };
+  }
+};
+
+const parquetImporter: FileImporter = {
+  format: 'Parquet',
+  extensions: ['.parquet'],
+  read: async (buffer) => {
+    const rows = await parquetReadObjects({ file: buffer });
+    return { payload: { kind: 'records', records: objectsToRecords(rows) } };
+  }
+};
+
+export const FILE_IMPORTERS: FileImporter[] = [csvImporter, excelImporter, jsonImporter, ndjsonImporter, parquetImporter];
+
+export const IMPORT_ACCEPT = FILE_IMPORTERS.flatMap(i => i.extensions).join(',');
+
+export const findImporter = (fileName: string): FileImporter | undefined => {
+  const name = fileName.toLowerCase();
+  return FILE_IMPORTERS.find(i => i.extensions.some(ext => name.endsWith(ext)));
+};
@@ -0,0 +1,75 @@
+/**
+ * A small markdown subset for dashboard commentary: headings, paragraphs,
+ * bullet and numbered lists, bold, italic, inline code and links. Parsed into
+ * plain data so it can be rendered without injecting HTML.
+ */
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'bold' | 'italic' | 'code'; text: string }
+  | { kind: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; content: MarkdownInline[] }
+  | { kind: 'paragraph'; content: MarkdownInline[] }
+  | { kind: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE = /\*\*(.+?)\*\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*]+)\*|_([^_]+)_/g;
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE)) {
+    if (m.index! > last) nodes.push({ kind: 'text', text: text.slice(last, m.index) });
+    if (m[1] !== undefined) nodes.push({ kind: 'bold', text: m[1] });
+    else if (m[2] !== undefined) nodes.push({ kind: 'code', text: m[2] });
+    // Only web and mail links are kept; anything else stays as its label.
+    else if (m[3] !== undefined) nodes.push(SAFE_HREF.test(m[4]) ? { kind: 'link', text: m[3], href: m[4] } : { kind: 'text', text: m[3] });
+    else nodes.push({ kind: 'italic', text: m[5] ?? m[6] });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) nodes.push({ kind: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', content: parseInline(paragraph.join(' ')) });
+    if (list) blocks.push({ kind: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  source.split(/\r?\n/).forEach(line => {
+    const heading = HEADING.exec(line);
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length as 1 | 2 | 3, content: parseInline(heading[2]) });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      list = list || { ordered, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else if (list) {
+      // A wrapped line continues the current list item.
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      paragraph.push(line.trim());
+    }
+  });
+  flush();
+  return blocks;
+};
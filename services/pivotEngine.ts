@@ -0,0 +1,76 @@
+import { PivotConfig, PivotTable, QueryAggregation, SortConfig } from '../types';
+import { aggregateRows, aggregationAlias, AGGREGATION_LABELS, compareValues, groupRows } from './queryEngine';
+
+const MAX_PIVOT_COLUMNS = 50;
+const TOTAL_LABEL = 'Total';
+
+const pivotKey = (pivotValue: string, agg: QueryAggregation, single: boolean) => single ? pivotValue : `${pivotValue} · ${aggregationAlias(agg)}`;
+
+/**
+ * Groups rows by `config.rows` and aggregates `config.values`, optionally
+ * spreading one column's distinct values across the headers. Totals are
+ * aggregated from the underlying rows, so averages and medians stay exact.
+ */
+export const buildPivot = (rows: any[], config: PivotConfig, sort?: SortConfig): PivotTable => {
+  // The same aggregation picked twice would only fill the same column twice.
+  const values = config.values.filter((v, i) => config.values.findIndex(o => o.fn === v.fn && o.column === v.column) === i);
+  const single = values.length === 1;
+  const allPivotValues = config.pivotColumn
+    ? [...new Set(rows.map(r => String(r[config.pivotColumn!] ?? '(blank)')))].sort(compareValues)
+    : [];
+  const pivotValues = allPivotValues.slice(0, MAX_PIVOT_COLUMNS);
+
+  // Every column key is unique within the record: a pivot value that matches a row
+  // column or the totals label gets a numbered suffix, and totals are keyed last.
+  const taken = new Set(config.rows);
+  const claim = (key: string) => {
+    let unique = key;
+    for (let n = 2; taken.has(unique); n++) unique = `${key} (${n})`;
+    taken.add(unique);
+    return unique;
+  };
+  const cellKeys = config.pivotColumn ? pivotValues.map(pv => values.map(agg => claim(pivotKey(pv, agg, single)))) : [];
+  const totalKeys = config.pivotColumn && config.showTotals ? values.map(agg => claim(pivotKey(TOTAL_LABEL, agg, single))) : [];
+  const plainKeys = config.pivotColumn ? [] : values.map(agg => claim(aggregationAlias(agg)));
+  const valueColumns = config.pivotColumn ? [...cellKeys.flat(), ...totalKeys] : plainKeys;
+
+  const summarize = (groupList: any[]) => {
+    const record: Record<string, any> = {};
+    if (config.pivotColumn) {
+      const byPivot = groupRows(groupList, [config.pivotColumn]);
+      const lookup = new Map([...byPivot.values()].map(list => [String(list[0][config.pivotColumn!] ?? '(blank)'), list]));
+      pivotValues.forEach((pv, p) => {
+        const subset = lookup.get(pv) || [];
+        values.forEach((agg, v) => { record[cellKeys[p][v]] = subset.length ? aggregateRows(subset, agg) : null; });
+      });
+      totalKeys.forEach((key, v) => { record[key] = aggregateRows(groupList, values[v]); });
+    } else {
+      values.forEach((agg, v) => { record[plainKeys[v]] = aggregateRows(groupList, agg); });
+    }
+    return record;
+  };
+
+  let entries = [...groupRows(rows, config.rows).values()].map(groupList => {
+    const group = Object.fromEntries(config.rows.map(c => [c, groupList[0][c] ?? null]));
+    return { group, record: { ...group, ...summarize(groupList) } };
+  });
+
+  if (sort?.key && sort.direction) {
+    entries = entries.sort((a, b) => sort.direction === 'asc' ? compareValues(a.record[sort.key], b.record[sort.key]) : compareValues(b.record[sort.key], a.record[sort.key]));
+  }
+
+  const totalRow = config.showTotals && config.rows.length > 0
+    ? { ...Object.fromEntries(config.rows.map((c, i) => [c, i === 0 ? TOTAL_LABEL : ''])), ...summarize(rows) }
+    : undefined;
+
+  return {
+    columns: [...config.rows, ...valueColumns],
+    rows: entries.map(e => e.record),
+    groupValues: entries.map(e => e.group),
+    totalRow,
+    truncatedPivotValues: allPivotValues.length - pivotValues.length
+  };
+};
+
+export const describePivot = (config: PivotConfig) =>
+  `${config.values.map(v => `${AGGREGATION_LABELS[v.fn]} of ${v.column === '*' ? 'rows' : v.column}`).join(', ')} by ${config.rows.join(' / ')}${config.pivotColumn ? ` × ${config.pivotColumn}` : ''}`;
@@ -0,0 +1,135 @@
+import { ColumnMetadata, ColumnStats, HistogramBin, ImportColumnType } from '../types';
+import { detectDateFormat, parseDate, toIsoString } from './dateParsing';
+
+const TOP_VALUE_COUNT = 5;
+const MAX_HISTOGRAM_BINS = 20;
+
+const BOOLEAN_TEXT = /^(true|false|yes|no)$/i;
+// Same rule as import: leading zeros mean an identifier, not a quantity.
+const LEADING_ZERO = /^[-+]?0\d/;
+
+export const isNullish = (value: any) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+export const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (text === '' || LEADING_ZERO.test(text)) return null;
+  const num = Number(text);
+  return isFinite(num) ? num : null;
+};
+
+/** Smallest and largest value, found in a loop: spreading a large array into `Math.min` overflows the call stack. */
+export const extent = (values: number[]): { min: number; max: number } => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return { min, max };
+};
+
+/** Linear-interpolated quantile of an ascending array. */
+export const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const computeNumericStats = (values: number[]): ColumnStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  const sum = sorted.reduce((a, b) => a + b, 0);
+  const avg = sum / count;
+  const variance = count > 1 ? sorted.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (count - 1) : 0;
+  return {
+    min: sorted[0],
+    max: sorted[count - 1],
+    avg,
+    sum,
+    count,
+    median: quantile(sorted, 0.5),
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    stdDev: Math.sqrt(variance)
+  };
+};
+
+/** Equal-width bins, sized with Sturges' rule. */
+export const buildHistogram = (values: number[], min: number, max: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  if (min === max) return [{ start: min, end: max, count: values.length }];
+  const binCount = Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.log2(values.length) + 1));
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  values.forEach(v => {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  });
+  return bins;
+};
+
+const topValues = (values: any[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => {
+    const key = String(v);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return {
+    distinct: counts.size,
+    top: [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([value, count]) => ({ value, count }))
+  };
+};
+
+/**
+ * Infers a column's type from its values. Columns imported as text (IDs, ZIP
+ * codes) only count values that are already numbers or booleans, so they stay
+ * categorical until converted.
+ */
+export const profileColumn = (values: any[], importType?: ImportColumnType): ColumnMetadata => {
+  const present = values.filter(v => !isNullish(v));
+  const nullCount = values.length - present.length;
+  const { distinct, top } = topValues(present);
+  const base = { nullCount, uniqueValues: distinct, topValues: top };
+
+  if (present.length === 0) return { type: 'unknown', ...base };
+
+  const asText = importType === 'string';
+  if (present.every(v => typeof v === 'boolean' || (!asText && typeof v === 'string' && BOOLEAN_TEXT.test(v.trim())))) {
+    return { type: 'boolean', ...base };
+  }
+
+  const numbers = present.map(v => asText && typeof v !== 'number' ? null : toNumber(v));
+  if (numbers.every(n => n !== null)) {
+    const nums = numbers as number[];
+    const stats = computeNumericStats(nums);
+    return { type: 'numeric', ...base, stats, histogram: buildHistogram(nums, stats.min, stats.max) };
+  }
+
+  const dateFormat = detectDateFormat(present);
+  if (dateFormat) {
+    let min = Infinity;
+    let max = -Infinity;
+    present.forEach(v => {
+      const time = parseDate(v, dateFormat)!.getTime();
+      min = Math.min(min, time);
+      max = Math.max(max, time);
+    });
+    return { type: 'date', ...base, dateFormat, dateRange: { min: toIsoString(new Date(min)), max: toIsoString(new Date(max)) } };
+  }
+
+  return { type: 'categorical', ...base };
+};
+
+export const profileDataset = (columns: string[], rows: any[], columnTypes?: Record<string, ImportColumnType>): Record<string, ColumnMetadata> => {
+  const metadata: Record<string, ColumnMetadata> = {};
+  columns.forEach(col => {
+    metadata[col] = profileColumn(rows.map(r => r[col]), columnTypes?.[col]);
+  });
+  return metadata;
+};
@@ -0,0 +1,125 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AnalysisProvider, buildAnalysisPrompt, buildCleaningPrompt, normalizeAnalysisResult, normalizeCleaningSuggestions } from '../analysisProvider';
+import { CLEANING_ACTIONS } from '../cleaningEngine';
+import { GEMINI_MODEL, planQuery } from '../queryPlanner';
+import { createAbortError, extractPartialJsonString } from '../streaming';
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    textResponse: { type: Type.STRING },
+    insights: { type: Type.ARRAY, items: { type: Type.STRING } },
+    metrics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          value: { type: Type.STRING },
+          trend: { type: Type.NUMBER }
+        },
+        required: ['label', 'value']
+      }
+    },
+    suggestedChart: {
+      type: Type.OBJECT,
+      properties: {
+        type: { type: Type.STRING, enum: ['bar', 'line', 'scatter', 'pie', 'area', 'radar', 'boxplot'] },
+        title: { type: Type.STRING },
+        xAxisLabel: { type: Type.STRING },
+        yAxisLabel: { type: Type.STRING },
+        data: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { x: { type: Type.STRING }, y: { type: Type.NUMBER } },
+            required: ['x', 'y']
+          }
+        }
+      }
+    }
+  },
+  required: ['textResponse'],
+  // Text first, so it can be shown while the rest of the JSON is still streaming.
+  propertyOrdering: ['textResponse', 'insights', 'metrics', 'suggestedChart']
+};
+
+const cleaningSchema = {
+  type: Type.OBJECT,
+  properties: {
+    suggestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          column: { type: Type.STRING },
+          issue: { type: Type.STRING },
+          suggestion: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          actionType: { type: Type.STRING, enum: CLEANING_ACTIONS },
+          params: {
+            type: Type.OBJECT,
+            properties: {
+              fillStrategy: { type: Type.STRING, enum: ['mean', 'median', 'mode', 'constant', 'forward_fill'], description: 'fill_nulls' },
+              fillValue: { type: Type.STRING, description: "fill_nulls with the 'constant' strategy" },
+              caseStyle: { type: Type.STRING, enum: ['lower', 'upper', 'title'], description: 'change_case' },
+              find: { type: Type.STRING, description: 'find_replace' },
+              replace: { type: Type.STRING, description: 'find_replace' },
+              useRegex: { type: Type.BOOLEAN, description: 'find_replace' },
+              capMethod: { type: Type.STRING, enum: ['iqr', 'percentile'], description: 'cap_outliers' },
+              lowerPercentile: { type: Type.NUMBER, description: "cap_outliers with the 'percentile' method, 0-100" },
+              upperPercentile: { type: Type.NUMBER, description: "cap_outliers with the 'percentile' method, 0-100" },
+              delimiter: { type: Type.STRING, description: 'split_column' },
+              newColumns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'split_column: names of the new columns, in order' },
+              keyColumns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'dedupe_by_key' },
+              keep: { type: Type.STRING, enum: ['first', 'last'], description: 'dedupe_by_key' }
+            }
+          }
+        },
+        required: ['column', 'issue', 'suggestion', 'severity', 'actionType']
+      }
+    }
+  },
+  required: ['suggestions']
+};
+
+export const createGeminiProvider = (): AnalysisProvider => ({
+  id: 'gemini',
+  planQuery,
+
+  analyzeData: async (summary, question, sampleRows, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: GEMINI_MODEL,
+      contents: buildAnalysisPrompt(summary, question, sampleRows),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: analysisSchema,
+        abortSignal: options.signal
+      }
+    });
+    let buffer = '';
+    for await (const chunk of stream) {
+      if (options.signal?.aborted) throw createAbortError();
+      buffer += chunk.text || '';
+      const partial = extractPartialJsonString(buffer, 'textResponse');
+      if (partial !== null) options.onText?.(partial);
+    }
+    return normalizeAnalysisResult(JSON.parse(buffer));
+  },
+
+  getCleaningSuggestions: async (summary, sampleRows, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildCleaningPrompt(summary, sampleRows),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: cleaningSchema,
+        abortSignal: options.signal
+      }
+    });
+    if (options.signal?.aborted) throw createAbortError();
+    return normalizeCleaningSuggestions(JSON.parse(response.text || '{}'));
+  }
+});
@@ -0,0 +1,167 @@
+import { CleaningSuggestion, QuerySpec, StatisticSpec, StatisticTest, TimeGrain } from '../../types';
+import { AnalysisProvider } from '../analysisProvider';
+import { aggregationAlias } from '../queryEngine';
+import { isNullish, toNumber } from '../profiler';
+import { parseAnyDate } from '../dateParsing';
+import { createAbortError } from '../streaming';
+
+const STREAM_DELAY_MS = 20;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const FORECAST_PATTERN = /forecast|predict|project|next \d+ (?:day|week|month|quarter)/;
+const HORIZON_PATTERN = /next (\d+) (day|week|month|quarter)s?/;
+
+// Checked in order: "differ across" asks for ANOVA before the t-test's "differ between" is tried.
+const STATISTIC_KEYWORDS: { pattern: RegExp; test: StatisticTest }[] = [
+  { pattern: /correlat|relationship/, test: 'correlation' },
+  { pattern: /regress|drives?\b|impact of|effect of|influence/, test: 'regression' },
+  { pattern: /chi.?square|independen|associated/, test: 'chi_square' },
+  { pattern: /anova|vary by|differ(?:s|ence)? across/, test: 'anova' },
+  { pattern: /t-?test|differ(?:s|ence)? between|significant/, test: 'ttest' }
+];
+const MAX_MOCK_PREDICTORS = 3;
+const MAX_MOCK_CORRELATION_COLUMNS = 8;
+
+const CHART_KEYWORDS: { pattern: RegExp; type: NonNullable<QuerySpec['chartType']> }[] = [
+  { pattern: /trend|over time|forecast|monthly|daily|timeline/, type: 'line' },
+  { pattern: /share|breakdown|proportion|mix|split/, type: 'pie' },
+  { pattern: /distribution|spread|range|outlier/, type: 'boxplot' }
+];
+
+const firstKeyWhere = (row: any, test: (v: any) => boolean) => Object.keys(row || {}).find(k => test(row[k]));
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Emits the text word by word so the streaming UI behaves as it does with a real model.
+const streamText = async (text: string, signal?: AbortSignal, onText?: (text: string) => void) => {
+  let out = '';
+  for (const word of text.split(/(?<=\s)/)) {
+    if (signal?.aborted) throw createAbortError();
+    out += word;
+    onText?.(out);
+    await delay(STREAM_DELAY_MS);
+  }
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Deterministic stand-in for a model: the same question over the same data
+ * always yields the same answer, and nothing leaves the browser.
+ */
+export const createMockProvider = (): AnalysisProvider => ({
+  id: 'mock',
+
+  planQuery: async (dataset, question) => {
+    const q = question.toLowerCase();
+    const typeOf = (col: string) => dataset.metadata?.[col]?.type;
+    const mentioned = dataset.columns.filter(c => q.includes(c.toLowerCase()));
+    const numeric = dataset.columns.filter(c => typeOf(c) === 'numeric');
+    const dimensions = dataset.columns.filter(c => typeOf(c) === 'categorical' || typeOf(c) === 'date' || typeOf(c) === 'boolean');
+    const measure = mentioned.find(c => numeric.includes(c)) || numeric[0];
+    const dimension = mentioned.find(c => dimensions.includes(c)) || dimensions[0];
+    const chartType = CHART_KEYWORDS.find(k => k.pattern.test(q))?.type || 'bar';
+    const aggregation = measure ? { column: measure, fn: 'sum' as const } : { column: '*', fn: 'count' as const };
+    const dateColumn = mentioned.find(c => typeOf(c) === 'date') || dataset.columns.find(c => typeOf(c) === 'date');
+    const test = STATISTIC_KEYWORDS.find(k => k.pattern.test(q))?.test;
+    if (test) {
+      // Columns in the order the question names them, so "does price drive sales" regresses sales on price.
+      const byPosition = [...mentioned].sort((a, b) => q.indexOf(a.toLowerCase()) - q.indexOf(b.toLowerCase()));
+      const mentionedNumeric = byPosition.filter(c => numeric.includes(c));
+      const categories = dataset.columns.filter(c => typeOf(c) === 'categorical' || typeOf(c) === 'boolean');
+      const mentionedCategories = byPosition.filter(c => categories.includes(c));
+      const groupColumn = mentionedCategories[0] || categories[0];
+      const target = mentionedNumeric[mentionedNumeric.length - 1] || numeric[0];
+      const statistic: StatisticSpec | undefined =
+        test === 'correlation' ? (numeric.length >= 2 ? { test, columns: mentionedNumeric.length >= 2 ? mentionedNumeric : numeric.slice(0, MAX_MOCK_CORRELATION_COLUMNS) } : undefined)
+        : test === 'regression' ? (numeric.length >= 2 ? { test, target, predictors: mentionedNumeric.length >= 2 ? mentionedNumeric.slice(0, -1) : numeric.filter(c => c !== target).slice(0, MAX_MOCK_PREDICTORS) } : undefined)
+        : test === 'chi_square' ? (categories.length >= 2 ? { test, columns: mentionedCategories.length >= 2 ? mentionedCategories.slice(0, 2) : categories.slice(0, 2) } : undefined)
+        : target && groupColumn ? { test, target, groupColumn } : undefined;
+      if (statistic) return { groupBy: [], aggregations: [], filters: [], statistic };
+    }
+    if (FORECAST_PATTERN.test(q) && dateColumn) {
+      const horizon = q.match(HORIZON_PATTERN);
+      return {
+        groupBy: [],
+        aggregations: [aggregation],
+        filters: [],
+        chartType: 'line',
+        title: `${measure || 'Rows'} forecast`,
+        forecast: { dateColumn, grain: horizon?.[2] as TimeGrain | undefined, horizon: horizon ? Number(horizon[1]) : undefined }
+      };
+    }
+    return {
+      groupBy: dimension ? [dimension] : [],
+      aggregations: [aggregation],
+      filters: [],
+      sort: chartType === 'line' && dimension ? { column: dimension, direction: 'asc' } : { column: aggregationAlias(aggregation), direction: 'desc' },
+      limit: chartType === 'line' ? undefined : 12,
+      chartType,
+      title: measure ? `${measure}${dimension ? ` by ${dimension}` : ''}` : `Rows${dimension ? ` by ${dimension}` : ''}`,
+      metrics: measure
+        ? [
+            { label: `Total ${measure}`, aggregation: { column: measure, fn: 'sum' } },
+            { label: `Average ${measure}`, aggregation: { column: measure, fn: 'avg' } }
+          ]
+        : [{ label: 'Row Count', aggregation: { column: '*', fn: 'count' } }]
+    };
+  },
+
+  analyzeData: async (summary, question, sampleRows, options = {}) => {
+    const first = sampleRows[0];
+    const labelKey = firstKeyWhere(first, v => typeof v === 'string');
+    const valueKey = firstKeyWhere(first, v => typeof v === 'number');
+    const ranked = valueKey ? [...sampleRows].sort((a, b) => (Number(b[valueKey]) || 0) - (Number(a[valueKey]) || 0)) : [];
+    const describe = (row: any) => labelKey ? `${row[labelKey]} (${Number(row[valueKey!]).toLocaleString()})` : Number(row[valueKey!]).toLocaleString();
+    const insights = ranked.length > 0
+      ? [`Highest ${valueKey}: ${describe(ranked[0])}.`, `Lowest ${valueKey}: ${describe(ranked[ranked.length - 1])}.`]
+      : ['No numeric values were available to rank.'];
+    const textResponse = `Offline analysis of "${question}". ${summary.split('\n')[0]} Reviewed ${sampleRows.length} result rows.`;
+    await streamText(textResponse, options.signal, options.onText);
+    return {
+      textResponse,
+      insights,
+      metrics: [{ label: 'Rows Reviewed', value: sampleRows.length }],
+      suggestedChart: labelKey && valueKey ? {
+        type: 'bar',
+        title: `${valueKey} by ${labelKey}`,
+        data: sampleRows.map(r => ({ x: r[labelKey], y: Number(r[valueKey]) || 0 })),
+        xAxisLabel: labelKey,
+        yAxisLabel: valueKey
+      } : undefined
+    };
+  },
+
+  getCleaningSuggestions: async (_summary, sampleRows) => {
+    const suggestions: CleaningSuggestion[] = [];
+    const columns = [...new Set(sampleRows.flatMap(r => Object.keys(r || {})))];
+    columns.forEach(column => {
+      const values = sampleRows.map(r => r[column]);
+      const nulls = values.filter(isNullish).length;
+      const present = values.filter(v => !isNullish(v));
+      const numeric = present.length > 0 && present.every(v => toNumber(v) !== null);
+      if (nulls > 0) {
+        const severity = nulls > values.length / 4 ? 'high' : 'medium';
+        suggestions.push(numeric
+          ? { id: `mock-nulls-${column}`, column, issue: `${nulls} empty values in ${column}`, suggestion: `Fill empty ${column} values with the median`, severity, actionType: 'fill_nulls', params: { fillStrategy: 'median' } }
+          : { id: `mock-nulls-${column}`, column, issue: `${nulls} empty values in ${column}`, suggestion: `Remove rows where ${column} is empty`, severity, actionType: 'remove_nulls' });
+      }
+      const texts = present.filter((v): v is string => typeof v === 'string');
+      if (!numeric && new Set(texts.map(v => v.trim().toLowerCase())).size < new Set(texts.map(v => v.trim())).size) {
+        suggestions.push({ id: `mock-case-${column}`, column, issue: `Inconsistent capitalisation in ${column}`, suggestion: `Convert ${column} to title case`, severity: 'low', actionType: 'change_case', params: { caseStyle: 'title' } });
+      }
+      if (texts.length > 0 && texts.every(v => parseAnyDate(v)) && texts.some(v => !ISO_DATE.test(v.trim()))) {
+        suggestions.push({ id: `mock-dates-${column}`, column, issue: `Dates in ${column} are not in ISO format`, suggestion: `Rewrite ${column} as YYYY-MM-DD`, severity: 'low', actionType: 'parse_dates' });
+      }
+      if (values.some(v => typeof v === 'string' && v !== v.trim())) {
+        suggestions.push({ id: `mock-trim-${column}`, column, issue: `Leading or trailing whitespace in ${column}`, suggestion: `Trim whitespace in ${column}`, severity: 'low', actionType: 'normalize' });
+      }
+      if (values.some(v => typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))) && values.some(v => typeof v === 'number')) {
+        suggestions.push({ id: `mock-types-${column}`, column, issue: `Mixed text and numbers in ${column}`, suggestion: `Convert ${column} to numbers`, severity: 'medium', actionType: 'convert_types' });
+      }
+    });
+    if (new Set(sampleRows.map(r => JSON.stringify(r))).size < sampleRows.length) {
+      suggestions.push({ id: 'mock-duplicates', column: columns[0] || '', issue: 'Duplicate rows in sample', suggestion: 'Remove exact duplicate rows', severity: 'medium', actionType: 'deduplicate' });
+    }
+    return suggestions;
+  }
+});
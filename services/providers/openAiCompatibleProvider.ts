@@ -0,0 +1,72 @@
+import { ProviderSettings } from '../../types';
+import { AnalysisProvider, buildAnalysisPrompt, buildCleaningPrompt, normalizeAnalysisResult, normalizeCleaningSuggestions } from '../analysisProvider';
+import { AGGREGATION_FNS, CHART_TYPES, FILTER_OPERATORS, STATISTIC_TESTS, TIME_GRAINS, buildPlannerPrompt, sanitizeQuerySpec } from '../queryPlanner';
+import { extractPartialJsonString, readServerSentEvents } from '../streaming';
+
+const SYSTEM_PROMPT = 'You are Ada, a senior data analyst. Always answer with a single JSON object and nothing else.';
+
+const oneOf = (values: string[]) => values.map(v => `"${v}"`).join('|');
+
+// Built from the planner's enums so it stays in step with the Gemini response schema.
+const QUERY_SPEC_SHAPE = `{"groupBy": string[], "aggregations": [{"column": string, "fn": ${oneOf(AGGREGATION_FNS)}}], "filters": [{"column": string, "operator": ${oneOf(FILTER_OPERATORS)}, "value": string, "valueEnd"?: string}], "sort"?: {"column": string, "direction": "asc"|"desc"}, "limit"?: number, "chartType"?: ${oneOf(CHART_TYPES)}, "title"?: string, "metrics"?: [{"label": string, "aggregation": {"column": string, "fn": string}, "description"?: string}], "forecast"?: {"dateColumn": string, "grain"?: ${oneOf(TIME_GRAINS)}, "horizon"?: number}, "statistic"?: {"test": ${oneOf(STATISTIC_TESTS)}, "columns"?: string[], "target"?: string, "predictors"?: string[], "groupColumn"?: string, "groups"?: string[]}}`;
+
+const ANALYSIS_SHAPE = `{"textResponse": string, "insights": string[], "metrics": [{"label": string, "value": string|number, "trend"?: number}], "suggestedChart"?: {"type": "bar"|"line"|"scatter"|"pie"|"area"|"radar"|"boxplot", "title": string, "xAxisLabel": string, "yAxisLabel": string, "data": [{"x": string|number, "y": number}]}}`;
+
+const CLEANING_SHAPE = `{"suggestions": [{"column": string, "issue": string, "suggestion": string, "severity": "low"|"medium"|"high", "actionType": "remove_nulls"|"normalize"|"convert_types"|"deduplicate"|"fill_nulls"|"change_case"|"find_replace"|"cap_outliers"|"parse_dates"|"split_column"|"dedupe_by_key", "params"?: {"fillStrategy"?: "mean"|"median"|"mode"|"constant"|"forward_fill", "fillValue"?: string, "caseStyle"?: "lower"|"upper"|"title", "find"?: string, "replace"?: string, "useRegex"?: boolean, "capMethod"?: "iqr"|"percentile", "lowerPercentile"?: number, "upperPercentile"?: number, "delimiter"?: string, "newColumns"?: string[], "keyColumns"?: string[], "keep"?: "first"|"last"}}]}`;
+
+// Local servers often wrap JSON in prose or code fences despite response_format.
+const extractJson = (text: string): any => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) throw new Error('Model response did not contain JSON');
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+/** Any server exposing `/chat/completions` in the OpenAI format, e.g. llama.cpp, Ollama or vLLM. */
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): AnalysisProvider => {
+  const complete = async (prompt: string, signal?: AbortSignal, onText?: (text: string) => void): Promise<any> => {
+    const response = await fetch(`${settings.openAiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.openAiModel,
+        messages: [{ role: 'system', content: SYSTEM_PROMPT }, { role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        stream: Boolean(onText)
+      })
+    });
+    if (!response.ok) throw new Error(`Model endpoint returned ${response.status} ${response.statusText}`);
+    if (!onText) {
+      const body = await response.json();
+      return extractJson(body?.choices?.[0]?.message?.content ?? '');
+    }
+    let buffer = '';
+    for await (const data of readServerSentEvents(response)) {
+      buffer += JSON.parse(data)?.choices?.[0]?.delta?.content ?? '';
+      const partial = extractPartialJsonString(buffer, 'textResponse');
+      if (partial !== null) onText(partial);
+    }
+    return extractJson(buffer);
+  };
+
+  return {
+    id: 'openai',
+    planQuery: async (dataset, question, options = {}) => {
+      const raw = await complete(`${buildPlannerPrompt(dataset, question)}\n\nRespond with JSON shaped like: ${QUERY_SPEC_SHAPE}`, options.signal);
+      return sanitizeQuerySpec(raw, dataset.columns);
+    },
+    analyzeData: async (summary, question, sampleRows, options = {}) => {
+      const raw = await complete(`${buildAnalysisPrompt(summary, question, sampleRows)} Respond with JSON shaped like: ${ANALYSIS_SHAPE}`, options.signal, options.onText ?? (() => {}));
+      return normalizeAnalysisResult(raw);
+    },
+    getCleaningSuggestions: async (summary, sampleRows, options = {}) => {
+      const raw = await complete(`${buildCleaningPrompt(summary, sampleRows)} Respond with JSON shaped like: ${CLEANING_SHAPE}`, options.signal);
+      return normalizeCleaningSuggestions(raw);
+    }
+  };
+};
@@ -0,0 +1,152 @@
+import { CleaningSuggestion, DateFormat, Dataset } from '../types';
+import { parseDate } from './dateParsing';
+import { getBaseColumns } from './formulaEngine';
+import { isNullish, quantile, toNumber } from './profiler';
+import { stripRowId } from './rowIdentity';
+
+const MIN_OUTLIER_SAMPLE = 8;
+const EXAMPLE_COUNT = 3;
+// A column counts as numeric with stray text when at least this share of its values are numbers.
+const MOSTLY_NUMERIC_SHARE = 0.8;
+
+const DATE_FAMILIES: { format: DateFormat; family: string }[] = [
+  { format: 'iso', family: 'ISO' },
+  { format: 'ymd', family: 'YYYY/MM/DD' },
+  { format: 'text', family: 'written month' },
+  { format: 'mdy', family: 'slashed' },
+  { format: 'dmy', family: 'slashed' }
+];
+
+const severityFor = (affected: number, total: number): CleaningSuggestion['severity'] => {
+  const share = total ? affected / total : 0;
+  return share > 0.25 ? 'high' : share > 0.05 ? 'medium' : 'low';
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const examples = (values: string[]) => values.slice(0, EXAMPLE_COUNT).map(v => `"${v}"`).join(', ');
+
+const dateFamily = (value: string): string | null => DATE_FAMILIES.find(f => parseDate(value, f.format))?.family ?? null;
+
+type RuleSuggestion = Omit<CleaningSuggestion, 'id' | 'source'>;
+
+const checkColumn = (column: string, values: any[]): RuleSuggestion[] => {
+  const total = values.length;
+  const found: RuleSuggestion[] = [];
+  const present = values.filter(v => !isNullish(v));
+  const strings = present.filter((v): v is string => typeof v === 'string');
+  const numericCount = present.filter(v => toNumber(v) !== null).length;
+  const isNumeric = present.length > 0 && numericCount === present.length;
+  const isMostlyNumeric = present.length > 0 && numericCount / present.length >= MOSTLY_NUMERIC_SHARE;
+
+  const nulls = total - present.length;
+  if (nulls > 0) {
+    found.push(isNumeric
+      ? { column, issue: `${nulls.toLocaleString()} empty values in ${column}`, suggestion: `Fill empty ${column} values with the median`, severity: severityFor(nulls, total), affectedRows: nulls, actionType: 'fill_nulls', params: { fillStrategy: 'median' } }
+      : { column, issue: `${nulls.toLocaleString()} empty values in ${column}`, suggestion: `Remove rows where ${column} is empty`, severity: severityFor(nulls, total), affectedRows: nulls, actionType: 'remove_nulls' });
+  }
+
+  if (isNumeric) {
+    const numericStrings = strings.length;
+    if (numericStrings > 0 && numericStrings < present.length) {
+      found.push({ column, issue: `${numericStrings.toLocaleString()} numbers stored as text in ${column}`, suggestion: `Convert ${column} to numbers`, severity: severityFor(numericStrings, total), affectedRows: numericStrings, actionType: 'convert_types' });
+    }
+  } else if (isMostlyNumeric) {
+    const stray = present.filter(v => toNumber(v) === null).map(v => String(v).trim());
+    const distinct = [...new Set(stray)];
+    found.push({
+      column,
+      issue: `${stray.length.toLocaleString()} non-numeric values in numeric column ${column} (${examples(distinct)})`,
+      suggestion: `Blank out the non-numeric entries in ${column}`,
+      severity: severityFor(stray.length, total),
+      affectedRows: stray.length,
+      actionType: 'find_replace',
+      params: { find: `^\\s*(${distinct.map(escapeRegex).join('|')})\\s*$`, replace: '', useRegex: true }
+    });
+  }
+
+  const padded = strings.filter(v => v !== v.trim() || /\s{2,}/.test(v)).length;
+  if (padded > 0) {
+    found.push({ column, issue: `${padded.toLocaleString()} values in ${column} have stray whitespace`, suggestion: `Trim whitespace in ${column}`, severity: severityFor(padded, total), affectedRows: padded, actionType: 'normalize' });
+  }
+
+  if (!isNumeric) {
+    // Values that only differ by case: everything but the most common spelling is inconsistent.
+    const spellings = new Map<string, Map<string, number>>();
+    strings.forEach(v => {
+      const key = v.trim().toLowerCase();
+      const variants = spellings.get(key) || new Map<string, number>();
+      variants.set(v.trim(), (variants.get(v.trim()) || 0) + 1);
+      spellings.set(key, variants);
+    });
+    let inconsistent = 0;
+    const clashing: string[] = [];
+    spellings.forEach(variants => {
+      if (variants.size < 2) return;
+      const counts = [...variants.values()];
+      inconsistent += counts.reduce((a, b) => a + b, 0) - Math.max(...counts);
+      clashing.push(...variants.keys());
+    });
+    if (inconsistent > 0) {
+      found.push({ column, issue: `${inconsistent.toLocaleString()} values in ${column} differ only by case (${examples(clashing)})`, suggestion: `Convert ${column} to title case`, severity: severityFor(inconsistent, total), affectedRows: inconsistent, actionType: 'change_case', params: { caseStyle: 'title' } });
+    }
+  }
+
+  if (isMostlyNumeric && numericCount >= MIN_OUTLIER_SAMPLE) {
+    const sorted = present.map(toNumber).filter((n): n is number => n !== null).sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    const outliers = iqr > 0 ? sorted.filter(n => n < q1 - 1.5 * iqr || n > q3 + 1.5 * iqr).length : 0;
+    if (outliers > 0) {
+      found.push({ column, issue: `${outliers.toLocaleString()} outliers in ${column} beyond 1.5× IQR`, suggestion: `Cap ${column} to its IQR fences`, severity: severityFor(outliers, total), affectedRows: outliers, actionType: 'cap_outliers', params: { capMethod: 'iqr' } });
+    }
+  }
+
+  if (!isNumeric && strings.length > 0) {
+    const families = strings.map(dateFamily);
+    if (families.every(Boolean)) {
+      const counts = new Map<string, number>();
+      families.forEach(f => counts.set(f!, (counts.get(f!) || 0) + 1));
+      if (counts.size > 1) {
+        const nonIso = strings.length - (counts.get('ISO') || 0);
+        found.push({ column, issue: `${column} mixes ${counts.size} date formats (${[...counts.keys()].join(', ')})`, suggestion: `Rewrite ${column} as ISO dates`, severity: severityFor(nonIso, total), affectedRows: nonIso, actionType: 'parse_dates' });
+      }
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Scans every row of the dataset for common data-quality problems. The
+ * result depends only on the data, so ids are stable across runs.
+ */
+export const runQualityRules = (d: Pick<Dataset, 'columns' | 'rows' | 'calculatedColumns'>): CleaningSuggestion[] => {
+  const suggestions: CleaningSuggestion[] = getBaseColumns(d.columns, d.calculatedColumns)
+    .flatMap(column => checkColumn(column, d.rows.map(r => r[column])))
+    .map(s => ({ ...s, id: `rule-${s.actionType}-${s.column}`, source: 'rules' }));
+
+  const seen = new Set<string>();
+  let duplicates = 0;
+  d.rows.forEach(r => {
+    const key = JSON.stringify(stripRowId(r));
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  });
+  if (duplicates > 0) {
+    suggestions.push({ id: 'rule-deduplicate', column: d.columns[0] || '', issue: `${duplicates.toLocaleString()} exact duplicate rows`, suggestion: 'Remove exact duplicate rows', severity: severityFor(duplicates, d.rows.length), affectedRows: duplicates, actionType: 'deduplicate', source: 'rules' });
+  }
+
+  const rank = { high: 0, medium: 1, low: 2 };
+  return suggestions.sort((a, b) => rank[a.severity] - rank[b.severity]);
+};
+
+/** Model suggestions are kept unless a rule already covers the same fix on the same column. */
+export const mergeCleaningSuggestions = (rules: CleaningSuggestion[], ai: CleaningSuggestion[]): CleaningSuggestion[] => {
+  const covered = new Set(rules.map(s => `${s.actionType === 'deduplicate' ? '' : s.column}|${s.actionType}`));
+  const extra = ai
+    .filter(s => !s.actionType || !covered.has(`${s.actionType === 'deduplicate' ? '' : s.column}|${s.actionType}`))
+    .map(s => ({ ...s, source: 'ai' as const }));
+  return [...rules, ...extra];
+};
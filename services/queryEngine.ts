@@ -0,0 +1,205 @@
+import { AggregationFn, ChartConfig, DateFormat, KPIMetric, QueryAggregation, QueryResult, QuerySpec } from '../types';
+import { applyFilters } from './filterEngine';
+import { isNullish, quantile } from './profiler';
+import { boxplotSummary, runStatistic, statisticColumns, StatisticResult } from './statistics';
+import { forecastSeries, resampleSeries, TIME_GRAIN_LABELS } from './timeSeries';
+
+export const AGGREGATION_LABELS: Record<AggregationFn, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  count_distinct: 'Count Distinct',
+  min: 'Min',
+  max: 'Max',
+  median: 'Median'
+};
+
+export const aggregationAlias = (agg: QueryAggregation) => agg.alias || (agg.column === '*' ? agg.fn : `${agg.fn}_${agg.column}`);
+
+const toFiniteNumbers = (values: any[]): number[] => values
+  .filter(v => !isNullish(v))
+  .map(Number)
+  .filter(n => isFinite(n));
+
+export const aggregateValues = (values: any[], fn: AggregationFn): number | null => {
+  if (fn === 'count') return values.filter(v => !isNullish(v)).length;
+  if (fn === 'count_distinct') return new Set(values.filter(v => !isNullish(v)).map(String)).size;
+  const nums = toFiniteNumbers(values);
+  if (nums.length === 0) return null;
+  switch (fn) {
+    case 'sum': return nums.reduce((a, b) => a + b, 0);
+    case 'avg': return nums.reduce((a, b) => a + b, 0) / nums.length;
+    case 'min': return nums.reduce((a, b) => Math.min(a, b), Infinity);
+    case 'max': return nums.reduce((a, b) => Math.max(a, b), -Infinity);
+    case 'median': return quantile([...nums].sort((a, b) => a - b), 0.5);
+  }
+};
+
+export const aggregateRows = (rows: any[], agg: QueryAggregation) =>
+  agg.column === '*' && agg.fn === 'count' ? rows.length : aggregateValues(rows.map(r => r[agg.column]), agg.fn);
+
+/** Splits rows into groups keyed by the group-by values, preserving first-seen order. */
+export const groupRows = (rows: any[], groupBy: string[]): Map<string, any[]> => {
+  const groups = new Map<string, any[]>();
+  rows.forEach(row => {
+    const key = JSON.stringify(groupBy.map(c => row[c] ?? null));
+    const bucket = groups.get(key);
+    if (bucket) bucket.push(row);
+    else groups.set(key, [row]);
+  });
+  return groups;
+};
+
+export const compareValues = (a: any, b: any) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/** Returns the names of columns the spec references that the dataset does not have. */
+export const validateQuerySpec = (spec: QuerySpec, columns: string[]): string[] => {
+  const known = new Set(columns);
+  const referenced = [
+    ...spec.groupBy,
+    ...spec.aggregations.map(a => a.column),
+    ...spec.filters.map(f => f.column),
+    ...(spec.metrics || []).map(m => m.aggregation.column),
+    ...(spec.forecast ? [spec.forecast.dateColumn] : []),
+    ...(spec.statistic ? statisticColumns(spec.statistic) : [])
+  ];
+  return [...new Set(referenced.filter(c => c !== '*' && !known.has(c)))];
+};
+
+export const runQuery = (rows: any[], spec: QuerySpec): QueryResult => {
+  const filtered = applyFilters(rows, spec.filters);
+  const aliases = spec.aggregations.map(aggregationAlias);
+  const groups = spec.groupBy.length > 0 ? groupRows(filtered, spec.groupBy) : new Map([['[]', filtered]]);
+
+  let resultRows = [...groups.values()].map(groupRowsList => {
+    const record: Record<string, any> = {};
+    spec.groupBy.forEach(c => { record[c] = groupRowsList[0][c] ?? null; });
+    spec.aggregations.forEach((agg, i) => { record[aliases[i]] = aggregateRows(groupRowsList, agg); });
+    return record;
+  });
+
+  if (spec.sort) {
+    const { column, direction } = spec.sort;
+    resultRows.sort((a, b) => direction === 'asc' ? compareValues(a[column], b[column]) : compareValues(b[column], a[column]));
+  }
+  if (spec.limit && spec.limit > 0) resultRows = resultRows.slice(0, spec.limit);
+
+  return { columns: [...spec.groupBy, ...aliases], rows: resultRows, sourceRowCount: filtered.length };
+};
+
+const formatMetricValue = (value: number | null) => value === null ? '—' : Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const computeMetrics = (rows: any[], spec: QuerySpec): KPIMetric[] => {
+  if (spec.statistic) {
+    const metrics = tryStatistic(rows, spec)?.metrics || [];
+    return spec.statistic.metric ? metrics.filter(m => m.label === spec.statistic!.metric) : metrics;
+  }
+  if (!spec.metrics || spec.metrics.length === 0) return [];
+  const filtered = applyFilters(rows, spec.filters);
+  return spec.metrics.map(m => ({
+    label: m.label,
+    value: formatMetricValue(aggregateRows(filtered, m.aggregation)),
+    description: m.description
+  }));
+};
+
+/** The spec's statistical test over its filtered rows. Throws when the test cannot run. */
+export const runStatisticQuery = (rows: any[], spec: QuerySpec): StatisticResult => runStatistic(applyFilters(rows, spec.filters), spec.statistic!);
+
+// Tiles and re-runs recompute quietly: a test that no longer runs keeps its last result.
+const tryStatistic = (rows: any[], spec: QuerySpec): StatisticResult | undefined => {
+  try {
+    return runStatisticQuery(rows, spec);
+  } catch {
+    return undefined;
+  }
+};
+
+// Sums and counts of an empty period are zero; averages and extremes are unknown.
+const ADDITIVE_AGGREGATIONS: AggregationFn[] = ['sum', 'count', 'count_distinct'];
+
+const aggregationLabel = (agg: QueryAggregation) => `${AGGREGATION_LABELS[agg.fn]} of ${agg.column === '*' ? 'rows' : agg.column}`;
+
+/** The spec's first aggregation as a resampled time series, with its forecast. */
+const buildTimeSeries = (rows: any[], spec: QuerySpec, dateFormats: Record<string, DateFormat>) => {
+  const forecast = spec.forecast!;
+  const agg = spec.aggregations[0];
+  const series = resampleSeries(applyFilters(rows, spec.filters), forecast.dateColumn, group => aggregateRows(group, agg), {
+    grain: forecast.grain,
+    dateFormat: dateFormats[forecast.dateColumn],
+    additive: ADDITIVE_AGGREGATIONS.includes(agg.fn)
+  });
+  return series && { series, forecast: forecastSeries(series, forecast.horizon) };
+};
+
+/** Period-by-period values for a forecast spec, followed by the forecast periods with their intervals. */
+export const runForecastQuery = (rows: any[], spec: QuerySpec, dateFormats: Record<string, DateFormat> = {}): QueryResult => {
+  const alias = aggregationAlias(spec.aggregations[0]);
+  const columns = ['period', alias, 'forecast', 'lower', 'upper'];
+  const built = spec.aggregations.length > 0 && buildTimeSeries(rows, spec, dateFormats);
+  if (!built) return { columns, rows: [], sourceRowCount: 0 };
+  const actual = built.series.labels.map((period, i) => ({ period, [alias]: built.series.values[i], forecast: null, lower: null, upper: null }));
+  const future = (built.forecast?.points || []).map(p => ({ period: p.x, [alias]: null, forecast: p.y, lower: p.lower, upper: p.upper }));
+  return { columns, rows: [...actual, ...future], sourceRowCount: built.series.sourceRowCount };
+};
+
+/**
+ * Chart data for the spec: the first aggregation per group, its five-number
+ * summary for box plots, its time series and forecast when the spec has
+ * one, or the chart of its statistical test. `dateFormats` tells how to read
+ * date columns.
+ */
+export const buildChartFromQuery = (rows: any[], spec: QuerySpec, dateFormats: Record<string, DateFormat> = {}): ChartConfig | undefined => {
+  if (spec.statistic) {
+    const chart = tryStatistic(rows, spec)?.chart;
+    return chart && spec.title ? { ...chart, title: spec.title } : chart;
+  }
+  if (!spec.chartType || spec.aggregations.length === 0) return undefined;
+  const agg = spec.aggregations[0];
+  const alias = aggregationAlias(agg);
+  const xAxisLabel = spec.groupBy.join(' / ') || 'All Rows';
+  const yAxisLabel = aggregationLabel(agg);
+
+  if (spec.forecast) {
+    const built = buildTimeSeries(rows, spec, dateFormats);
+    if (!built) return undefined;
+    return {
+      type: spec.chartType === 'area' ? 'area' : 'line',
+      title: spec.title || `${yAxisLabel} forecast`,
+      data: built.series.labels.map((x, i) => ({ x, y: built.series.values[i] })),
+      xAxisLabel: `${spec.forecast.dateColumn} (${TIME_GRAIN_LABELS[built.series.grain].toLowerCase()})`,
+      yAxisLabel,
+      forecast: built.forecast || undefined
+    };
+  }
+  const labelFor = (record: Record<string, any>) => spec.groupBy.length ? spec.groupBy.map(c => record[c] ?? '(blank)').join(' / ') : 'All';
+
+  if (spec.chartType === 'boxplot') {
+    const filtered = applyFilters(rows, spec.filters);
+    const groups = spec.groupBy.length > 0 ? groupRows(filtered, spec.groupBy) : new Map([['[]', filtered]]);
+    const data = [...groups.values()].map(groupRowsList => {
+      const sorted = toFiniteNumbers(groupRowsList.map(r => r[agg.column])).sort((a, b) => a - b);
+      const key = Object.fromEntries(spec.groupBy.map(c => [c, groupRowsList[0][c] ?? null]));
+      return { x: labelFor(key), ...boxplotSummary(sorted), originalRow: key };
+    }).filter(d => !isNaN(d.y));
+    return { type: 'boxplot', title: spec.title || `${agg.column} by ${xAxisLabel}`, data, xAxisLabel, yAxisLabel };
+  }
+
+  const result = runQuery(rows, spec);
+  return {
+    type: spec.chartType,
+    title: spec.title || `${yAxisLabel} by ${xAxisLabel}`,
+    data: result.rows.map(record => ({
+      x: labelFor(record),
+      y: record[alias] ?? 0,
+      originalRow: Object.fromEntries(spec.groupBy.map(c => [c, record[c]]))
+    })),
+    xAxisLabel,
+    yAxisLabel
+  };
+};
@@ -0,0 +1,161 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AggregationFn, Dataset, QuerySpec, StatisticTest, TimeGrain } from '../types';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const AGGREGATION_FNS: AggregationFn[] = ['sum', 'avg', 'count', 'count_distinct', 'min', 'max', 'median'];
+export const CHART_TYPES = ['bar', 'line', 'scatter', 'pie', 'area', 'radar', 'boxplot'];
+export const TIME_GRAINS: TimeGrain[] = ['day', 'week', 'month', 'quarter'];
+const MAX_FORECAST_HORIZON = 120;
+export const STATISTIC_TESTS: StatisticTest[] = ['correlation', 'regression', 'ttest', 'chi_square', 'anova'];
+export const FILTER_OPERATORS = ['equals', 'contains', 'starts_with', 'gt', 'lt', 'between', 'in', 'not_in', 'is_empty', 'not_empty', 'relative_date'];
+
+const aggregationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    column: { type: Type.STRING, description: "Column to aggregate, or '*' to count rows" },
+    fn: { type: Type.STRING, enum: AGGREGATION_FNS }
+  },
+  required: ['column', 'fn']
+};
+
+const querySpecSchema = {
+  type: Type.OBJECT,
+  properties: {
+    groupBy: { type: Type.ARRAY, items: { type: Type.STRING } },
+    aggregations: { type: Type.ARRAY, items: aggregationSchema },
+    filters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          column: { type: Type.STRING },
+          operator: { type: Type.STRING, enum: FILTER_OPERATORS },
+          value: { type: Type.STRING, description: "Comma-separated list for in / not_in; for relative_date one of today, this_month, last_quarter, this_year, last_<n>_days..." },
+          valueEnd: { type: Type.STRING }
+        },
+        required: ['column', 'operator', 'value']
+      }
+    },
+    sort: {
+      type: Type.OBJECT,
+      properties: {
+        column: { type: Type.STRING, description: 'A group-by column or an aggregation alias such as sum_revenue' },
+        direction: { type: Type.STRING, enum: ['asc', 'desc'] }
+      },
+      required: ['column', 'direction']
+    },
+    limit: { type: Type.INTEGER },
+    chartType: { type: Type.STRING, enum: CHART_TYPES },
+    title: { type: Type.STRING },
+    metrics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          aggregation: aggregationSchema,
+          description: { type: Type.STRING }
+        },
+        required: ['label', 'aggregation']
+      }
+    },
+    forecast: {
+      type: Type.OBJECT,
+      description: 'Only for forecasts, projections or trends over time',
+      properties: {
+        dateColumn: { type: Type.STRING },
+        grain: { type: Type.STRING, enum: TIME_GRAINS },
+        horizon: { type: Type.INTEGER, description: 'Number of future periods to forecast' }
+      },
+      required: ['dateColumn']
+    },
+    statistic: {
+      type: Type.OBJECT,
+      description: 'Only for questions about relationships, drivers or differences between groups',
+      properties: {
+        test: { type: Type.STRING, enum: STATISTIC_TESTS },
+        columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'correlation: numeric columns; chi_square: two categorical columns' },
+        target: { type: Type.STRING, description: 'regression, ttest, anova: the numeric outcome' },
+        predictors: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'regression: numeric explanatory columns' },
+        groupColumn: { type: Type.STRING, description: 'ttest, anova: the column that defines the groups' },
+        groups: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'ttest: the two group values to compare' }
+      },
+      required: ['test']
+    }
+  },
+  required: ['groupBy', 'aggregations', 'filters']
+};
+
+/** Column list with profiled types, so the model can plan without seeing raw rows. */
+export const describeColumns = (dataset: Dataset): string => dataset.columns.map(col => {
+  const meta = dataset.metadata?.[col];
+  if (!meta) return `- ${col}`;
+  const examples = meta.topValues.slice(0, 3).map(t => t.value).join(', ');
+  const formula = dataset.calculatedColumns?.find(c => c.name === col)?.expression;
+  return `- ${col} (${meta.type}${meta.uniqueValues !== undefined ? `, ${meta.uniqueValues} distinct` : ''}${examples ? `, e.g. ${examples}` : ''})${formula ? ` = ${formula}` : ''}`;
+}).join('\n');
+
+export const buildPlannerPrompt = (dataset: Dataset, question: string) => `You translate business questions into a query over a table.
+Dataset: ${dataset.summary}
+Row count: ${dataset.rows.length}
+Columns:
+${describeColumns(dataset)}
+
+Question: ${question}
+
+Return a query spec. Only reference the columns listed above. Aggregation aliases are "<fn>_<column>" (or "count" for a '*' count).
+Choose chartType when a visual helps answer the question, and add metrics for headline KPIs.
+Use relative_date filters for phrases like "last 30 days" or "this quarter".
+For forecasts or projections, set forecast.dateColumn to a date column, forecast.grain to the period asked for and forecast.horizon to the number of periods ahead; the first aggregation is forecast and groupBy is ignored.
+For "does X drive Y", "is X related to Y" or "do groups differ" questions, set statistic instead of guessing: correlation across numeric columns, regression of a numeric target on numeric predictors, ttest between two groups, anova across several groups, or chi_square between two categorical columns. The test is computed locally and aggregations may be left empty.`;
+
+/** Drops anything the model invented: unknown columns, functions or operators. */
+export const sanitizeQuerySpec = (raw: any, columns: string[]): QuerySpec => {
+  const known = new Set(columns);
+  const validAgg = (a: any) => a && AGGREGATION_FNS.includes(a.fn) && (a.column === '*' ? a.fn === 'count' : known.has(a.column));
+  const aggregations = (Array.isArray(raw?.aggregations) ? raw.aggregations : []).filter(validAgg).map((a: any) => ({ column: a.column, fn: a.fn }));
+  const knownColumns = (value: any) => Array.isArray(value) ? value.filter((c: any) => known.has(c)) : undefined;
+  const statistic = raw?.statistic;
+  return {
+    groupBy: (Array.isArray(raw?.groupBy) ? raw.groupBy : []).filter((c: any) => known.has(c)),
+    aggregations,
+    filters: (Array.isArray(raw?.filters) ? raw.filters : [])
+      .filter((f: any) => f && known.has(f.column) && FILTER_OPERATORS.includes(f.operator))
+      .map((f: any) => ({ column: f.column, operator: f.operator, value: f.value, valueEnd: f.valueEnd })),
+    sort: raw?.sort?.column && (raw.sort.direction === 'asc' || raw.sort.direction === 'desc') ? { column: raw.sort.column, direction: raw.sort.direction } : undefined,
+    limit: Number.isInteger(raw?.limit) && raw.limit > 0 ? raw.limit : undefined,
+    chartType: CHART_TYPES.includes(raw?.chartType) ? raw.chartType : undefined,
+    title: typeof raw?.title === 'string' ? raw.title : undefined,
+    metrics: (Array.isArray(raw?.metrics) ? raw.metrics : [])
+      .filter((m: any) => m && typeof m.label === 'string' && validAgg(m.aggregation))
+      .map((m: any) => ({ label: m.label, aggregation: { column: m.aggregation.column, fn: m.aggregation.fn }, description: m.description })),
+    forecast: known.has(raw?.forecast?.dateColumn) ? {
+      dateColumn: raw.forecast.dateColumn,
+      grain: TIME_GRAINS.includes(raw.forecast.grain) ? raw.forecast.grain : undefined,
+      horizon: Number.isInteger(raw.forecast.horizon) && raw.forecast.horizon > 0 ? Math.min(raw.forecast.horizon, MAX_FORECAST_HORIZON) : undefined
+    } : undefined,
+    statistic: STATISTIC_TESTS.includes(statistic?.test) ? {
+      test: statistic.test,
+      columns: knownColumns(statistic.columns),
+      target: known.has(statistic.target) ? statistic.target : undefined,
+      predictors: knownColumns(statistic.predictors),
+      groupColumn: known.has(statistic.groupColumn) ? statistic.groupColumn : undefined,
+      groups: Array.isArray(statistic.groups) ? statistic.groups.map(String).slice(0, 2) : undefined
+    } : undefined
+  };
+};
+
+export const planQuery = async (dataset: Dataset, question: string, options: { signal?: AbortSignal } = {}): Promise<QuerySpec> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: buildPlannerPrompt(dataset, question),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: querySpecSchema,
+      abortSignal: options.signal
+    }
+  });
+  return sanitizeQuerySpec(JSON.parse(response.text || '{}'), dataset.columns);
+};
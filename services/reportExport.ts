@@ -0,0 +1,223 @@
+import { ChartConfig, DashboardPage, DashboardSlicer, DashboardTile, TableSnapshot } from '../types';
+import { escapeXml, renderChartSvg } from './chartSvg';
+import { describeCondition, describeFilter, drillFilterFor } from './filterEngine';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from './markdown';
+import { CrossFilter, slicerFilters, tileTitle } from './tileBinding';
+import { clampTileSize, tileRows } from './dashboardLayout';
+
+/** What every export states about itself, so a reader can tell what they are looking at. */
+export interface ReportMetadata {
+  title: string;
+  datasetName: string;
+  filters: string[]; // dashboard-wide filters, already described
+  generatedAt: number;
+}
+
+export interface ReportPage {
+  name: string;
+  tiles: DashboardTile[];
+}
+
+export const SLIDE_WIDTH = 1600;
+export const SLIDE_HEIGHT = 900;
+const SLIDE_TABLE_ROWS = 14;
+const SLIDE_TABLE_COLUMNS = 8;
+const HTML_TABLE_ROWS = 200;
+const ROW_PX = 80;
+const GAP_PX = 24;
+
+export const describeDashboardFilters = (slicers: DashboardSlicer[] = [], crossFilter: CrossFilter | null, columns: string[]): string[] => [
+  ...slicerFilters(slicers, columns).map(f => describeCondition(f)),
+  ...(crossFilter ? [`${describeCondition(drillFilterFor(crossFilter.column, crossFilter.value))} (cross-filter)`] : [])
+];
+
+/** Filters baked into a tile's own query or pivot. */
+export const tileFilterSummary = (tile: DashboardTile): string[] => [
+  ...(tile.query?.filters || []).map(f => describeCondition(f)),
+  ...(tile.filters || []).map(describeFilter)
+];
+
+const formatTimestamp = (ms: number) => new Date(ms).toLocaleString();
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/** e.g. "sales-revenue-by-region-20261019-1430.png"; `suffix` names the part exported. */
+export const reportFileName = (meta: ReportMetadata, extension: string, suffix?: string) => {
+  const slug = [slugify(meta.datasetName.replace(/\.[^.]+$/, '')), suffix && slugify(suffix)].filter(Boolean).join('-') || 'report';
+  const stamp = new Date(meta.generatedAt).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `${slug}-${stamp}.${extension}`;
+};
+
+const formatCell = (value: any) => value === null || value === undefined ? '—' : typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(value);
+
+const inlineHtml = (nodes: MarkdownInline[]) => nodes.map(n => {
+  switch (n.kind) {
+    case 'bold': return `<strong>${escapeXml(n.text)}</strong>`;
+    case 'italic': return `<em>${escapeXml(n.text)}</em>`;
+    case 'code': return `<code>${escapeXml(n.text)}</code>`;
+    case 'link': return `<a href="${escapeXml(n.href)}">${escapeXml(n.text)}</a>`;
+    default: return escapeXml(n.text);
+  }
+}).join('');
+
+const blockHtml = (block: MarkdownBlock) => {
+  if (block.kind === 'heading') return `<h${block.level + 2}>${inlineHtml(block.content)}</h${block.level + 2}>`;
+  if (block.kind === 'list') {
+    const tag = block.ordered ? 'ol' : 'ul';
+    return `<${tag}>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>`;
+  }
+  return `<p>${inlineHtml(block.content)}</p>`;
+};
+
+const tableHtml = (table: TableSnapshot) => {
+  const rows = table.rows.slice(0, HTML_TABLE_ROWS);
+  const cell = (row: Record<string, any>, col: string) => `<td class="${typeof row[col] === 'number' ? 'num' : ''}">${escapeXml(formatCell(row[col]))}</td>`;
+  return `<table><thead><tr>${table.columns.map(c => `<th>${escapeXml(c)}</th>`).join('')}</tr></thead><tbody>` +
+    rows.map(r => `<tr>${table.columns.map(c => cell(r, c)).join('')}</tr>`).join('') +
+    (table.totalRow ? `<tr class="total">${table.columns.map(c => cell(table.totalRow!, c)).join('')}</tr>` : '') +
+    `</tbody></table>${table.rows.length > rows.length ? `<p class="note">First ${rows.length} of ${table.rows.length} rows</p>` : ''}`;
+};
+
+// Tiles can come from an imported bundle, so their size and trend are coerced before reaching the markup.
+const tileSize = (tile: DashboardTile) => clampTileSize(Number(tile.w) || 1, Number(tileRows(tile)) || 1);
+
+const tileBodyHtml = (tile: DashboardTile) => {
+  if (tile.type === 'text') return `<div class="text">${parseMarkdown(tile.text || '').map(blockHtml).join('')}</div>`;
+  if (tile.type === 'kpi' && tile.kpi) {
+    const change = Number(tile.kpi.trend);
+    const trend = change && isFinite(change) ? `<span class="trend ${change > 0 ? 'up' : 'down'}">${change > 0 ? '+' : ''}${change}%</span>` : '';
+    return `<p class="label">${escapeXml(tile.kpi.label)}</p><p class="kpi">${escapeXml(tile.kpi.value)}${trend}</p>${tile.kpi.description ? `<p class="note">${escapeXml(tile.kpi.description)}</p>` : ''}`;
+  }
+  if (tile.type === 'table' && tile.table) return `<h3>${escapeXml(tile.table.title)}</h3>${tableHtml(tile.table)}`;
+  if (tile.config) {
+    const { w, h } = tileSize(tile);
+    const width = 300 * w;
+    const height = Math.max(240, h * ROW_PX + (h - 1) * GAP_PX - 64);
+    return `<div class="chart">${renderChartSvg(tile.config, { width, height })}</div>`;
+  }
+  return '';
+};
+
+const tileHtml = (tile: DashboardTile) => {
+  const filters = tileFilterSummary(tile);
+  const stale = tile.staleReason ? `<p class="stale">Stale: ${escapeXml(tile.staleReason)}</p>` : '';
+  const { w, h } = tileSize(tile);
+  return `<section class="tile" style="grid-column: span ${w}; grid-row: span ${h}">${tileBodyHtml(tile)}${stale}${filters.length ? `<p class="note">Filters: ${escapeXml(filters.join('; '))}</p>` : ''}</section>`;
+};
+
+const REPORT_CSS = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 48px; font-family: Inter, system-ui, sans-serif; color: #0f172a; background: #f8fafc; }
+  header { border-bottom: 1px solid #e2e8f0; padding-bottom: 24px; margin-bottom: 32px; }
+  h1 { font-size: 32px; font-weight: 900; letter-spacing: -0.03em; margin: 0 0 8px; }
+  h2 { font-size: 20px; font-weight: 900; margin: 0 0 16px; }
+  h3 { font-size: 16px; font-weight: 800; margin: 0 0 12px; }
+  h4, h5 { margin: 0 0 8px; }
+  .meta { font-size: 12px; color: #64748b; margin: 2px 0; }
+  .meta b { color: #334155; }
+  .page { margin-bottom: 48px; }
+  .grid { display: grid; grid-template-columns: repeat(4, 1fr); grid-auto-rows: ${ROW_PX}px; grid-auto-flow: row dense; gap: ${GAP_PX}px; }
+  .tile { background: #fff; border: 1px solid #e2e8f0; border-radius: 24px; padding: 24px; overflow: hidden; }
+  .chart svg { width: 100%; height: auto; }
+  .label { font-size: 10px; font-weight: 900; letter-spacing: 0.1em; text-transform: uppercase; color: #94a3b8; margin: 0 0 8px; }
+  .kpi { font-size: 36px; font-weight: 900; margin: 0; }
+  .trend { font-size: 12px; font-weight: 700; margin-left: 12px; padding: 2px 8px; border-radius: 8px; }
+  .trend.up { background: #ecfdf5; color: #059669; } .trend.down { background: #fff1f2; color: #e11d48; }
+  .note { font-size: 11px; color: #94a3b8; margin: 8px 0 0; }
+  .stale { font-size: 11px; font-weight: 700; color: #d97706; margin: 8px 0 0; }
+  .text { font-size: 14px; line-height: 1.6; color: #475569; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; font-size: 9px; letter-spacing: 0.1em; text-transform: uppercase; color: #94a3b8; border-bottom: 1px solid #e2e8f0; padding: 8px; }
+  td { padding: 6px 8px; border-bottom: 1px solid #f1f5f9; } td.num { text-align: right; } tr.total td { font-weight: 900; border-top: 2px solid #e2e8f0; }
+  @page { size: A4 landscape; margin: 12mm; }
+  @media print {
+    body { padding: 0; background: #fff; }
+    .page { break-after: page; margin: 0; }
+    .page:last-child { break-after: auto; }
+    .grid { grid-auto-rows: auto; }
+    .tile { break-inside: avoid; grid-row: auto !important; border-radius: 12px; }
+  }
+`;
+
+/** A self-contained HTML document of the dashboard pages; charts are inline SVG, so it needs no network access. */
+export const buildReportHtml = (pages: ReportPage[], meta: ReportMetadata): string => {
+  const header = `<header><h1>${escapeXml(meta.title)}</h1>` +
+    `<p class="meta"><b>Dataset:</b> ${escapeXml(meta.datasetName)}</p>` +
+    `<p class="meta"><b>Filters:</b> ${meta.filters.length ? escapeXml(meta.filters.join('; ')) : 'None'}</p>` +
+    `<p class="meta"><b>Generated:</b> ${escapeXml(formatTimestamp(meta.generatedAt))}</p></header>`;
+  const body = pages.map(p => `<div class="page">${pages.length > 1 ? `<h2>${escapeXml(p.name)}</h2>` : ''}<div class="grid">${p.tiles.map(tileHtml).join('')}</div></div>`).join('');
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${escapeXml(meta.title)} · ${escapeXml(meta.datasetName)}</title><style>${REPORT_CSS}</style></head><body>${header}${body}</body></html>`;
+};
+
+const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  text.split(/\s+/).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (last + ' ' + word).length <= maxChars) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  });
+  return lines;
+};
+
+const markdownPlainLines = (text: string) => parseMarkdown(text).flatMap(block => {
+  const plain = (nodes: MarkdownInline[]) => nodes.map(n => n.text).join('');
+  if (block.kind === 'list') return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '•'} ${plain(item)}`);
+  return [plain(block.content)];
+});
+
+/** One 16:9 slide per tile, with the report metadata in the footer. */
+export const renderSlideSvg = (tile: DashboardTile, meta: ReportMetadata, index: number, total: number): string => {
+  const W = SLIDE_WIDTH, H = SLIDE_HEIGHT, M = 80;
+  const bodyTop = 180, bodyHeight = H - bodyTop - 120;
+  const title = tile.type === 'text' ? 'Commentary' : tileTitle(tile);
+  let body = '';
+
+  if (tile.type === 'kpi' && tile.kpi) {
+    body = `<text x="${W / 2}" y="${bodyTop + bodyHeight / 2}" text-anchor="middle" font-size="160" font-weight="900" fill="#0f172a">${escapeXml(tile.kpi.value)}</text>` +
+      (tile.kpi.trend ? `<text x="${W / 2}" y="${bodyTop + bodyHeight / 2 + 90}" text-anchor="middle" font-size="40" font-weight="700" fill="${tile.kpi.trend > 0 ? '#059669' : '#e11d48'}">${tile.kpi.trend > 0 ? '+' : ''}${tile.kpi.trend}%</text>` : '') +
+      (tile.kpi.description ? `<text x="${W / 2}" y="${bodyTop + bodyHeight - 10}" text-anchor="middle" font-size="24" fill="#64748b">${escapeXml(tile.kpi.description)}</text>` : '');
+  } else if (tile.type === 'table' && tile.table) {
+    const cols = tile.table.columns.slice(0, SLIDE_TABLE_COLUMNS);
+    const colWidth = (W - 2 * M) / Math.max(1, cols.length);
+    const rows = tile.table.rows.slice(0, SLIDE_TABLE_ROWS);
+    const rowHeight = bodyHeight / (SLIDE_TABLE_ROWS + 2);
+    body = cols.map((c, j) => `<text x="${M + j * colWidth}" y="${bodyTop}" font-size="18" font-weight="900" fill="#94a3b8">${escapeXml(c.slice(0, 24))}</text>`).join('') +
+      rows.map((r, i) => cols.map((c, j) => `<text x="${M + j * colWidth}" y="${bodyTop + (i + 1.3) * rowHeight}" font-size="20" fill="#334155">${escapeXml(formatCell(r[c]).slice(0, 28))}</text>`).join('')).join('') +
+      (tile.table.rows.length > rows.length ? `<text x="${M}" y="${bodyTop + bodyHeight}" font-size="18" fill="#94a3b8">First ${rows.length} of ${tile.table.rows.length} rows</text>` : '');
+  } else if (tile.type === 'text') {
+    body = markdownPlainLines(tile.text || '').flatMap(line => wrapText(line, 70)).slice(0, 14)
+      .map((line, i) => `<text x="${M}" y="${bodyTop + 20 + i * 44}" font-size="30" fill="#334155">${escapeXml(line)}</text>`).join('');
+  } else if (tile.config) {
+    const chart = renderChartSvg(tile.config, { width: W - 2 * M, height: bodyHeight + 40, showTitle: false });
+    body = `<g transform="translate(${M} ${bodyTop - 40})">${chart.replace(/^<svg /, '<svg x="0" y="0" ')}</g>`;
+  }
+
+  const filters = [...meta.filters, ...tileFilterSummary(tile)];
+  const footer = [meta.datasetName, filters.length ? `Filters: ${filters.join('; ')}` : 'No filters', `Generated ${formatTimestamp(meta.generatedAt)}`].join('  ·  ');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" font-family="Inter, system-ui, sans-serif">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/><rect width="${W}" height="12" fill="#4f46e5"/>` +
+    `<text x="${M}" y="90" font-size="20" font-weight="900" letter-spacing="3" fill="#94a3b8">${escapeXml(meta.title.toUpperCase())}</text>` +
+    `<text x="${M}" y="140" font-size="44" font-weight="900" fill="#0f172a">${escapeXml(title.slice(0, 60))}</text>` +
+    body +
+    `<line x1="${M}" x2="${W - M}" y1="${H - 70}" y2="${H - 70}" stroke="#e2e8f0"/>` +
+    `<text x="${M}" y="${H - 36}" font-size="18" fill="#64748b">${escapeXml(footer.length > 150 ? `${footer.slice(0, 149)}…` : footer)}</text>` +
+    `<text x="${W - M}" y="${H - 36}" text-anchor="end" font-size="18" font-weight="700" fill="#94a3b8">${index + 1} / ${total}</text></svg>`;
+};
+
+export const CHART_EXPORT_WIDTH = 960;
+export const CHART_EXPORT_HEIGHT = 600;
+
+/** A single chart with a caption naming its dataset, filters and when it was generated. */
+export const renderChartExportSvg = (config: ChartConfig, meta: ReportMetadata, tileFilters: string[] = []): string => {
+  const W = CHART_EXPORT_WIDTH, H = CHART_EXPORT_HEIGHT, footerHeight = 56;
+  const chart = renderChartSvg(config, { width: W, height: H - footerHeight });
+  const filters = [...meta.filters, ...tileFilters];
+  const caption = [meta.datasetName, filters.length ? `Filters: ${filters.join('; ')}` : 'No filters', `Generated ${formatTimestamp(meta.generatedAt)}`].join('  ·  ');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" font-family="Inter, system-ui, sans-serif">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>${chart.replace(/^<svg /, '<svg x="0" y="0" ')}` +
+    `<line x1="24" x2="${W - 24}" y1="${H - footerHeight}" y2="${H - footerHeight}" stroke="#e2e8f0"/>` +
+    `<text x="24" y="${H - 22}" font-size="12" fill="#64748b">${escapeXml(caption.length > 140 ? `${caption.slice(0, 139)}…` : caption)}</text></svg>`;
+};
+
+export const reportPages = (pages: DashboardPage[], tilesOnPage: (pageId: string) => DashboardTile[]): ReportPage[] =>
+  pages.map(p => ({ name: p.name, tiles: tilesOnPage(p.id) })).filter(p => p.tiles.length > 0);
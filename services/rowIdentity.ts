@@ -0,0 +1,29 @@
+/**
+ * Every row carries a stable internal id from import onward, so edits,
+ * selections and drill-downs address records rather than grid positions.
+ */
+export const ROW_ID = '__rowId';
+
+/** Ids are unique within a dataset: a per-batch prefix plus the row's position in that batch. */
+export const assignRowIds = (rows: any[]): any[] => {
+  if (rows.every(r => r && r[ROW_ID] !== undefined)) return rows;
+  const batch = Math.random().toString(36).substr(2, 5);
+  return rows.map((r, i) => r && r[ROW_ID] !== undefined ? r : { ...r, [ROW_ID]: `${batch}-${i.toString(36)}` });
+};
+
+/** Like `assignRowIds`, but gives every row a fresh id when some already share one, as rows read from a file may. */
+export const ensureUniqueRowIds = (rows: any[]): any[] => {
+  const ids = rows.map(r => r[ROW_ID]).filter(id => id !== undefined);
+  if (new Set(ids).size === ids.length) return assignRowIds(rows);
+  return assignRowIds(rows.map(stripRowId));
+};
+
+export const getRowId = (row: any): string => row[ROW_ID];
+
+/** The row's own fields, for hashing, exporting or sending to a model. */
+export const stripRowId = (row: any) => {
+  const { [ROW_ID]: _, ...values } = row;
+  return values;
+};
+
+export const rowValues = (row: any): any[] => Object.keys(row).filter(k => k !== ROW_ID).map(k => row[k]);
@@ -0,0 +1,66 @@
+import { AnalysisSession } from '../types';
+
+const TITLE_LENGTH = 48;
+const SNIPPET_RADIUS = 40;
+
+export interface SessionSearchResult {
+  sessionId: string;
+  messageId?: string; // absent when only the session's name matched
+  snippet: string;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+/** The session's name, or its first question when it has not been named. */
+export const sessionTitle = (session: AnalysisSession): string => {
+  if (session.name) return session.name;
+  const question = session.messages.find(m => m.role === 'user');
+  return question ? truncate(question.content.replace(/\s+/g, ' ').trim(), TITLE_LENGTH) : 'New analysis';
+};
+
+export const createSession = (datasetId: string, datasetName: string, name?: string): AnalysisSession => ({
+  id: newId(),
+  datasetId,
+  name,
+  dashboardTiles: [],
+  messages: [{ id: 'w', role: 'assistant', content: `Executive summary of **${datasetName}** prepared. Ready for query.`, timestamp: Date.now() }],
+  lastUpdated: Date.now()
+});
+
+/**
+ * A new session holding the conversation up to and including `messageId`.
+ * The dashboard is copied too, so the branch starts from the same state.
+ */
+export const forkSession = (session: AnalysisSession, messageId: string): AnalysisSession => {
+  const index = session.messages.findIndex(m => m.id === messageId);
+  return {
+    ...session,
+    id: newId(),
+    name: `${sessionTitle(session)} (branch)`,
+    forkedFrom: { sessionId: session.id, messageId },
+    messages: session.messages.slice(0, index === -1 ? undefined : index + 1),
+    lastUpdated: Date.now()
+  };
+};
+
+const snippetAround = (text: string, index: number, length: number) => {
+  const flat = text.replace(/\s+/g, ' ');
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+};
+
+/** Case-insensitive search over session names and every message, newest sessions first. */
+export const searchSessions = (sessions: AnalysisSession[], query: string): SessionSearchResult[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  return [...sessions].sort((a, b) => b.lastUpdated - a.lastUpdated).flatMap(s => {
+    const hits: SessionSearchResult[] = s.messages.flatMap(m => {
+      const index = m.content.replace(/\s+/g, ' ').toLowerCase().indexOf(q);
+      return index === -1 ? [] : [{ sessionId: s.id, messageId: m.id, snippet: snippetAround(m.content, index, q.length) }];
+    });
+    return hits.length === 0 && sessionTitle(s).toLowerCase().includes(q) ? [{ sessionId: s.id, snippet: sessionTitle(s) }] : hits;
+  });
+};
@@ -0,0 +1,448 @@
+import { ChartConfig, KPIMetric, StatisticSpec, StatisticTest } from '../types';
+import { extent, isNullish, quantile, toNumber } from './profiler';
+
+export const STATISTIC_LABELS: Record<StatisticTest, string> = {
+  correlation: 'Correlation Matrix',
+  regression: 'Linear Regression',
+  ttest: 't-Test',
+  chi_square: 'Chi-Square Test',
+  anova: 'ANOVA'
+};
+
+const SIGNIFICANCE = 0.05;
+const MAX_SCATTER_POINTS = 500;
+const MAX_CATEGORIES = 20;
+const MAX_GROUPS = 50;
+const MAX_CORRELATION_COLUMNS = 20;
+
+/** A test's headline numbers, chart and result table, plus plain text for a model's context. */
+export interface StatisticResult {
+  metrics: KPIMetric[];
+  chart?: ChartConfig;
+  table: { columns: string[]; rows: Record<string, any>[] };
+  summary: string;
+  n: number; // rows that had every value the test needs
+}
+
+// --- Distributions ---
+
+const LANCZOS = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+const TINY = 1e-300;
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 500;
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/** Continued fraction for the incomplete beta function, by Lentz's method. */
+const betaFraction = (a: number, b: number, x: number): number => {
+  const clamp = (v: number) => Math.abs(v) < TINY ? TINY : v;
+  let c = 1;
+  let d = 1 / clamp(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / clamp(1 + even * d);
+    c = clamp(1 + even / c);
+    h *= d * c;
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / clamp(1 + odd * d);
+    c = clamp(1 + odd / c);
+    const step = d * c;
+    h *= step;
+    if (Math.abs(step - 1) < EPSILON) break;
+  }
+  return h;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? (front * betaFraction(a, b, x)) / a : 1 - (front * betaFraction(b, a, 1 - x)) / b;
+};
+
+/** Regularized upper incomplete gamma function Q(a, x). */
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a, sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - front * sum;
+  }
+  let b = x + 1 - a, c = 1 / TINY, d = 1 / b, h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    if (Math.abs(d * c - 1) < EPSILON) break;
+  }
+  return front * h;
+};
+
+/** Two-sided p-value of Student's t with `df` degrees of freedom. */
+export const tPValue = (t: number, df: number) => isFinite(t) ? incompleteBeta(df / (df + t * t), df / 2, 0.5) : 0;
+
+/** Upper-tail p-value of the F distribution. */
+export const fPValue = (f: number, df1: number, df2: number) => isFinite(f) ? incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2) : 0;
+
+/** Upper-tail p-value of the chi-square distribution. */
+export const chiSquarePValue = (x: number, df: number) => upperGamma(df / 2, x / 2);
+
+// --- Formatting ---
+
+export const formatPValue = (p: number) => p < 0.001 ? '< 0.001' : p.toFixed(3);
+
+const formatNumber = (n: number) => n !== 0 && Math.abs(n) < 0.01 ? n.toPrecision(2) : n.toLocaleString(undefined, { maximumFractionDigits: 3 });
+
+const significance = (p: number) => `${p < SIGNIFICANCE ? 'Significant' : 'Not significant'} at the ${SIGNIFICANCE * 100}% level`;
+
+const round = (n: number, digits = 4) => Number.isFinite(n) ? Number(n.toFixed(digits)) : n;
+
+// --- Shared helpers ---
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1);
+};
+
+/** Rows where every one of `columns` holds a number, as arrays of those numbers. */
+const numericTuples = (rows: any[], columns: string[]): number[][] => rows.flatMap(row => {
+  const values = columns.map(c => toNumber(row[c]));
+  return values.every(v => v !== null) ? [values as number[]] : [];
+});
+
+/** Numeric values of `target` split by the text of `groupColumn`, in first-seen order. */
+const groupedValues = (rows: any[], groupColumn: string, target: string): Map<string, number[]> => {
+  const groups = new Map<string, number[]>();
+  rows.forEach(row => {
+    const value = toNumber(row[target]);
+    if (value === null || isNullish(row[groupColumn])) return;
+    const key = String(row[groupColumn]);
+    const values = groups.get(key);
+    if (values) values.push(value);
+    else groups.set(key, [value]);
+  });
+  return groups;
+};
+
+/** Five-number summary with Tukey whiskers: the most extreme values within 1.5 × IQR of the box. */
+export const boxplotSummary = (sorted: number[]) => {
+  const q1 = quantile(sorted, 0.25), q3 = quantile(sorted, 0.75), median = quantile(sorted, 0.5);
+  const low = q1 - 1.5 * (q3 - q1), high = q3 + 1.5 * (q3 - q1);
+  const inside = sorted.filter(v => v >= low && v <= high);
+  return { y: median, min: inside[0], max: inside[inside.length - 1], q1, q3, median, outliers: sorted.filter(v => v < low || v > high) };
+};
+
+const groupBoxplot = (groups: [string, number[]][], groupColumn: string, target: string, title: string): ChartConfig => ({
+  type: 'boxplot',
+  title,
+  data: groups.map(([label, values]) => ({ x: label, ...boxplotSummary([...values].sort((a, b) => a - b)), originalRow: { [groupColumn]: label } })),
+  xAxisLabel: groupColumn,
+  yAxisLabel: target
+});
+
+const groupTable = (groups: [string, number[]][]) => ({
+  columns: ['group', 'n', 'mean', 'std_dev'],
+  rows: groups.map(([group, values]) => ({ group, n: values.length, mean: round(mean(values)), std_dev: values.length > 1 ? round(Math.sqrt(sampleVariance(values))) : null }))
+});
+
+const requireColumns = (spec: StatisticSpec, ...fields: (keyof StatisticSpec)[]) => {
+  const missing = fields.filter(f => spec[f] === undefined || (Array.isArray(spec[f]) && (spec[f] as string[]).length === 0));
+  if (missing.length) throw new Error(`${STATISTIC_LABELS[spec.test]} needs ${missing.join(' and ')}.`);
+};
+
+// --- Tests ---
+
+const pearson = (pairs: number[][]): number | null => {
+  const xs = pairs.map(p => p[0]), ys = pairs.map(p => p[1]);
+  const mx = mean(xs), my = mean(ys);
+  let sxy = 0, sxx = 0, syy = 0;
+  pairs.forEach(([x, y]) => {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy))) : null;
+};
+
+const correlationP = (r: number, n: number) => Math.abs(r) >= 1 ? 0 : tPValue(r * Math.sqrt((n - 2) / (1 - r * r)), n - 2);
+
+/** Pearson correlation of every pair of columns, each pair over the rows where both are numbers. */
+const correlationMatrix = (rows: any[], spec: StatisticSpec): StatisticResult => {
+  requireColumns(spec, 'columns');
+  const columns = spec.columns!.slice(0, MAX_CORRELATION_COLUMNS);
+  if (columns.length < 2) throw new Error('A correlation matrix needs at least two numeric columns.');
+
+  const pairs: { column_a: string; column_b: string; r: number; p_value: number; n: number }[] = [];
+  const cells: ChartConfig['data'] = [];
+  columns.forEach((a, i) => columns.forEach((b, j) => {
+    if (j < i) return;
+    const tuples = i === j ? [] : numericTuples(rows, [a, b]);
+    const r = i === j ? 1 : tuples.length > 2 ? pearson(tuples) : null;
+    if (r === null) return;
+    cells.push({ x: b, yCategory: a, y: round(r, 3) });
+    if (i !== j) {
+      cells.push({ x: a, yCategory: b, y: round(r, 3) });
+      pairs.push({ column_a: a, column_b: b, r: round(r), p_value: round(correlationP(r, tuples.length), 6), n: tuples.length });
+    }
+  }));
+  if (pairs.length === 0) throw new Error('None of these columns have enough numbers in common to correlate.');
+  pairs.sort((x, y) => Math.abs(y.r) - Math.abs(x.r));
+
+  const strongest = pairs[0];
+  const significant = pairs.filter(p => p.p_value < SIGNIFICANCE).length;
+  return {
+    metrics: [
+      { label: 'Strongest Correlation', value: strongest.r.toFixed(2), description: `${strongest.column_a} ↔ ${strongest.column_b} · p ${formatPValue(strongest.p_value)}` },
+      { label: 'Significant Pairs', value: `${significant} of ${pairs.length}`, description: `p < ${SIGNIFICANCE}` }
+    ],
+    chart: { type: 'heatmap', title: 'Correlation matrix', data: cells, xAxisLabel: '', yAxisLabel: 'Pearson r' },
+    table: { columns: ['column_a', 'column_b', 'r', 'p_value', 'n'], rows: pairs },
+    summary: `Pearson correlations between ${columns.join(', ')}, strongest first: ${pairs.slice(0, 10).map(p => `${p.column_a} ↔ ${p.column_b} r = ${p.r.toFixed(2)} (p ${formatPValue(p.p_value)}, n = ${p.n})`).join('; ')}.`,
+    n: extent(pairs.map(p => p.n)).max
+  };
+};
+
+/** Inverts a square matrix by Gauss-Jordan elimination with partial pivoting; null when singular. */
+const invert = (matrix: number[][]): number[][] | null => {
+  const size = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => i === j ? 1 : 0)]);
+  const scale = Math.max(extent(matrix.flat().map(Math.abs)).max, 1);
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < scale * 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const divisor = a[col][col];
+    a[col] = a[col].map(v => v / divisor);
+    for (let r = 0; r < size; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const factor = a[r][col];
+      a[r] = a[r].map((v, k) => v - factor * a[col][k]);
+    }
+  }
+  return a.map(row => row.slice(size));
+};
+
+/** Ordinary least squares of the target on one or more numeric predictors, with an intercept. */
+const linearRegression = (rows: any[], spec: StatisticSpec): StatisticResult => {
+  requireColumns(spec, 'target', 'predictors');
+  const target = spec.target!;
+  const predictors = spec.predictors!.filter(p => p !== target);
+  if (predictors.length === 0) throw new Error('Linear Regression needs at least one predictor other than the target.');
+  const tuples = numericTuples(rows, [target, ...predictors]);
+  const n = tuples.length, k = predictors.length, p = k + 1;
+  if (n <= p) throw new Error(`Only ${n} rows have numbers in ${[target, ...predictors].join(', ')}; the regression needs more than ${p}.`);
+
+  const ys = tuples.map(t => t[0]);
+  const xs = tuples.map(t => [1, ...t.slice(1)]);
+  const xtx = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => xs.reduce((acc, x) => acc + x[i] * x[j], 0)));
+  const inverse = invert(xtx);
+  if (!inverse) throw new Error(`The predictors ${predictors.join(', ')} are constant or perfectly collinear, so their effects cannot be separated.`);
+  const xty = Array.from({ length: p }, (_, i) => xs.reduce((acc, x, r) => acc + x[i] * ys[r], 0));
+  const beta = inverse.map(row => row.reduce((acc, v, j) => acc + v * xty[j], 0));
+
+  const meanY = mean(ys);
+  const sse = xs.reduce((acc, x, r) => acc + (ys[r] - x.reduce((s, v, j) => s + v * beta[j], 0)) ** 2, 0);
+  const sst = ys.reduce((acc, y) => acc + (y - meanY) ** 2, 0);
+  if (sst === 0) throw new Error(`${target} has the same value in every row, so there is nothing to explain.`);
+  const dfResidual = n - p;
+  const rSquared = 1 - sse / sst;
+  const adjusted = 1 - ((1 - rSquared) * (n - 1)) / dfResidual;
+  const residualVariance = sse / dfResidual;
+  const f = ((sst - sse) / k) / residualVariance;
+  const modelP = fPValue(f, k, dfResidual);
+  const terms = ['(Intercept)', ...predictors].map((term, j) => {
+    const stdError = Math.sqrt(residualVariance * inverse[j][j]);
+    const t = beta[j] / stdError;
+    return { term, estimate: round(beta[j], 6), std_error: round(stdError, 6), t_value: round(t), p_value: round(tPValue(t, dfResidual), 6) };
+  });
+
+  const sd = (values: number[]) => Math.sqrt(sampleVariance(values));
+  const chart: ChartConfig = k === 1
+    ? {
+        type: 'scatter',
+        title: `${target} vs ${predictors[0]}`,
+        data: tuples.filter((_, i) => i % Math.ceil(n / MAX_SCATTER_POINTS) === 0).map(t => ({ x: t[1], y: t[0] })),
+        xAxisLabel: predictors[0],
+        yAxisLabel: target,
+        fit: { slope: beta[1], intercept: beta[0] }
+      }
+    : {
+        type: 'bar',
+        title: `Standardized effects on ${target}`,
+        // Coefficients rescaled to standard deviations of the target per standard deviation of each predictor, so they compare.
+        data: predictors.map((term, j) => ({ x: term, y: round((beta[j + 1] * sd(tuples.map(t => t[j + 1]))) / sd(ys), 3) })),
+        xAxisLabel: 'Predictor',
+        yAxisLabel: 'Standardized coefficient'
+      };
+
+  return {
+    metrics: [
+      { label: 'R²', value: rSquared.toFixed(3), description: `Adjusted ${adjusted.toFixed(3)} · ${n.toLocaleString()} rows` },
+      { label: 'Model p-value', value: formatPValue(modelP), description: significance(modelP) },
+      ...terms.slice(1, 4).map(t => ({ label: `${t.term} Coefficient`, value: formatNumber(t.estimate), description: `${target} per unit of ${t.term} · p ${formatPValue(t.p_value)}` }))
+    ],
+    chart,
+    table: { columns: ['term', 'estimate', 'std_error', 't_value', 'p_value'], rows: terms },
+    summary: `Linear regression of ${target} on ${predictors.join(', ')} over ${n} rows: R² = ${rSquared.toFixed(3)} (adjusted ${adjusted.toFixed(3)}), F(${k}, ${dfResidual}) = ${formatNumber(f)}, p ${formatPValue(modelP)}. Coefficients: ${terms.map(t => `${t.term} = ${formatNumber(t.estimate)} (SE ${formatNumber(t.std_error)}, p ${formatPValue(t.p_value)})`).join('; ')}.`,
+    n
+  };
+};
+
+/** Welch's two-sample t-test, which does not assume the groups share a variance. */
+const tTest = (rows: any[], spec: StatisticSpec): StatisticResult => {
+  requireColumns(spec, 'target', 'groupColumn');
+  const target = spec.target!, groupColumn = spec.groupColumn!;
+  const all = groupedValues(rows, groupColumn, target);
+  const names = spec.groups?.length === 2 ? spec.groups : [...all.entries()].sort((a, b) => b[1].length - a[1].length).slice(0, 2).map(([g]) => g);
+  const groups = names.map(g => [g, all.get(g) || []] as [string, number[]]);
+  const small = groups.find(([, values]) => values.length < 2);
+  if (groups.length < 2) throw new Error(`${groupColumn} needs at least two groups with ${target} values to compare.`);
+  if (small) throw new Error(`Group "${small[0]}" has fewer than two ${target} values.`);
+
+  const [[nameA, a], [nameB, b]] = groups;
+  const va = sampleVariance(a) / a.length, vb = sampleVariance(b) / b.length;
+  if (va + vb === 0) throw new Error(`${target} does not vary within either group, so the t-test is undefined.`);
+  const difference = mean(a) - mean(b);
+  const t = difference / Math.sqrt(va + vb);
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  const p = tPValue(t, df);
+
+  return {
+    metrics: [
+      { label: 'Mean Difference', value: formatNumber(difference), description: `${nameA} minus ${nameB}` },
+      { label: 't Statistic', value: t.toFixed(2), description: `Welch, ${df.toFixed(1)} df` },
+      { label: 'p-value', value: formatPValue(p), description: significance(p) }
+    ],
+    chart: groupBoxplot(groups, groupColumn, target, `${target}: ${nameA} vs ${nameB}`),
+    table: groupTable(groups),
+    summary: `Welch's t-test of ${target} between ${groupColumn} = ${nameA} (n = ${a.length}, mean ${formatNumber(mean(a))}) and ${nameB} (n = ${b.length}, mean ${formatNumber(mean(b))}): t = ${t.toFixed(2)}, df = ${df.toFixed(1)}, p ${formatPValue(p)}. ${significance(p)}.`,
+    n: a.length + b.length
+  };
+};
+
+/** One-way analysis of variance of the target across every group. */
+const anova = (rows: any[], spec: StatisticSpec): StatisticResult => {
+  requireColumns(spec, 'target', 'groupColumn');
+  const target = spec.target!, groupColumn = spec.groupColumn!;
+  const groups = [...groupedValues(rows, groupColumn, target).entries()];
+  if (groups.length < 2) throw new Error(`${groupColumn} needs at least two groups with ${target} values to compare.`);
+  if (groups.length > MAX_GROUPS) throw new Error(`${groupColumn} has ${groups.length} groups; ANOVA compares at most ${MAX_GROUPS}.`);
+
+  const values = groups.flatMap(([, v]) => v);
+  const n = values.length;
+  if (n <= groups.length) throw new Error(`Each group needs more than one ${target} value.`);
+  const grand = mean(values);
+  const between = groups.reduce((acc, [, v]) => acc + v.length * (mean(v) - grand) ** 2, 0);
+  const within = groups.reduce((acc, [, v]) => { const m = mean(v); return acc + v.reduce((s, x) => s + (x - m) ** 2, 0); }, 0);
+  if (between + within === 0) throw new Error(`${target} has the same value in every row.`);
+  const dfBetween = groups.length - 1, dfWithin = n - groups.length;
+  const f = (between / dfBetween) / (within / dfWithin);
+  const p = fPValue(f, dfBetween, dfWithin);
+  const etaSquared = between / (between + within);
+
+  return {
+    metrics: [
+      { label: 'F Statistic', value: isFinite(f) ? f.toFixed(2) : '∞', description: `${dfBetween} and ${dfWithin} df` },
+      { label: 'p-value', value: formatPValue(p), description: significance(p) },
+      { label: 'η²', value: etaSquared.toFixed(3), description: `Share of ${target} variance explained by ${groupColumn}` }
+    ],
+    chart: groupBoxplot(groups, groupColumn, target, `${target} by ${groupColumn}`),
+    table: groupTable(groups),
+    summary: `One-way ANOVA of ${target} across ${groups.length} ${groupColumn} groups (${n} rows): F(${dfBetween}, ${dfWithin}) = ${isFinite(f) ? f.toFixed(2) : '∞'}, p ${formatPValue(p)}, η² = ${etaSquared.toFixed(3)}. ${significance(p)}. Group means: ${groups.slice(0, 15).map(([g, v]) => `${g} ${formatNumber(mean(v))}`).join(', ')}.`,
+    n
+  };
+};
+
+/** Pearson's chi-square test of independence between two categorical columns. */
+const chiSquare = (rows: any[], spec: StatisticSpec): StatisticResult => {
+  requireColumns(spec, 'columns');
+  const [a, b] = spec.columns!;
+  if (!a || !b) throw new Error('The Chi-Square Test needs two categorical columns.');
+  const counts = new Map<string, Map<string, number>>();
+  const columnTotals = new Map<string, number>();
+  let n = 0;
+  rows.forEach(row => {
+    if (isNullish(row[a]) || isNullish(row[b])) return;
+    const ka = String(row[a]), kb = String(row[b]);
+    const cells = counts.get(ka) ?? new Map<string, number>();
+    cells.set(kb, (cells.get(kb) || 0) + 1);
+    counts.set(ka, cells);
+    columnTotals.set(kb, (columnTotals.get(kb) || 0) + 1);
+    n++;
+  });
+  const rowKeys = [...counts.keys()], columnKeys = [...columnTotals.keys()];
+  const wide = [[a, rowKeys.length], [b, columnKeys.length]].find(([, size]) => (size as number) > MAX_CATEGORIES);
+  if (wide) throw new Error(`${wide[0]} has ${wide[1]} distinct values; the Chi-Square Test compares at most ${MAX_CATEGORIES}.`);
+  if (rowKeys.length < 2 || columnKeys.length < 2) throw new Error(`${rowKeys.length < 2 ? a : b} needs at least two distinct values.`);
+
+  let statistic = 0, sparse = 0;
+  const table: Record<string, any>[] = [];
+  const cells: ChartConfig['data'] = [];
+  rowKeys.forEach(ka => {
+    const rowTotal = [...counts.get(ka)!.values()].reduce((x, y) => x + y, 0);
+    columnKeys.forEach(kb => {
+      const observed = counts.get(ka)!.get(kb) || 0;
+      const expected = (rowTotal * columnTotals.get(kb)!) / n;
+      if (expected < 5) sparse++;
+      statistic += (observed - expected) ** 2 / expected;
+      table.push({ [a]: ka, [b]: kb, observed, expected: round(expected, 2) });
+      cells.push({ x: kb, yCategory: ka, y: round((observed - expected) / Math.sqrt(expected), 2) });
+    });
+  });
+  const df = (rowKeys.length - 1) * (columnKeys.length - 1);
+  const p = chiSquarePValue(statistic, df);
+  const cramersV = Math.sqrt(statistic / (n * (Math.min(rowKeys.length, columnKeys.length) - 1)));
+  const caveat = sparse > 0 ? ` ${sparse} of ${table.length} expected counts are below 5, so the p-value is approximate.` : '';
+
+  return {
+    metrics: [
+      { label: 'χ²', value: formatNumber(statistic), description: `${df} df · ${n.toLocaleString()} rows` },
+      { label: 'p-value', value: formatPValue(p), description: significance(p) },
+      { label: "Cramér's V", value: cramersV.toFixed(3), description: 'Strength of association, 0 to 1' }
+    ],
+    chart: { type: 'heatmap', title: `${a} × ${b}: observed vs expected`, data: cells, xAxisLabel: b, yAxisLabel: 'Standardized residual' },
+    table: { columns: [a, b, 'observed', 'expected'], rows: table },
+    summary: `Chi-square test of independence between ${a} and ${b} over ${n} rows: χ² = ${formatNumber(statistic)}, df = ${df}, p ${formatPValue(p)}, Cramér's V = ${cramersV.toFixed(3)}. ${significance(p)}.${caveat}`,
+    n
+  };
+};
+
+const TESTS: Record<StatisticTest, (rows: any[], spec: StatisticSpec) => StatisticResult> = {
+  correlation: correlationMatrix,
+  regression: linearRegression,
+  ttest: tTest,
+  chi_square: chiSquare,
+  anova
+};
+
+/** Runs the test over `rows`. Throws an error describing what is missing when it cannot. */
+export const runStatistic = (rows: any[], spec: StatisticSpec): StatisticResult => TESTS[spec.test](rows, spec);
+
+/** Every column the test reads. */
+export const statisticColumns = (spec: StatisticSpec): string[] => [
+  ...(spec.columns || []),
+  ...(spec.target ? [spec.target] : []),
+  ...(spec.predictors || []),
+  ...(spec.groupColumn ? [spec.groupColumn] : [])
+];
@@ -0,0 +1,191 @@
+import { AnalysisSession, Dataset } from '../types';
+
+const DB_NAME = 'ada-analyst-pro';
+const DB_VERSION = 1;
+const DATASET_STORE = 'datasets';
+const ROW_STORE = 'rows';
+const SESSION_STORE = 'sessions';
+
+// Rows are stored in fixed-size chunks so a cell edit only rewrites the chunk it touched.
+const ROW_CHUNK_SIZE = 1000;
+
+const LEGACY_DATASETS_KEY = 'datasets';
+const LEGACY_SESSIONS_KEY = 'sessions';
+
+export interface Workspace {
+  datasets: Dataset[];
+  sessions: AnalysisSession[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+interface RowChunk {
+  datasetId: string;
+  index: number;
+  rows: any[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(DATASET_STORE)) db.createObjectStore(DATASET_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ROW_STORE)) db.createObjectStore(ROW_STORE, { keyPath: ['datasetId', 'index'] });
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toStorageError = (error: DOMException | null): Error => {
+  if (error?.name === 'QuotaExceededError') {
+    return new Error('Browser storage is full. Remove unused datasets to keep saving your workspace.');
+  }
+  return error || new Error('Storage transaction failed');
+};
+
+const runTransaction = async (stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+    work(tx);
+  });
+};
+
+const readAll = async <T,>(store: string, query?: IDBKeyRange): Promise<T[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(store, 'readonly').objectStore(store).getAll(query);
+    req.onsuccess = () => resolve(req.result as T[]);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const chunkRange = (datasetId: string, fromIndex = 0) => IDBKeyRange.bound([datasetId, fromIndex], [datasetId, Infinity]);
+
+const toMeta = ({ rows, ...meta }: Dataset) => meta;
+
+const writeRowChunks = (tx: IDBTransaction, datasetId: string, rows: any[], previousRows?: any[]) => {
+  const store = tx.objectStore(ROW_STORE);
+  const chunkCount = Math.ceil(rows.length / ROW_CHUNK_SIZE);
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * ROW_CHUNK_SIZE;
+    const chunk = rows.slice(start, start + ROW_CHUNK_SIZE);
+    // Row objects are replaced rather than mutated on edit, so identity tells us which chunks changed.
+    const unchanged = previousRows
+      && previousRows.length >= start + chunk.length
+      && (chunk.length === ROW_CHUNK_SIZE || previousRows.length === rows.length)
+      && chunk.every((row, i) => previousRows[start + i] === row);
+    if (!unchanged) store.put({ datasetId, index, rows: chunk } as RowChunk);
+  }
+  store.delete(chunkRange(datasetId, chunkCount));
+};
+
+/**
+ * Writes only what changed between two workspace snapshots. Datasets whose
+ * rows have not been loaded yet keep the same `rows` reference and are skipped.
+ */
+export const persistWorkspace = async (prev: Workspace, next: Workspace): Promise<void> => {
+  const prevDatasets = new Map(prev.datasets.map(d => [d.id, d]));
+  const prevSessions = new Map(prev.sessions.map(s => [s.id, s]));
+  const nextDatasetIds = new Set(next.datasets.map(d => d.id));
+  const nextSessionIds = new Set(next.sessions.map(s => s.id));
+
+  const changedDatasets = next.datasets.filter(d => prevDatasets.get(d.id) !== d);
+  const removedDatasets = prev.datasets.filter(d => !nextDatasetIds.has(d.id));
+  const changedSessions = next.sessions.filter(s => prevSessions.get(s.id) !== s);
+  const removedSessions = prev.sessions.filter(s => !nextSessionIds.has(s.id));
+  if (!changedDatasets.length && !removedDatasets.length && !changedSessions.length && !removedSessions.length) return;
+
+  await runTransaction([DATASET_STORE, ROW_STORE, SESSION_STORE], 'readwrite', tx => {
+    changedDatasets.forEach(d => {
+      const previous = prevDatasets.get(d.id);
+      tx.objectStore(DATASET_STORE).put(toMeta(d));
+      if (previous?.rows !== d.rows) writeRowChunks(tx, d.id, d.rows, previous?.rows);
+    });
+    removedDatasets.forEach(d => {
+      tx.objectStore(DATASET_STORE).delete(d.id);
+      tx.objectStore(ROW_STORE).delete(chunkRange(d.id));
+    });
+    changedSessions.forEach(s => tx.objectStore(SESSION_STORE).put(s));
+    removedSessions.forEach(s => tx.objectStore(SESSION_STORE).delete(s.id));
+  });
+};
+
+// One-time move of the workspace that older versions kept in localStorage.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const legacyDatasets = localStorage.getItem(LEGACY_DATASETS_KEY);
+  const legacySessions = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (legacyDatasets === null && legacySessions === null) return;
+  const workspace: Workspace = {
+    datasets: JSON.parse(legacyDatasets || '[]'),
+    sessions: JSON.parse(legacySessions || '[]')
+  };
+  await persistWorkspace({ datasets: [], sessions: [] }, workspace);
+  localStorage.removeItem(LEGACY_DATASETS_KEY);
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+};
+
+/** Loads dataset metadata and sessions. Dataset rows are left empty until `loadDatasetRows` is called. */
+export const loadWorkspace = async (): Promise<Workspace> => {
+  await migrateFromLocalStorage();
+  const [metas, sessions] = await Promise.all([
+    readAll<Omit<Dataset, 'rows'>>(DATASET_STORE),
+    readAll<AnalysisSession>(SESSION_STORE)
+  ]);
+  return {
+    datasets: metas.map(meta => ({ ...meta, rows: [] })),
+    sessions: sessions.sort((a, b) => b.lastUpdated - a.lastUpdated)
+  };
+};
+
+export const loadDatasetRows = async (datasetId: string): Promise<any[]> => {
+  const chunks = await readAll<RowChunk>(ROW_STORE, chunkRange(datasetId));
+  return chunks.flatMap(c => c.rows);
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${units[unit]}`;
+};
+
+export const clearStorage = async (): Promise<void> => {
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => resolve();
+  });
+};
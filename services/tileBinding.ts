@@ -0,0 +1,108 @@
+import { DashboardSlicer, DashboardTile, Dataset, QuerySpec } from '../types';
+import { applyFilters, drillFilterFor, filterColumns, FilterCondition, renameFilterColumns } from './filterEngine';
+import { buildPivot, describePivot } from './pivotEngine';
+import { dateFormatsFromMetadata } from './formulaEngine';
+import { buildChartFromQuery, computeMetrics } from './queryEngine';
+import { statisticColumns } from './statistics';
+
+const queryColumns = (spec: QuerySpec): string[] => [
+  ...spec.groupBy,
+  ...spec.aggregations.map(a => a.column),
+  ...(spec.metrics || []).map(m => m.aggregation.column),
+  ...(spec.forecast ? [spec.forecast.dateColumn] : []),
+  ...(spec.statistic ? statisticColumns(spec.statistic) : []),
+  ...filterColumns(spec.filters)
+].filter(c => c !== '*');
+
+/** Every dataset column a tile's query or pivot reads. Snapshot-only tiles read none. */
+export const tileColumns = (tile: DashboardTile): string[] => {
+  const columns = tile.query ? queryColumns(tile.query) : [];
+  if (tile.pivot) columns.push(...tile.pivot.rows, ...(tile.pivot.pivotColumn ? [tile.pivot.pivotColumn] : []), ...tile.pivot.values.map(v => v.column).filter(c => c !== '*'));
+  if (tile.filters) columns.push(...filterColumns(tile.filters));
+  return [...new Set(columns)];
+};
+
+export const tileTitle = (tile: DashboardTile) => tile.config?.title || tile.kpi?.label || tile.table?.title || 'Untitled tile';
+
+export const isBoundTile = (tile: DashboardTile) => !!(tile.query || tile.pivot);
+
+const renameQuery = (spec: QuerySpec, rename: (c: string) => string, renames: Record<string, string>): QuerySpec => ({
+  ...spec,
+  groupBy: spec.groupBy.map(rename),
+  aggregations: spec.aggregations.map(a => ({ ...a, column: rename(a.column) })),
+  filters: renameFilterColumns(spec.filters, renames),
+  sort: spec.sort && { ...spec.sort, column: rename(spec.sort.column) },
+  metrics: spec.metrics?.map(m => ({ ...m, aggregation: { ...m.aggregation, column: rename(m.aggregation.column) } })),
+  forecast: spec.forecast && { ...spec.forecast, dateColumn: rename(spec.forecast.dateColumn) },
+  statistic: spec.statistic && {
+    ...spec.statistic,
+    columns: spec.statistic.columns?.map(rename),
+    target: spec.statistic.target && rename(spec.statistic.target),
+    predictors: spec.statistic.predictors?.map(rename),
+    groupColumn: spec.statistic.groupColumn && rename(spec.statistic.groupColumn)
+  }
+});
+
+/** Points a tile's query, pivot and filters at renamed columns; `renames` maps old names to new ones. */
+export const renameTileColumns = (tile: DashboardTile, renames: Record<string, string>): DashboardTile => {
+  if (!isBoundTile(tile) || Object.keys(renames).length === 0) return tile;
+  const rename = (c: string) => renames[c] ?? c;
+  const pivot = tile.pivot && { ...tile.pivot, rows: tile.pivot.rows.map(rename), pivotColumn: tile.pivot.pivotColumn && rename(tile.pivot.pivotColumn), values: tile.pivot.values.map(v => ({ ...v, column: rename(v.column) })) };
+  // Generated pivot titles follow the rename; titles the user wrote are left alone.
+  const retitle = tile.table && tile.pivot && pivot && tile.table.title === describePivot(tile.pivot);
+  return {
+    ...tile,
+    query: tile.query && renameQuery(tile.query, rename, renames),
+    pivot,
+    filters: tile.filters && renameFilterColumns(tile.filters, renames),
+    table: retitle ? { ...tile.table!, title: describePivot(pivot) } : tile.table
+  };
+};
+
+/**
+ * Recomputes a bound tile against the dataset's current rows. When a column it
+ * needs is gone the last result is kept and the tile is marked stale.
+ */
+export const refreshTile = (tile: DashboardTile, dataset: Pick<Dataset, 'columns' | 'rows' | 'metadata'>): DashboardTile => {
+  if (!isBoundTile(tile)) return tile;
+  const missing = tileColumns(tile).filter(c => !dataset.columns.includes(c));
+  if (missing.length) return { ...tile, staleReason: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+
+  if (tile.type === 'table' && tile.pivot) {
+    const pivot = buildPivot(applyFilters(dataset.rows, tile.filters || []), tile.pivot);
+    return { ...tile, staleReason: undefined, table: { title: tile.table?.title || describePivot(tile.pivot), columns: pivot.columns, rows: pivot.rows, totalRow: pivot.totalRow } };
+  }
+  if (tile.type === 'kpi' && tile.query) {
+    const [kpi] = computeMetrics(dataset.rows, tile.query);
+    return kpi ? { ...tile, staleReason: undefined, kpi: { ...kpi, trend: tile.kpi?.trend } } : tile;
+  }
+  if (tile.type === 'chart' && tile.query) {
+    const config = buildChartFromQuery(dataset.rows, tile.query, dateFormatsFromMetadata(dataset.metadata));
+    return config ? { ...tile, staleReason: undefined, config: { ...config, color: tile.config?.color, id: tile.config?.id } } : tile;
+  }
+  return tile;
+};
+
+/** A value clicked in one tile, filtering every other tile on the dashboard. */
+export interface CrossFilter {
+  tileId: string;
+  column: string;
+  value: any;
+}
+
+/** Slicers with values selected, as filters. Slicers on columns the dataset no longer has are ignored. */
+export const slicerFilters = (slicers: DashboardSlicer[] = [], columns: string[]): FilterCondition[] =>
+  slicers
+    .filter(s => s.values.length > 0 && columns.includes(s.column))
+    .map(s => ({ column: s.column, operator: 'in', value: s.values }));
+
+/**
+ * Every tile recomputed against the dataset with the dashboard's slicers and
+ * cross-filter applied. The tile a cross-filter came from is not filtered by
+ * it, so its other values stay clickable.
+ */
+export const computeLiveTiles = (tiles: DashboardTile[], dataset: Pick<Dataset, 'columns' | 'rows' | 'metadata'>, slicers: DashboardSlicer[] = [], crossFilter: CrossFilter | null = null): DashboardTile[] => {
+  const sliced = applyFilters(dataset.rows, slicerFilters(slicers, dataset.columns));
+  const crossFiltered = crossFilter && dataset.columns.includes(crossFilter.column) ? applyFilters(sliced, [drillFilterFor(crossFilter.column, crossFilter.value)]) : sliced;
+  return tiles.map(t => refreshTile(t, { columns: dataset.columns, metadata: dataset.metadata, rows: crossFilter?.tileId === t.id ? sliced : crossFiltered }));
+};
@@ -0,0 +1,234 @@
+import { ColumnMetadata, DateFormat, ForecastSeries, TimeGrain } from '../types';
+import { parseAnyDate, parseDate, toIsoString } from './dateParsing';
+import { extent } from './profiler';
+
+export const TIME_GRAIN_LABELS: Record<TimeGrain, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly'
+};
+
+/** Periods per seasonal cycle: weekdays, weeks of the year, months, quarters. */
+export const SEASON_LENGTHS: Record<TimeGrain, number> = { day: 7, week: 52, month: 12, quarter: 4 };
+
+const DAY_MS = 86400000;
+// The finest grain that keeps the series at or below this many periods is used when none is given.
+const MAX_AUTO_PERIODS = 120;
+const MIN_FORECAST_POINTS = 4;
+const SMOOTHING_GRID = [0.05, 0.15, 0.25, 0.35, 0.45, 0.55, 0.65, 0.75, 0.85, 0.95];
+const Z_SCORES: Record<number, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+export interface TimeSeries {
+  grain: TimeGrain;
+  periods: Date[];
+  labels: string[];
+  values: number[];
+  sourceRowCount: number; // rows with a readable date
+}
+
+export const dateColumns = (columns: string[], metadata: Record<string, ColumnMetadata> = {}) =>
+  columns.filter(c => metadata[c]?.type === 'date');
+
+/** The UTC start of the period containing `date`. Weeks start on Monday. */
+export const periodStart = (date: Date, grain: TimeGrain): Date => {
+  const y = date.getUTCFullYear(), m = date.getUTCMonth(), d = date.getUTCDate();
+  switch (grain) {
+    case 'day': return new Date(Date.UTC(y, m, d));
+    case 'week': return new Date(Date.UTC(y, m, d - ((date.getUTCDay() + 6) % 7)));
+    case 'month': return new Date(Date.UTC(y, m, 1));
+    case 'quarter': return new Date(Date.UTC(y, m - (m % 3), 1));
+  }
+};
+
+export const addPeriods = (date: Date, grain: TimeGrain, count: number): Date => {
+  const y = date.getUTCFullYear(), m = date.getUTCMonth(), d = date.getUTCDate();
+  switch (grain) {
+    case 'day': return new Date(Date.UTC(y, m, d + count));
+    case 'week': return new Date(Date.UTC(y, m, d + count * 7));
+    case 'month': return new Date(Date.UTC(y, m + count, 1));
+    case 'quarter': return new Date(Date.UTC(y, m + count * 3, 1));
+  }
+};
+
+export const periodLabel = (date: Date, grain: TimeGrain): string => {
+  const iso = toIsoString(date).slice(0, 10);
+  if (grain === 'month') return iso.slice(0, 7);
+  if (grain === 'quarter') return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+  return iso;
+};
+
+export const chooseGrain = (first: Date, last: Date): TimeGrain => {
+  const days = (last.getTime() - first.getTime()) / DAY_MS;
+  if (days <= MAX_AUTO_PERIODS) return 'day';
+  if (days / 7 <= MAX_AUTO_PERIODS) return 'week';
+  if (days / 30.44 <= MAX_AUTO_PERIODS) return 'month';
+  return 'quarter';
+};
+
+/**
+ * Buckets rows into consecutive periods of the date column and aggregates
+ * each one. Empty periods count as zero for additive aggregations (sums and
+ * counts) and are interpolated from their neighbours otherwise.
+ */
+export const resampleSeries = (
+  rows: any[],
+  dateColumn: string,
+  aggregate: (rows: any[]) => number | null,
+  options: { grain?: TimeGrain; dateFormat?: DateFormat; additive: boolean }
+): TimeSeries | null => {
+  const dated = rows
+    .map(row => ({ row, date: options.dateFormat ? parseDate(row[dateColumn], options.dateFormat) : parseAnyDate(row[dateColumn]) }))
+    .filter((d): d is { row: any; date: Date } => !!d.date);
+  if (dated.length === 0) return null;
+
+  const span = extent(dated.map(d => d.date.getTime()));
+  const grain = options.grain || chooseGrain(new Date(span.min), new Date(span.max));
+  const buckets = new Map<number, any[]>();
+  dated.forEach(({ row, date }) => {
+    const key = periodStart(date, grain).getTime();
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(row);
+    else buckets.set(key, [row]);
+  });
+
+  const keys = [...buckets.keys()].sort((a, b) => a - b);
+  const periods: Date[] = [];
+  for (let p = new Date(keys[0]); p.getTime() <= keys[keys.length - 1]; p = addPeriods(p, grain, 1)) periods.push(p);
+  const raw = periods.map(p => {
+    const bucket = buckets.get(p.getTime());
+    return bucket ? aggregate(bucket) : options.additive ? 0 : null;
+  });
+
+  return { grain, periods, labels: periods.map(p => periodLabel(p, grain)), values: interpolateGaps(raw), sourceRowCount: dated.length };
+};
+
+const interpolateGaps = (values: (number | null)[]): number[] => {
+  const known = values.map((v, i) => v === null ? -1 : i).filter(i => i >= 0);
+  if (known.length === 0) return values.map(() => 0);
+  return values.map((v, i) => {
+    if (v !== null) return v;
+    const before = [...known].reverse().find(k => k < i);
+    const after = known.find(k => k > i);
+    if (before === undefined) return values[after!]!;
+    if (after === undefined) return values[before]!;
+    return values[before]! + ((values[after]! - values[before]!) * (i - before)) / (after - before);
+  });
+};
+
+interface SmoothingFit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  seasonal: number[]; // empty for non-seasonal fits
+  trendLine: number[];
+  sse: number;
+  errors: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Additive Holt-Winters when `season` > 1, Holt's linear trend otherwise.
+ * The first season (or first point) only initialises the state; one-step
+ * errors are scored from there on.
+ */
+const runSmoothing = (values: number[], season: number, alpha: number, beta: number, gamma: number): SmoothingFit => {
+  const seasonal: number[] = [];
+  const trendLine: number[] = [];
+  let level: number, trend: number, start: number;
+  if (season > 1) {
+    const first = mean(values.slice(0, season));
+    trend = (mean(values.slice(season, season * 2)) - first) / season;
+    const centre = (season - 1) / 2;
+    for (let i = 0; i < season; i++) {
+      trendLine.push(first + trend * (i - centre));
+      seasonal.push(values[i] - trendLine[i]);
+    }
+    level = trendLine[season - 1];
+    start = season;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    trendLine.push(level);
+    start = 1;
+  }
+
+  let sse = 0;
+  for (let t = start; t < values.length; t++) {
+    const s = season > 1 ? seasonal[t % season] : 0;
+    const error = values[t] - (level + trend + s);
+    sse += error * error;
+    const nextLevel = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+    if (season > 1) seasonal[t % season] = gamma * (values[t] - level) + (1 - gamma) * s;
+    trendLine.push(level);
+  }
+  return { alpha, beta, gamma, level, trend, seasonal, trendLine, sse, errors: values.length - start };
+};
+
+/** Picks the smoothing parameters with the smallest one-step-ahead squared error. */
+const fitSmoothing = (values: number[], season: number): SmoothingFit => {
+  let best: SmoothingFit | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of season > 1 ? SMOOTHING_GRID : [0]) {
+        const fit = runSmoothing(values, season, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = fit;
+      }
+    }
+  }
+  return best!;
+};
+
+/**
+ * Forecasts `horizon` periods past the end of the series with intervals at
+ * `level` confidence. Uses Holt-Winters once two full seasons are available,
+ * Holt's linear trend before that. Series that never go negative are not
+ * forecast below zero.
+ */
+export const forecastSeries = (series: Pick<TimeSeries, 'grain' | 'periods' | 'values'>, horizon?: number, level = 0.95): ForecastSeries | null => {
+  const { values, grain, periods } = series;
+  if (values.length < MIN_FORECAST_POINTS) return null;
+  const season = SEASON_LENGTHS[grain];
+  const seasonal = values.length >= season * 2;
+  const steps = Math.max(1, Math.round(horizon ?? Math.min(season, Math.max(3, Math.ceil(values.length / 4)))));
+  const fit = fitSmoothing(values, seasonal ? season : 1);
+
+  const parameters = seasonal ? 3 : 2;
+  const sigma = Math.sqrt(fit.sse / Math.max(1, fit.errors - parameters));
+  const z = Z_SCORES[level] ?? 1.96;
+  const floor = values.every(v => v >= 0) ? 0 : -Infinity;
+  const last = periods[periods.length - 1];
+
+  let variance = 0;
+  const points = Array.from({ length: steps }, (_, i) => {
+    const h = i + 1;
+    // h-step variance of the additive model: σ²(1 + Σ c_j²) with c_j = α(1 + jβ) + γ on whole seasons.
+    if (h > 1) {
+      const j = h - 1;
+      const c = fit.alpha * (1 + j * fit.beta) + (seasonal && j % season === 0 ? fit.gamma : 0);
+      variance += c * c;
+    }
+    const spread = z * sigma * Math.sqrt(1 + variance);
+    const y = fit.level + h * fit.trend + (seasonal ? fit.seasonal[(values.length - 1 + h) % season] : 0);
+    return { x: periodLabel(addPeriods(last, grain, h), grain), y: Math.max(floor, y), lower: Math.max(floor, y - spread), upper: Math.max(floor, y + spread) };
+  });
+
+  return {
+    points,
+    trend: fit.trendLine,
+    level,
+    method: seasonal ? `Holt-Winters, additive ${season}-period season` : 'Holt linear trend'
+  };
+};
+
+const formatValue = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/** Plain-text forecast for a model's context or a caption. */
+export const describeForecast = (forecast: ForecastSeries): string =>
+  `Forecast (${forecast.method}, ${Math.round(forecast.level * 100)}% intervals): ` +
+  forecast.points.map(p => `${p.x} ≈ ${formatValue(p.y)} (${formatValue(p.lower)}–${formatValue(p.upper)})`).join('; ');
@@ -0,0 +1,142 @@
+import { CalculatedColumn, ColumnMetadata, ColumnRename, DashboardTile, Dataset, SchemaDrift } from '../types';
+import { applyFilters } from './filterEngine';
+import { validateCalculatedColumns } from './formulaEngine';
+import { aggregateRows } from './queryEngine';
+import { renameTileColumns } from './tileBinding';
+
+type VersionShape = Pick<Dataset, 'columns' | 'metadata'> & { rowCount: number };
+
+export interface KpiComparison {
+  label: string;
+  before: number | null;
+  after: number | null;
+  change: number | null; // percentage, null when there is no usable baseline
+}
+
+/** Compares two versions' schemas. Columns listed in `renames` count as renamed, not removed and added. */
+export const detectSchemaDrift = (prev: VersionShape, next: VersionShape, renames: ColumnRename[] = []): SchemaDrift => {
+  const renamedFrom = new Set(renames.map(r => r.from));
+  const renamedTo = new Set(renames.map(r => r.to));
+  const typeOf = (v: VersionShape, column: string) => v.metadata?.[column]?.type;
+  const counterpart = (column: string) => renames.find(r => r.from === column)?.to ?? column;
+
+  return {
+    added: next.columns.filter(c => !prev.columns.includes(c) && !renamedTo.has(c)),
+    removed: prev.columns.filter(c => !next.columns.includes(c) && !renamedFrom.has(c)),
+    renamed: renames,
+    retyped: prev.columns
+      .filter(c => next.columns.includes(counterpart(c)))
+      .map(c => ({ column: counterpart(c), from: typeOf(prev, c), to: typeOf(next, counterpart(c)) }))
+      // Columns that were entirely empty have no real type to drift from.
+      .filter((t): t is SchemaDrift['retyped'][number] => !!t.from && !!t.to && t.from !== t.to && t.from !== 'unknown' && t.to !== 'unknown'),
+    rowCountBefore: prev.rowCount,
+    rowCountAfter: next.rowCount
+  };
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Pairs removed columns with added ones that look like the same field under a
+ * new name: equal once case and punctuation are ignored, or one name containing
+ * the other with the same type.
+ */
+export const suggestRenames = (removed: string[], added: string[], prevMetadata: Record<string, ColumnMetadata> = {}, nextMetadata: Record<string, ColumnMetadata> = {}): ColumnRename[] => {
+  const available = new Set(added);
+  const renames: ColumnRename[] = [];
+  removed.forEach(from => {
+    const a = normalizeName(from);
+    const match = [...available].find(to => normalizeName(to) === a)
+      ?? [...available].find(to => {
+        const b = normalizeName(to);
+        return !!a && !!b && (a.includes(b) || b.includes(a)) && prevMetadata[from]?.type === nextMetadata[to]?.type;
+      });
+    if (match) {
+      renames.push({ from, to: match });
+      available.delete(match);
+    }
+  });
+  return renames;
+};
+
+/** Splits calculated columns into those whose formulas still resolve against the new columns and those that no longer do. */
+export const retainCalculatedColumns = (baseColumns: string[], calculated: CalculatedColumn[] = []) => {
+  const kept: CalculatedColumn[] = [];
+  const dropped: CalculatedColumn[] = [];
+  calculated.forEach(c => (validateCalculatedColumns(baseColumns, [...kept, c]) ? dropped : kept).push(c));
+  return { kept, dropped };
+};
+
+// Monthly extracts differ only by their dates and numbering: "sales_2024-05.csv" and "Sales 2024-06.csv" share a stem.
+const fileStem = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z]/g, '');
+
+/** The dataset a newly chosen file most likely updates, if any. */
+export const guessVersionTarget = (fileName: string, datasets: Pick<Dataset, 'id' | 'name' | 'versionLabel'>[]): string | undefined => {
+  const stem = fileStem(fileName);
+  if (!stem) return undefined;
+  return datasets.find(d => fileStem(d.name) === stem || (d.versionLabel && fileStem(d.versionLabel) === stem))?.id;
+};
+
+export const describeDrift = (drift: SchemaDrift): string => {
+  const parts = [
+    drift.added.length ? `+${drift.added.length} columns` : '',
+    drift.removed.length ? `−${drift.removed.length} columns` : '',
+    drift.renamed.length ? `${drift.renamed.length} renamed` : '',
+    drift.retyped.length ? `${drift.retyped.length} retyped` : ''
+  ].filter(Boolean);
+  const rows = `${drift.rowCountBefore.toLocaleString()} → ${drift.rowCountAfter.toLocaleString()} rows`;
+  return parts.length ? `${parts.join(', ')} · ${rows}` : `Same columns · ${rows}`;
+};
+
+/**
+ * Maps the dataset's current column names to the names they had in `version`,
+ * following the renames of every later version backwards. Columns that kept
+ * their name, or were added since, are left out.
+ */
+export const renamesSince = (dataset: Pick<Dataset, 'drift' | 'versions'>, version: number): Record<string, string> => {
+  const steps = [...(dataset.versions || []).filter(v => v.version > version).map(v => v.drift), dataset.drift]
+    .filter((drift): drift is SchemaDrift => !!drift)
+    .reverse();
+  const renames: Record<string, string> = {};
+  new Set(steps.flatMap(drift => drift.renamed.map(r => r.to))).forEach(name => {
+    let earlier = name;
+    for (const drift of steps) {
+      if (drift.added.includes(earlier)) return;
+      earlier = drift.renamed.find(r => r.to === earlier)?.from ?? earlier;
+    }
+    if (earlier !== name) renames[name] = earlier;
+  });
+  return renames;
+};
+
+const percentChange = (before: number | null, after: number | null) =>
+  before === null || after === null || before === 0 ? null : ((after - before) / Math.abs(before)) * 100;
+
+/**
+ * Row count plus the sum of every numeric column the two versions share, from their stored profiles.
+ * `renames` maps `next`'s column names to their names in `prev`, as from `renamesSince`.
+ */
+export const compareColumnTotals = (prev: VersionShape, next: VersionShape, renames: Record<string, string> = {}): KpiComparison[] => {
+  const rows: KpiComparison = { label: 'Rows', before: prev.rowCount, after: next.rowCount, change: percentChange(prev.rowCount, next.rowCount) };
+  const earlier = (c: string) => renames[c] ?? c;
+  const totals = next.columns
+    .filter(c => prev.metadata?.[earlier(c)]?.stats && next.metadata?.[c]?.stats)
+    .map(c => {
+      const before = prev.metadata![earlier(c)].stats!.sum;
+      const after = next.metadata![c].stats!.sum;
+      return { label: `Total ${c}`, before, after, change: percentChange(before, after) };
+    });
+  return [rows, ...totals];
+};
+
+/**
+ * Re-evaluates each KPI tile's metric against both versions' rows. Tiles without a query are skipped.
+ * Tiles follow the current column names, so they are renamed back through `renames` for the earlier rows.
+ */
+export const compareKpiTiles = (tiles: DashboardTile[], prevRows: any[], nextRows: any[], renames: Record<string, string> = {}): KpiComparison[] =>
+  tiles.filter(t => t.type === 'kpi' && t.query?.metrics?.length).map(t => {
+    const evaluate = (tile: DashboardTile, rows: any[]) => aggregateRows(applyFilters(rows, tile.query!.filters), tile.query!.metrics![0].aggregation);
+    const before = evaluate(renameTileColumns(t, renames), prevRows);
+    const after = evaluate(t, nextRows);
+    return { label: t.query!.metrics![0].label, before, after, change: percentChange(before, after) };
+  });
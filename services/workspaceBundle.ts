@@ -0,0 +1,225 @@
+import { AnalysisSession, Dataset, DatasetDerivation, DatasetHistory, DatasetSnapshot, HistoryEntry } from '../types';
+import { derivationSourceIds } from './datasetCombiner';
+import { assignRowIds, ensureUniqueRowIds } from './rowIdentity';
+
+export const BUNDLE_FORMAT = 'ada-workspace-bundle';
+export const BUNDLE_VERSION = 2;
+export const BUNDLE_EXTENSION = '.adabundle';
+
+// History snapshots share most row objects with the current rows, so they are stored as
+// positions in the dataset's rows followed by `extraRows`, the ones only history holds.
+type BundledSnapshot = Omit<DatasetSnapshot, 'rows'> & { rows: number[] };
+
+interface BundledHistory {
+  cursor: number;
+  entries: (Omit<HistoryEntry, 'snapshot'> & { snapshot: BundledSnapshot })[];
+  extraRows: any[];
+}
+
+export interface BundledDataset {
+  dataset: Omit<Dataset, 'rows'>;
+  rows: any[];
+  history?: BundledHistory;
+}
+
+/** A single shareable file: datasets with their rows, the sessions built on them and their edit history. */
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  datasets: BundledDataset[];
+  sessions: AnalysisSession[];
+}
+
+export interface BundleOptions {
+  includeSessions: boolean;
+  includeHistory: boolean;
+}
+
+/** How bundled datasets whose ids already exist are brought in. */
+export type CollisionMode = 'copy' | 'replace';
+
+export interface UnpackedBundle {
+  datasets: Dataset[];
+  sessions: AnalysisSession[];
+  histories: Record<string, DatasetHistory>;
+  replacedIds: string[];
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const packHistory = (rows: any[], history: DatasetHistory): BundledHistory => {
+  const positions = new Map<any, number>(rows.map((r, i) => [r, i]));
+  const extraRows: any[] = [];
+  const position = (row: any) => {
+    let index = positions.get(row);
+    if (index === undefined) {
+      index = rows.length + extraRows.length;
+      extraRows.push(row);
+      positions.set(row, index);
+    }
+    return index;
+  };
+  return {
+    cursor: history.cursor,
+    entries: history.entries.map(e => ({ ...e, snapshot: { ...e.snapshot, rows: e.snapshot.rows.map(position) } })),
+    extraRows
+  };
+};
+
+const unpackHistory = (rows: any[], history: BundledHistory): DatasetHistory => {
+  const pool = [...rows, ...history.extraRows];
+  return { cursor: history.cursor, entries: history.entries.map(e => ({ ...e, snapshot: { ...e.snapshot, rows: e.snapshot.rows.map(i => pool[i]) } })) };
+};
+
+/**
+ * Packs datasets, which must have their rows loaded, into a bundle. Archived
+ * versions and join or append sources are only linked when they are bundled too.
+ */
+export const buildBundle = (datasets: Dataset[], sessions: AnalysisSession[], histories: Record<string, DatasetHistory>, options: BundleOptions): WorkspaceBundle => {
+  const ids = new Set(datasets.map(d => d.id));
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    datasets: datasets.map(({ rows, ...dataset }) => {
+      const linksSources = !dataset.derivedFrom || derivationSourceIds(dataset.derivedFrom).every(id => ids.has(id));
+      const history = options.includeHistory ? histories[dataset.id] : undefined;
+      return {
+        dataset: {
+          ...dataset,
+          derivedFrom: linksSources ? dataset.derivedFrom : undefined,
+          builtAt: linksSources ? dataset.builtAt : undefined,
+          versions: dataset.versions?.filter(v => ids.has(v.datasetId))
+        },
+        rows,
+        history: history && history.entries.length > 1 ? packHistory(rows, history) : undefined
+      };
+    }),
+    sessions: options.includeSessions ? sessions.filter(s => ids.has(s.datasetId)) : []
+  };
+};
+
+export const bundleFileName = (exportedAt: number) =>
+  `workspace-${new Date(exportedAt).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-')}${BUNDLE_EXTENSION}`;
+
+/** Upgrades a bundle one version at a time; each key is the version it upgrades from. */
+const MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Version 1 was a plain workspace dump: datasets with their rows inline and no edit history.
+  1: bundle => ({
+    ...bundle,
+    version: 2,
+    datasets: (Array.isArray(bundle.datasets) ? bundle.datasets : []).map((d: any) => {
+      const { rows, ...dataset } = d ?? {};
+      return { dataset, rows };
+    })
+  })
+};
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isValidTile = (tile: any) =>
+  !!tile && typeof tile.id === 'string' && typeof tile.w === 'number' &&
+  (tile.h === undefined || typeof tile.h === 'number') &&
+  (tile.kpi?.trend === undefined || typeof tile.kpi.trend === 'number');
+
+const validateHistory = (history: any, rowCount: number, label: string) => {
+  if (!history || !Array.isArray(history.entries) || !Array.isArray(history.extraRows)) throw new Error(`${label} has a malformed edit history.`);
+  if (!Number.isInteger(history.cursor) || history.cursor < 0 || history.cursor >= history.entries.length) throw new Error(`${label} has an edit history pointing past its last step.`);
+  const poolSize = rowCount + history.extraRows.length;
+  history.entries.forEach((e: any) => {
+    const rows = e?.snapshot?.rows;
+    if (!isStringArray(e?.snapshot?.columns) || !Array.isArray(rows) || rows.some((i: any) => !Number.isInteger(i) || i < 0 || i >= poolSize)) {
+      throw new Error(`${label} has an edit history step with missing rows.`);
+    }
+  });
+};
+
+const validateBundle = (bundle: any): WorkspaceBundle => {
+  if (!Array.isArray(bundle.datasets) || !Array.isArray(bundle.sessions)) throw new Error('The bundle is missing its datasets or sessions.');
+  const ids = new Set<string>();
+  bundle.datasets.forEach((b: any, i: number) => {
+    const d = b?.dataset;
+    const label = `Dataset ${i + 1}${typeof d?.name === 'string' ? ` (${d.name})` : ''}`;
+    if (!d || typeof d.id !== 'string' || typeof d.name !== 'string') throw new Error(`${label} has no id or name.`);
+    if (ids.has(d.id)) throw new Error(`${label} repeats the id of another bundled dataset.`);
+    if (!isStringArray(d.columns)) throw new Error(`${label} has no column list.`);
+    if (!Array.isArray(b.rows) || b.rows.some((r: any) => !r || typeof r !== 'object')) throw new Error(`${label} has malformed rows.`);
+    if (b.history !== undefined) validateHistory(b.history, b.rows.length, label);
+    ids.add(d.id);
+  });
+  bundle.sessions.forEach((s: any, i: number) => {
+    if (!s || typeof s.id !== 'string' || !Array.isArray(s.messages) || !Array.isArray(s.dashboardTiles)) throw new Error(`Session ${i + 1} is malformed.`);
+    if (!s.dashboardTiles.every(isValidTile)) throw new Error(`Session ${i + 1} has a malformed dashboard tile.`);
+    if (!ids.has(s.datasetId)) throw new Error(`Session ${i + 1} belongs to a dataset that is not in the bundle.`);
+  });
+  return bundle as WorkspaceBundle;
+};
+
+/** Parses, migrates and validates a bundle file. Throws an error describing the first problem found. */
+export const parseBundle = (text: string): WorkspaceBundle => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) throw new Error('This file is not a workspace bundle.');
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) throw new Error('The bundle has no valid version number.');
+  if (bundle.version > BUNDLE_VERSION) throw new Error(`This bundle was made by a newer version of the app (format v${bundle.version}). Update to import it.`);
+  while (bundle.version < BUNDLE_VERSION) bundle = MIGRATIONS[bundle.version](bundle);
+  return validateBundle(bundle);
+};
+
+/** Bundled datasets, other than archived versions, whose ids are already in the workspace. */
+export const bundleCollisions = (bundle: WorkspaceBundle, existing: Pick<Dataset, 'id'>[]) => {
+  const ids = new Set(existing.map(d => d.id));
+  return bundle.datasets.map(b => b.dataset).filter(d => !d.archivedFrom && ids.has(d.id));
+};
+
+const remapDerivation = (derivation: DatasetDerivation, mapId: (id: string) => string): DatasetDerivation =>
+  derivation.kind === 'join'
+    ? { ...derivation, leftId: mapId(derivation.leftId), rightId: mapId(derivation.rightId) }
+    : { ...derivation, sourceIds: derivation.sourceIds.map(mapId), columnMaps: Object.fromEntries(Object.entries(derivation.columnMaps).map(([id, map]) => [mapId(id), map])) };
+
+/**
+ * Turns a validated bundle into workspace datasets, sessions and histories.
+ * Colliding datasets and sessions either get fresh ids, with every reference
+ * to them following, or keep their ids and replace the existing ones.
+ */
+export const unpackBundle = (bundle: WorkspaceBundle, existingDatasets: Pick<Dataset, 'id' | 'name'>[], existingSessions: Pick<AnalysisSession, 'id'>[], mode: CollisionMode): UnpackedBundle => {
+  const existingIds = new Set(existingDatasets.map(d => d.id));
+  const existingNames = new Set(existingDatasets.map(d => d.name));
+  const idMap = new Map<string, string>(bundle.datasets.map(({ dataset: d }) => [d.id, existingIds.has(d.id) && mode === 'copy' ? newId() : d.id]));
+  const mapId = (id: string) => idMap.get(id) ?? id;
+
+  const histories: Record<string, DatasetHistory> = {};
+  const datasets = bundle.datasets.map(({ dataset, rows: bundledRows, history }) => {
+    const id = mapId(dataset.id);
+    // Version 1 bundles predate row ids, and hand-edited files can repeat them; edits and selection need them unique.
+    const rows = ensureUniqueRowIds(bundledRows);
+    if (history) histories[id] = unpackHistory(rows, { ...history, extraRows: assignRowIds(history.extraRows) });
+    const renamed = mode === 'copy' && !dataset.archivedFrom && existingNames.has(dataset.name);
+    return {
+      ...dataset,
+      id,
+      name: renamed ? `${dataset.name} (imported)` : dataset.name,
+      rows,
+      archivedFrom: dataset.archivedFrom && mapId(dataset.archivedFrom),
+      versions: dataset.versions?.map(v => ({ ...v, datasetId: mapId(v.datasetId) })),
+      derivedFrom: dataset.derivedFrom && remapDerivation(dataset.derivedFrom, mapId)
+    } as Dataset;
+  });
+
+  const existingSessionIds = new Set(existingSessions.map(s => s.id));
+  const sessionIdMap = new Map<string, string>(bundle.sessions.map(s => [s.id, existingSessionIds.has(s.id) && mode === 'copy' ? newId() : s.id]));
+  const sessions = bundle.sessions.map(s => ({
+    ...s,
+    id: sessionIdMap.get(s.id)!,
+    datasetId: mapId(s.datasetId),
+    forkedFrom: s.forkedFrom && { ...s.forkedFrom, sessionId: sessionIdMap.get(s.forkedFrom.sessionId) ?? s.forkedFrom.sessionId }
+  }));
+
+  const replacedIds = mode === 'replace' ? bundle.datasets.map(b => b.dataset.id).filter(id => existingIds.has(id)) : [];
+  return { datasets, sessions, histories, replacedIds };
+};
@@ -6,12 +6,89 @@ export interface Dataset {
   rows: any[];
   summary: string;
   metadata?: Record<string, ColumnMetadata>;
+  columnTypes?: Record<string, ImportColumnType>; // chosen in the import preview; text columns are never profiled as numbers
+  calculatedColumns?: CalculatedColumn[]; // evaluated in order and stored on each row
+  savedFilterSets?: SavedFilterSet[];
+  derivedFrom?: DatasetDerivation; // set on datasets built by joining or appending others
+  builtAt?: number; // when a derived dataset was last built from its sources
+  updatedAt?: number; // last data change, used to spot stale derived datasets
+  version?: number; // absent means version 1
+  versionLabel?: string; // file the current version was imported from
+  importedAt?: number;
+  drift?: SchemaDrift; // how this version differs from the one before it
+  versions?: DatasetVersion[]; // earlier versions, oldest first
+  archivedFrom?: string; // set on the hidden dataset holding an earlier version of another dataset
+}
+
+export interface DatasetVersion {
+  datasetId: string; // the archived dataset holding this version's rows
+  version: number;
+  label: string;
+  importedAt?: number;
+  rowCount: number;
+  drift?: SchemaDrift;
+}
+
+export interface SchemaDrift {
+  added: string[];
+  removed: string[];
+  renamed: ColumnRename[];
+  retyped: { column: string; from: ColumnMetadata['type']; to: ColumnMetadata['type'] }[];
+  rowCountBefore: number;
+  rowCountAfter: number;
+}
+
+export interface ColumnRename {
+  from: string;
+  to: string;
+}
+
+export type JoinType = 'inner' | 'left' | 'full';
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export interface JoinDerivation {
+  kind: 'join';
+  leftId: string;
+  rightId: string;
+  keys: JoinKey[];
+  joinType: JoinType;
+}
+
+export interface AppendDerivation {
+  kind: 'append';
+  sourceIds: string[];
+  columnMaps: Record<string, Record<string, string>>; // sourceId -> source column -> output column ('' drops it)
+  sourceColumn?: string; // when set, each row records the name of the dataset it came from
+}
+
+export type DatasetDerivation = JoinDerivation | AppendDerivation;
+
+export interface CalculatedColumn {
+  name: string;
+  expression: string;
 }
 
 export interface ColumnMetadata {
-  type: 'numeric' | 'categorical' | 'date' | 'unknown';
-  stats: ColumnStats;
+  type: 'numeric' | 'categorical' | 'date' | 'boolean' | 'unknown';
+  stats?: ColumnStats; // numeric columns only
   uniqueValues?: number;
+  nullCount: number;
+  topValues: { value: string; count: number }[];
+  histogram?: HistogramBin[];
+  dateFormat?: DateFormat;
+  dateRange?: { min: string; max: string };
+}
+
+export type DateFormat = 'iso' | 'ymd' | 'mdy' | 'dmy' | 'text';
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
 }
 
 export interface KPIMetric {
@@ -29,11 +106,12 @@ export interface ChatMessage {
   timestamp: number;
   insights?: string[];
   metrics?: KPIMetric[];
+  querySpec?: QuerySpec;
   isError?: boolean;
 }
 
 export interface ChartConfig {
-  type: 'bar' | 'line' | 'scatter' | 'pie' | 'area' | 'radar' | 'boxplot';
+  type: 'bar' | 'line' | 'scatter' | 'pie' | 'area' | 'radar' | 'boxplot' | 'heatmap';
   title: string;
   data: { 
     x: string | number; 
@@ -43,20 +121,62 @@ export interface ChartConfig {
     q1?: number; 
     q3?: number; 
     median?: number;
+    outliers?: number[]; // boxplot values beyond the 1.5 × IQR whiskers
+    anomaly?: string; // why this point was flagged, when anomaly highlighting is on
+    yCategory?: string; // heatmaps: the row of the cell; x is its column and y its value
     originalRow?: any 
   }[];
   xAxisLabel: string;
   yAxisLabel: string;
   color?: string;
   id?: string;
+  forecast?: ForecastSeries; // line and area charts over time only
+  fit?: { slope: number; intercept: number }; // scatter charts with numeric x: the fitted regression line
+}
+
+export type TimeGrain = 'day' | 'week' | 'month' | 'quarter';
+
+/** Periods forecast past the last actual point of a time-series chart, continuing its x axis. */
+export interface ForecastSeries {
+  points: { x: string; y: number; lower: number; upper: number }[];
+  trend: number[]; // deseasonalised level at each actual point, for drawing the underlying trend
+  level: number; // confidence level of lower/upper, e.g. 0.95
+  method: string;
 }
 
+/** Charts the first aggregation over time, resampled to a grain, and forecasts past the last period. */
+export interface ForecastSpec {
+  dateColumn: string;
+  grain?: TimeGrain; // absent means picked from the date range
+  horizon?: number; // periods to forecast; absent means one season
+}
+
+/**
+ * A pinned visual. Tiles with a `query` or `pivot` are recomputed from their
+ * session's dataset whenever the rows or dashboard filters change; `config`,
+ * `kpi` and `table` hold the last result, shown when that is not possible.
+ */
 export interface DashboardTile {
   id: string;
-  type: 'chart' | 'kpi';
+  type: 'chart' | 'kpi' | 'table' | 'text';
   config?: ChartConfig;
   kpi?: KPIMetric;
+  table?: TableSnapshot;
+  text?: string; // markdown commentary on text tiles
   w: number; // grid width 1-4
+  h?: number; // grid rows; absent means the default for the tile type
+  pageId?: string; // absent or unknown means the session's first page
+  query?: QuerySpec; // chart and KPI tiles keep the query that built them so they can be recomputed
+  pivot?: PivotConfig; // table tiles keep their pivot, applied after `filters`
+  filters?: FilterNode[];
+  staleReason?: string; // why the tile could not be recomputed against the current data
+}
+
+export interface TableSnapshot {
+  title: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  totalRow?: Record<string, any>;
 }
 
 export interface CleaningSuggestion {
@@ -65,17 +185,81 @@ export interface CleaningSuggestion {
   issue: string;
   suggestion: string;
   severity: 'low' | 'medium' | 'high';
-  actionType?: 'remove_nulls' | 'normalize' | 'convert_types' | 'deduplicate';
+  actionType?: CleaningActionType;
+  params?: CleaningParams;
+  source?: 'rules' | 'ai'; // local data-quality scan or model suggestion
+  affectedRows?: number; // exact count from a full scan; model suggestions only see a sample
+}
+
+export type CleaningActionType =
+  | 'remove_nulls'
+  | 'normalize'
+  | 'convert_types'
+  | 'deduplicate'
+  | 'fill_nulls'
+  | 'change_case'
+  | 'find_replace'
+  | 'cap_outliers'
+  | 'parse_dates'
+  | 'split_column'
+  | 'dedupe_by_key';
+
+/** Options for a cleaning action; each action reads only the fields it needs. */
+export interface CleaningParams {
+  fillStrategy?: 'mean' | 'median' | 'mode' | 'constant' | 'forward_fill';
+  fillValue?: string;
+  caseStyle?: 'lower' | 'upper' | 'title';
+  find?: string;
+  replace?: string;
+  useRegex?: boolean;
+  capMethod?: 'iqr' | 'percentile';
+  lowerPercentile?: number; // 0-100
+  upperPercentile?: number;
+  delimiter?: string;
+  newColumns?: string[]; // split_column targets, in order
+  keyColumns?: string[]; // dedupe_by_key; defaults to the suggestion's column
+  keep?: 'first' | 'last';
+}
+
+export interface CleaningChange {
+  rowId: string;
+  column: string;
+  before: any;
+  after: any;
+}
+
+export interface CleaningPreview {
+  affectedRows: number;
+  removedRows: number;
+  changedCells: number;
+  addedColumns: string[];
+  samples: CleaningChange[];
+  removedSamples: Record<string, any>[];
 }
 
 export interface AnalysisSession {
   id: string;
   datasetId: string;
+  name?: string; // absent means titled after its first question
+  forkedFrom?: { sessionId: string; messageId: string }; // the session and message this one branched from
   messages: ChatMessage[];
   dashboardTiles: DashboardTile[];
+  slicers?: DashboardSlicer[]; // dashboard-wide filters applied to every bound tile
+  pages?: DashboardPage[]; // absent means a single default page
   lastUpdated: number;
 }
 
+export interface DashboardPage {
+  id: string;
+  name: string;
+}
+
+export interface DashboardSlicer {
+  id: string;
+  column: string;
+  values: string[]; // empty means every value
+}
+
 export enum AnalysisStatus {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -91,6 +275,41 @@ export interface ColumnStats {
   avg: number;
   sum: number;
   count: number;
+  median?: number;
+  q1?: number;
+  q3?: number;
+  stdDev?: number;
+}
+
+export type AnomalyMethod = 'iqr' | 'zscore' | 'mad';
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+export type AnomalySensitivity = 'low' | 'medium' | 'high';
+
+export interface AnomalyScanOptions {
+  methods: AnomalyMethod[];
+  sensitivity: AnomalySensitivity;
+  levelShifts: boolean;
+}
+
+/**
+ * A flagged value. Point anomalies are single rows; level shifts mark the
+ * period of a time series where the column's typical value moved, and point
+ * at the rows in that period.
+ */
+export interface Anomaly {
+  id: string;
+  kind: 'point' | 'level_shift';
+  column: string;
+  score: number; // how far past the flagging threshold: 1 is on it, 2 is twice as far
+  severity: AnomalySeverity;
+  reason: string;
+  rowIds: string[];
+  methods?: AnomalyMethod[]; // point anomalies: every method that flagged the value
+  value?: number;
+  dateColumn?: string; // level shifts only
+  period?: string;
+  before?: number;
+  after?: number;
 }
 
 export interface SortConfig {
@@ -98,12 +317,172 @@ export interface SortConfig {
   direction: 'asc' | 'desc' | null;
 }
 
-export type FilterOperator = 'equals' | 'contains' | 'gt' | 'lt' | 'between';
+export type FilterOperator =
+  | 'equals' | 'contains' | 'gt' | 'lt' | 'between'
+  | 'in' | 'not_in' | 'is_empty' | 'not_empty' | 'starts_with' | 'regex' | 'relative_date';
 
 export interface ActiveFilter {
   id: string;
   column: string;
   operator: FilterOperator;
-  value: any;
+  value: any; // string[] for in / not_in, a RelativeDateRange for relative_date
   valueEnd?: any; // For range filtering
+  negate?: boolean;
+}
+
+export interface FilterGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  negate?: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = ActiveFilter | FilterGroup;
+
+/** 'today', 'this_month', 'last_quarter'... or 'last_<n>_days'. */
+export type RelativeDateRange = string;
+
+export interface SavedFilterSet {
+  id: string;
+  name: string;
+  filters: FilterNode[];
+  createdAt: number;
+}
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type ImportColumnType = 'string' | 'number' | 'boolean';
+
+export interface CsvImportOptions {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  skipRows: number;
+  headers: string[];
+  columnTypes: ImportColumnType[];
+}
+
+export type DataExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+
+export interface DataExportOptions {
+  format: DataExportFormat;
+  delimiter: CsvDelimiter; // csv only; tsv always uses tabs
+  includeHeader: boolean; // delimited formats only
+  numberFormat: 'original' | 'fixed' | 'locale';
+  decimals: number; // for 'fixed'
+  dateFormat: 'original' | 'iso' | 'locale';
+}
+
+export type ImportPayload =
+  | { kind: 'delimited'; text: string; encoding: string }
+  | { kind: 'records'; records: any[][] };
+
+export interface PendingImport {
+  fileName: string;
+  format: string;
+  buffer: ArrayBuffer;
+  payload: ImportPayload;
+  sheetNames?: string[];
+  activeSheet?: string;
+}
+
+export type AggregationFn = 'sum' | 'avg' | 'count' | 'count_distinct' | 'min' | 'max' | 'median';
+
+export interface QueryAggregation {
+  column: string; // '*' counts rows
+  fn: AggregationFn;
+  alias?: string;
+}
+
+export interface QueryMetric {
+  label: string;
+  aggregation: QueryAggregation;
+  description?: string;
+}
+
+export type StatisticTest = 'correlation' | 'regression' | 'ttest' | 'chi_square' | 'anova';
+
+/** A significance test or model computed locally over the spec's filtered rows. */
+export interface StatisticSpec {
+  test: StatisticTest;
+  columns?: string[]; // correlation: the numeric columns to compare; chi_square: the two categorical columns
+  target?: string; // regression, ttest and anova: the numeric outcome
+  predictors?: string[]; // regression: numeric explanatory columns
+  groupColumn?: string; // ttest and anova: the column that splits rows into groups
+  groups?: string[]; // ttest: the two groups compared; the two largest when omitted
+  metric?: string; // KPI tiles: label of the one metric the tile shows
+}
+
+/**
+ * Structured question returned by the model and executed locally over every
+ * row, so charts and KPIs are computed rather than guessed.
+ */
+export interface QuerySpec {
+  groupBy: string[];
+  aggregations: QueryAggregation[];
+  filters: Omit<ActiveFilter, 'id'>[];
+  sort?: { column: string; direction: 'asc' | 'desc' };
+  limit?: number;
+  chartType?: ChartConfig['type'];
+  title?: string;
+  metrics?: QueryMetric[];
+  forecast?: ForecastSpec;
+  statistic?: StatisticSpec;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, any>[];
+  sourceRowCount: number;
+}
+
+export interface AnalysisResult {
+  textResponse: string;
+  suggestedChart?: ChartConfig;
+  insights?: string[];
+  metrics?: KPIMetric[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey?: string;
+}
+
+export interface PivotConfig {
+  rows: string[]; // group-by columns
+  values: QueryAggregation[];
+  pivotColumn?: string; // distinct values become column headers
+  showTotals: boolean;
+}
+
+export interface PivotTable {
+  columns: string[];
+  rows: Record<string, any>[];
+  groupValues: Record<string, any>[]; // group-by values behind each row, for drill-down
+  totalRow?: Record<string, any>;
+  truncatedPivotValues: number;
+}
+
+/** The parts of a dataset that data operations change; row arrays are shared, never copied. */
+export interface DatasetSnapshot {
+  columns: string[];
+  rows: any[];
+  metadata?: Record<string, ColumnMetadata>;
+  calculatedColumns?: CalculatedColumn[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  kind: 'original' | 'edit' | 'cleaning' | 'column' | 'rebuild';
+  timestamp: number;
+  snapshot: DatasetSnapshot; // state after the operation
+}
+
+export interface DatasetHistory {
+  entries: HistoryEntry[];
+  cursor: number; // index of the entry the dataset currently reflects
 }